@@ -1,19 +1,155 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useDeferredValue } from 'react';
 import AudioRecorder from './components/AudioRecorder';
 import ReminderCard from './components/ReminderCard';
-import { parseInput } from './services/geminiService';
-import { ReminderData, ParseStatus, HistoryItem } from './types';
-import { v4 as uuidv4 } from 'uuid'; // We'll use a simple random ID generator function instead of importing uuid to keep it dependency-free as per constraints? No, prompt says "Use popular libraries". I'll simulate uuid to avoid extra import issues if environment is strict, or just use crypto.randomUUID.
+import ReviewPanel from './components/ReviewPanel';
+import CommandPanel from './components/CommandPanel';
+import QueryResults from './components/QueryResults';
+import HistoryToolbar, { HistoryView } from './components/HistoryToolbar';
+import AgendaView from './components/AgendaView';
+import CalendarView from './components/CalendarView';
+import SettingsPanel from './components/SettingsPanel';
+import HeaderClock from './components/HeaderClock';
+import TimeTravelPanel from './components/TimeTravelPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import InputQueueList from './components/InputQueueList';
+import { parseInput, ParseResult, ReminderCommand } from './services/geminiService';
+import { useHistory } from './hooks/useHistory';
+import { useReminderScheduler } from './hooks/useReminderScheduler';
+import { useInputQueue } from './hooks/useInputQueue';
+import { useSettings } from './hooks/useSettings';
+import { ClockContext } from './hooks/useClock';
+import { useTimeTravel } from './hooks/useTimeTravel';
+import { useTelegramBackButton, useTelegramCloudSync, useTelegramMainButton } from './hooks/useTelegram';
+import { devConfig } from './services/config';
+import { fixedClock } from './services/clock';
+import { ReminderValidationError } from './services/validation';
+import {
+  cancelDelivery,
+  deliverItem,
+  flushOutbox,
+  recordDelivery,
+  getDeliveryRecipient,
+  wasDelivered,
+  withdrawCancellation,
+} from './services/deliveryService';
+import { ImportProgress, importLines, splitImportLines } from './services/bulkImport';
+import { ReminderEdit, applyEdit, isDone, resetDelivery, setDone } from './services/historyEdits';
+import {
+  ModifyCommand,
+  QuerySummary,
+  buildCommandContext,
+  isModifyCommand,
+  rescheduleItem,
+  summarizeQuery,
+} from './services/reminderCommands';
+import { snoozeUntil } from './services/notificationScheduler';
+import {
+  EMPTY_FILTER,
+  FieldGroup,
+  HistoryFilter,
+  HistoryGroupBy,
+  HistorySort,
+  collectTags,
+  groupHistory,
+  queryHistory,
+} from './services/historyQuery';
+import { HistoryImportError, HistoryImportErrorCode, downloadIcs, downloadJson, parseHistoryFile } from './services/historyTransfer';
+import { MessageKey, Translate, createTranslator } from './services/i18n';
+import { ParseApiError, ParseApiErrorCode } from './services/parseApi';
+import { recordTelemetry } from './services/parseTelemetry';
+import { QueuedInput } from './services/inputQueue';
+import { languageOfLocale } from './services/language';
+import { getTelegramWebApp, initTelegramWebApp, notifyHaptic } from './services/telegram';
+import { ReminderData, HistoryItem, TimeCandidate, ReminderCategory, ReminderPriority } from './types';
+
+const UNDO_WINDOW_MS = 6000;
+// Cards rendered per "Show more" step; the filtered list itself can be much longer.
+const LIST_PAGE_SIZE = 30;
+
+const IMPORT_ERROR_MESSAGES: Record<HistoryImportErrorCode, MessageKey> = {
+  invalid_json: 'error.importInvalidJson',
+  no_list: 'error.importNoList',
+  empty: 'error.importEmpty',
+};
+
+const PARSE_ERROR_MESSAGES: Record<ParseApiErrorCode, MessageKey> = {
+  invalid_request: 'error.processFailed',
+  unauthorized: 'error.unauthorized',
+  payload_too_large: 'error.tooLarge',
+  unsupported_media_type: 'error.unsupportedAudio',
+  rate_limited: 'error.rateLimited',
+  quota_exceeded: 'error.quota',
+  invalid_response: 'error.unusableReminder',
+  upstream_auth: 'error.upstreamAuth',
+  upstream_error: 'error.upstream',
+  network: 'error.network',
+  timeout: 'error.timeout',
+  aborted: 'error.cancelled',
+};
+
+const describeParseError = (err: unknown, t: Translate): string => {
+  if (err instanceof ReminderValidationError) return t('error.unusableReminder');
+  if (err instanceof ParseApiError) {
+    return t(PARSE_ERROR_MESSAGES[err.code], { seconds: Math.ceil((err.retryAfterMs ?? 0) / 1000) });
+  }
+  return t('error.processFailed');
+};
 
 const generateId = () => {
   return crypto.randomUUID ? crypto.randomUUID() : Date.now().toString();
 }
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<ParseStatus>(ParseStatus.IDLE);
   const [textInput, setTextInput] = useState("");
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const { history, isLoaded, storageError, saveItem, removeItem } = useHistory();
+  const { settings, updateSettings } = useSettings();
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const { timeZone } = settings;
+  const { clock, timeTravel, setTimeTravel } = useTimeTravel();
+  const t = useMemo(() => createTranslator(languageOfLocale(settings.locale)), [settings.locale]);
+  const { permission, requestPermission } = useReminderScheduler(history, isLoaded, saveItem, settings, t, clock);
+  const parseOptions = { timeZone, locale: settings.locale, clock, onTelemetry: recordTelemetry };
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [pendingReview, setPendingReview] = useState<ParseResult | null>(null);
+  const [pendingCommand, setPendingCommand] = useState<{ command: ModifyCommand; rawText: string } | null>(null);
+  const [queryAnswer, setQueryAnswer] = useState<{ summary: QuerySummary; rawText: string } | null>(null);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<HistoryItem | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<HistorySort>('created');
+  const [view, setView] = useState<HistoryView>('list');
+  const [groupBy, setGroupBy] = useState<HistoryGroupBy>('none');
+  const [listLimit, setListLimit] = useState(LIST_PAGE_SIZE);
+
+  // Filtering runs on deferred values so typing in search stays responsive
+  // with large histories.
+  const deferredFilter = useDeferredValue(filter);
+  const deferredSort = useDeferredValue(sort);
+  const visibleHistory = useMemo(
+    () => queryHistory(history, deferredFilter, deferredSort, timeZone),
+    [history, deferredFilter, deferredSort, timeZone]
+  );
+  const knownTags = useMemo(() => collectTags(history), [history]);
+  // Grouping applies to the page shown, so "Show more" still pages through
+  // the filtered list.
+  const visibleGroups = useMemo<FieldGroup[] | null>(
+    () => (groupBy === 'none' ? null : groupHistory(visibleHistory.slice(0, listLimit), groupBy)),
+    [groupBy, visibleHistory, listLimit]
+  );
+
+  // Retry undelivered reminders on startup and whenever connectivity returns
+  useEffect(() => {
+    const flush = () => {
+      flushOutbox(getDeliveryRecipient()).catch(err => console.error("Outbox flush failed:", err));
+    };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, []);
 
   // For sticky header scroll effect
   const [isScrolled, setIsScrolled] = useState(false);
@@ -23,175 +159,605 @@ const App: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const handleTextSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Submissions go through the input queue, which times out, retries and
+  // holds them while offline; text falls back to the local parser only once
+  // the queue won't try again. Times resolve against when the input was submitted.
+  const processInput = (
+    input: string | { data: string; mimeType: string },
+    { review = false }: { review?: boolean } = {}
+  ) => {
+    setErrorMsg(null);
+    queue.submit(input, { review, submittedAt: clock.now() });
+  };
+
+  const handleParsed = async (item: QueuedInput, result: ParseResult) => {
+    if (item.answering) {
+      const { id, answer } = item.answering;
+      const target = history.find(h => h.id === id);
+      // Nothing to do if the reminder was deleted while the answer was parsed.
+      if (target) await applyAnswer(target, answer, result);
+    } else if (result.command) {
+      showCommand(result.command, result.rawText);
+    } else if (item.review) {
+      setPendingReview(result);
+    } else {
+      await saveReminders(result.reminders, result.rawText);
+    }
+    notifyHaptic('success');
+  };
+
+  const queue = useInputQueue(isLoaded, {
+    parse: (item, { signal, willRetry }) =>
+      parseInput(item.input, {
+        ...parseOptions,
+        clock: fixedClock(item.submittedAt),
+        context: buildCommandContext(history, clock.now()),
+        signal,
+        localFallback: error => !willRetry(error),
+      }),
+    onResult: handleParsed,
+    onFailure: (_item, err) => {
+      console.error(err);
+      notifyHaptic('error');
+      setErrorMsg(describeParseError(err, t));
+    },
+  }, generateId);
+  const isParsing = queue.items.some(item => item.status === 'processing');
+  // Imported lines wait on the queue one by one; hold off other input until they're done.
+  const importing = importProgress !== null;
+
+  const submitText = () => {
     if (!textInput.trim()) return;
-    
-    await processInput(textInput);
+
+    processInput(textInput);
     setTextInput("");
   };
 
-  const handleAudioComplete = async (base64Data: string, mimeType: string) => {
-    await processInput({ data: base64Data, mimeType });
+  const handleTextSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitText();
+  };
+
+  // Inside Telegram: follow its theme, mirror history to CloudStorage, and
+  // let its main and back buttons drive the text box and settings. The
+  // review and command panels claim them for themselves while open.
+  useEffect(() => {
+    const webApp = getTelegramWebApp();
+    return webApp ? initTelegramWebApp(webApp) : undefined;
+  }, []);
+  useTelegramCloudSync(history, isLoaded, saveItem, removeItem);
+  useTelegramMainButton(
+    textInput.trim() && !pendingReview && !pendingCommand
+      ? {
+          text: t('app.remindMe'),
+          enabled: !importing,
+          progress: isParsing,
+          onClick: submitText,
+        }
+      : null
+  );
+  useTelegramBackButton(showSettings ? { onClick: () => setShowSettings(false) } : null);
+
+  const handleAudioComplete = (base64Data: string, mimeType: string) => {
+    // Voice input is easy to mishear, so it goes through review before saving.
+    processInput({ data: base64Data, mimeType }, { review: true });
   };
 
-  const processInput = async (input: string | { data: string; mimeType: string }) => {
-    setStatus(ParseStatus.PROCESSING);
+  // Every reminder extracted from one input becomes its own item sharing that input.
+  const saveReminders = async (reminders: ReminderData[], rawText: string) => {
+    const createdAt = clock.now().toISOString();
+    for (const data of reminders) {
+      const newItem: HistoryItem = {
+        ...data,
+        id: generateId(),
+        createdAt,
+        originalInput: rawText,
+        delivery: { status: 'pending', attempts: 0, updatedAt: createdAt },
+      };
+
+      await saveItem(newItem);
+      deliverInBackground(newItem);
+    }
+  };
+
+  // Delivery retries in the background; its outcome is recorded on the stored item.
+  const deliverInBackground = (item: HistoryItem) => {
+    deliverItem(item, getDeliveryRecipient())
+      .then(delivered => recordDelivery(item, delivered))
+      .catch(err => console.error("Failed to record delivery status:", err));
+  };
+
+  // Settles an ambiguous reminder. The schedule is reset so the notification
+  // scheduler picks up the chosen time.
+  const resolveAmbiguity = async (resolved: HistoryItem) => {
+    const updated: HistoryItem = { ...resolved, schedule: undefined };
+    await saveItem(updated);
+    deliverInBackground(updated);
+  };
+
+  const handleChooseCandidate = (item: HistoryItem, candidate: TimeCandidate) =>
+    resolveAmbiguity({
+      ...applyEdit(item, { scheduled_time: candidate.scheduled_time, confidence_score: 1 }, clock.now()),
+      clarification: { chosenTime: candidate.scheduled_time, resolvedAt: clock.now().toISOString() },
+    }).catch(err => console.error("Failed to save choice:", err));
+
+  // Re-parses the original input with the answer attached, through the queue
+  // like any other submission; the result is applied by `applyAnswer`.
+  const handleAnswerQuestion = async (item: HistoryItem, answer: string) => {
     setErrorMsg(null);
+    try {
+      await queue.enqueue(
+        `${item.originalInput}\n[CLARIFICATION] Q: ${item.clarifying_question ?? ''} A: ${answer}`,
+        { review: false, answering: { id: item.id, answer }, submittedAt: clock.now() }
+      );
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(t('error.answerFailed'));
+    }
+  };
+
+  const applyAnswer = async (item: HistoryItem, answer: string, { reminders }: ParseResult) => {
+    // The input may hold several reminders; keep the one this card is about.
+    const data = reminders.find(r => r.reminder_content.toLowerCase() === item.reminder_content.toLowerCase())
+      ?? reminders[0];
+    if (!data) throw new Error("The answer produced no reminder");
+    const stillAmbiguous = (data.candidates?.length ?? 0) > 1;
+    await resolveAmbiguity({
+      ...applyEdit(item, {
+        reminder_content: data.reminder_content || item.reminder_content,
+        scheduled_time: data.scheduled_time,
+        confidence_score: data.confidence_score,
+        candidates: data.candidates,
+        clarifying_question: data.clarifying_question,
+      }, clock.now()),
+      clarification: stillAmbiguous
+        ? undefined
+        : { chosenTime: data.scheduled_time, answer, resolvedAt: clock.now().toISOString() },
+    });
+  };
 
+  // Commands about existing reminders are only proposed here; nothing changes
+  // until the user confirms in the command panel.
+  const showCommand = (command: ReminderCommand, rawText: string) => {
+    setPendingReview(null);
+    if (isModifyCommand(command)) {
+      setQueryAnswer(null);
+      setPendingCommand({ command, rawText });
+    } else {
+      setPendingCommand(null);
+      setQueryAnswer({ summary: summarizeQuery(command, history, clock.now(), timeZone), rawText });
+    }
+  };
+
+  const handleEdit = async (item: HistoryItem, edit: ReminderEdit) => {
+    const updated = applyEdit(item, edit, clock.now());
+    await saveItem(updated);
+    if (updated.delivery?.status === 'pending') deliverInBackground(updated);
+  };
+
+  const handleToggleDone = (item: HistoryItem) => {
+    saveItem(setDone(item, !isDone(item), clock.now())).catch(err => console.error("Failed to update reminder:", err));
+  };
+
+  const handleDelete = async (item: HistoryItem) => {
     try {
-      const { data, rawText } = await parseInput(input);
-
-const N8N_URL = "https://shavkatjon.app.n8n.cloud/webhook/create-reminder";
-
-const chatId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-const reminderText = (data as any).text || rawText;
-const remindAtUnix = (data as any).remind_at; // must be unix seconds
-
-if (chatId && remindAtUnix) {
-  await fetch(N8N_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text: reminderText,
-      remind_at: remindAtUnix,
-    }),
-  });
-}
-// ✅ PASTE THIS BLOCK ENDS HERE
+      await removeItem(item.id);
+    } catch {
+      return;
+    }
+    // Telegram would still send it otherwise.
+    cancelDelivery(item, getDeliveryRecipient()).catch(err => console.error("Failed to cancel delivery:", err));
+    setRecentlyDeleted(item);
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = window.setTimeout(() => setRecentlyDeleted(null), UNDO_WINDOW_MS);
+  };
 
-const newItem: HistoryItem = {
-  ...data,
-  id: generateId(),
-  createdAt: new Date().toISOString(),
-  originalInput: rawText
-};
+  const handleUndoDelete = async () => {
+    if (!recentlyDeleted) return;
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    const item = recentlyDeleted;
+    setRecentlyDeleted(null);
+    withdrawCancellation(item.id);
+    // The cancellation may already have reached the receiver; send it back.
+    const restored = wasDelivered(item) ? resetDelivery(item, clock.now()) : item;
+    try {
+      await saveItem(restored);
+      if (restored !== item) deliverInBackground(restored);
+    } catch (err) {
+      console.error("Failed to restore reminder:", err);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-      setHistory(prev => [newItem, ...prev]);
-      setStatus(ParseStatus.SUCCESS);
+    const lines = splitImportLines(await file.text());
+    if (lines.length === 0) {
+      setErrorMsg(t('error.emptyImportFile'));
+      return;
+    }
+
+    setErrorMsg(null);
+    setImportProgress({ done: 0, total: lines.length, failed: 0 });
+    // One line at a time through the queue, so each gets its timeouts,
+    // retries and offline wait.
+    const failures = await importLines(
+      lines,
+      line => queue.enqueue(line, { review: false, submittedAt: clock.now() }),
+      setImportProgress
+    );
+    setImportProgress(null);
+    if (failures.length > 0) {
+      setErrorMsg(t('error.importLinesFailed', { failed: failures.length, total: lines.length }));
+    }
+  };
+
+  // Restores a .ics or JSON backup. Items keep their ids, so re-importing the
+  // same file overwrites rather than duplicates.
+  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setErrorMsg(null);
+    try {
+      const items = parseHistoryFile(file.name, await file.text(), timeZone, generateId);
+      for (const item of items) {
+        if (item.delivery) {
+          await saveItem(item);
+          continue;
+        }
+        const pending: HistoryItem = {
+          ...item,
+          delivery: { status: 'pending', attempts: 0, updatedAt: clock.now().toISOString() },
+        };
+        await saveItem(pending);
+        deliverInBackground(pending);
+      }
     } catch (err) {
       console.error(err);
-      setStatus(ParseStatus.ERROR);
-      setErrorMsg("Failed to process input. Please try again.");
-    } finally {
-      // Reset status after a delay to allow users to see the result state or just keep showing the list
-      setTimeout(() => {
-        if (status !== ParseStatus.RECORDING) {
-           setStatus(ParseStatus.IDLE);
-        }
-      }, 2000);
+      setErrorMsg(t(err instanceof HistoryImportError ? IMPORT_ERROR_MESSAGES[err.code] : 'error.importFailed'));
+    }
+  };
+
+  const handleConfirmCommand = async (target: HistoryItem) => {
+    if (!pendingCommand) return;
+    const { command } = pendingCommand;
+    try {
+      if (command.intent === 'cancel') {
+        await handleDelete(target);
+      } else if (command.intent === 'snooze') {
+        await saveItem(snoozeUntil(target, new Date(command.new_time!), clock.now()));
+      } else {
+        const updated = rescheduleItem(target, command.new_time!, clock.now());
+        await saveItem(updated);
+        if (updated.delivery?.status === 'pending') deliverInBackground(updated);
+      }
+      setPendingCommand(null);
+      notifyHaptic('success');
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(t('error.saveFailed'));
+    }
+  };
+
+  const handleReviewSave = async (reminders: ReminderData[], transcript: string) => {
+    try {
+      await saveReminders(reminders, transcript);
+      setPendingReview(null);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(t('error.saveFailed'));
     }
   };
 
+  const groupLabel = (key: string): string => {
+    if (groupBy === 'priority') return t(`priority.${key as ReminderPriority}`);
+    if (groupBy === 'category') return key ? t(`category.${key as ReminderCategory}`) : t('history.group.noCategory');
+    if (groupBy === 'tag') return key ? `#${key}` : t('history.group.noTag');
+    return key || t('history.group.noLocation');
+  };
+
+  const renderCard = (item: HistoryItem) => (
+    <ReminderCard
+      key={item.id}
+      data={item}
+      settings={settings}
+      t={t}
+      delivery={item.delivery}
+      schedule={item.schedule}
+      clarification={item.clarification}
+      onChooseCandidate={(candidate) => handleChooseCandidate(item, candidate)}
+      onAnswerQuestion={(answer) => handleAnswerQuestion(item, answer)}
+      isDone={isDone(item)}
+      wasEdited={(item.editCount ?? 0) > 0}
+      onEdit={(edit) => handleEdit(item, edit)}
+      onToggleDone={() => handleToggleDone(item)}
+      onDelete={() => handleDelete(item)}
+      onDownloadIcs={() => downloadIcs([item], `reminder-${item.id}.ics`)}
+      isLatest={item === history[0]}
+    />
+  );
+
   return (
-    <div className="min-h-screen bg-background flex flex-col items-center font-sans selection:bg-primary-500/30">
+    <ClockContext.Provider value={clock}>
+      <div className="min-h-screen bg-background flex flex-col items-center font-sans selection:bg-primary-500/30">
       
-      {/* Header */}
-      <header className={`fixed top-0 w-full z-50 transition-all duration-300 border-b ${isScrolled ? 'bg-background/80 backdrop-blur-md border-slate-800 py-3' : 'bg-transparent border-transparent py-6'}`}>
-        <div className="max-w-4xl mx-auto px-6 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 bg-gradient-to-br from-primary-400 to-primary-600 rounded-lg flex items-center justify-center shadow-lg shadow-primary-500/20">
-              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
-            </div>
-            <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-slate-100 to-slate-400">
-              Chronos
-            </h1>
-          </div>
-          <div className="flex items-center gap-4">
-              <div className="text-xs text-slate-500 font-mono hidden sm:block">
-                 UTC: {new Date().toISOString().split('T')[1].split('.')[0]}Z
+        {/* Header */}
+        <header className={`fixed top-0 w-full z-50 transition-all duration-300 border-b ${isScrolled ? 'bg-background/80 backdrop-blur-md border-slate-800 py-3' : 'bg-transparent border-transparent py-6'}`}>
+          <div className="max-w-4xl mx-auto px-6 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-gradient-to-br from-primary-400 to-primary-600 rounded-lg flex items-center justify-center shadow-lg shadow-primary-500/20">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
               </div>
+              <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-slate-100 to-slate-400">
+                Chronos
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+                {permission === 'default' && (
+                  <button
+                    onClick={requestPermission}
+                    className="flex items-center gap-1.5 text-xs text-primary-300 hover:text-primary-200 transition-colors"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9"/><path d="M10.3 21a1.94 1.94 0 0 0 3.4 0"/></svg>
+                    {t('app.enableNotifications')}
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowSettings(open => !open)}
+                  aria-label={t('app.settings')}
+                  aria-expanded={showSettings}
+                  className="text-slate-500 hover:text-primary-300 transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>
+                </button>
+                <HeaderClock isTimeTravelling={timeTravel !== null} title={timeTravel ? t('timeTravel.active') : undefined} />
+            </div>
           </div>
-        </div>
-      </header>
-
-      <main className="w-full max-w-2xl px-6 pt-32 pb-20 flex flex-col gap-12">
-        
-        {/* Hero / Input Section */}
-        <section className="flex flex-col gap-8 animate-[fadeIn_0.8s_ease-out]">
-          <div className="text-center space-y-2">
-            <h2 className="text-3xl md:text-4xl font-bold text-white">
-              Capture Time <span className="text-primary-400">&</span> Intent
-            </h2>
-            <p className="text-slate-400 text-sm md:text-base max-w-lg mx-auto">
-              Speak or type naturally. Chronos uses Gemini 2.5 to extract precise schedules and reminders from your chaotic thoughts.
-            </p>
-          </div>
+        </header>
 
-          {/* Tabs / Input Methods */}
-          <div className="space-y-6">
-            <AudioRecorder 
-              onRecordingComplete={handleAudioComplete} 
-              isProcessing={status === ParseStatus.PROCESSING} 
+        <main className="w-full max-w-2xl px-6 pt-32 pb-20 flex flex-col gap-12">
+          {showSettings && (
+            <SettingsPanel
+              settings={settings}
+              onChange={updateSettings}
+              onClose={() => setShowSettings(false)}
+              onOpenDiagnostics={() => { setShowSettings(false); setShowDiagnostics(true); }}
+              t={t}
             />
-            
-            <div className="relative flex items-center py-2">
-              <div className="flex-grow border-t border-slate-800"></div>
-              <span className="flex-shrink-0 mx-4 text-slate-600 text-xs uppercase tracking-widest">Or type it</span>
-              <div className="flex-grow border-t border-slate-800"></div>
+          )}
+          {showDiagnostics && (
+            <DiagnosticsPanel settings={settings} onClose={() => setShowDiagnostics(false)} t={t} />
+          )}
+          {showSettings && devConfig.timeTravel && (
+            <TimeTravelPanel timeTravel={timeTravel} settings={settings} onChange={setTimeTravel} t={t} />
+          )}
+        
+          {/* Hero / Input Section */}
+          <section className="flex flex-col gap-8 animate-[fadeIn_0.8s_ease-out]">
+            <div className="text-center space-y-2">
+              <h2 className="text-3xl md:text-4xl font-bold text-white">
+                {t('app.heroTitleStart')} <span className="text-primary-400">&</span> {t('app.heroTitleEnd')}
+              </h2>
+              <p className="text-slate-400 text-sm md:text-base max-w-lg mx-auto">
+                {t('app.heroSubtitle')}
+              </p>
             </div>
 
-            <form onSubmit={handleTextSubmit} className="relative group">
-              <input
-                type="text"
-                value={textInput}
-                onChange={(e) => setTextInput(e.target.value)}
-                placeholder="e.g., 'Remind me to call John regarding the project next Tuesday at 2pm'"
-                className="w-full bg-surface border border-slate-700 rounded-xl px-6 py-4 pr-14 text-slate-200 placeholder-slate-500 focus:outline-none focus:border-primary-500 focus:ring-1 focus:ring-primary-500 transition-all shadow-lg"
-                disabled={status === ParseStatus.PROCESSING}
+            {/* Tabs / Input Methods */}
+            <div className="space-y-6">
+              <AudioRecorder 
+                onRecordingComplete={handleAudioComplete} 
+                isProcessing={isParsing}
+                settings={settings}
+                t={t}
               />
-              <button 
-                type="submit"
-                disabled={!textInput.trim() || status === ParseStatus.PROCESSING}
-                className="absolute right-2 top-2 bottom-2 bg-primary-600 hover:bg-primary-500 text-white px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-              >
-                {status === ParseStatus.PROCESSING ? (
-                  <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"/><polygon points="22 2 15 22 11 13 2 9 22 2"/></svg>
-                )}
-              </button>
-            </form>
-          </div>
 
-          {errorMsg && (
-            <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-300 text-sm text-center animate-pulse">
-              {errorMsg}
+              {pendingReview && (
+                <ReviewPanel
+                  reminders={pendingReview.reminders}
+                  transcript={pendingReview.rawText}
+                  timeZone={timeZone}
+                  isProcessing={isParsing}
+                  onReparse={(transcript) => processInput(transcript, { review: true })}
+                  onSave={handleReviewSave}
+                  onDiscard={() => setPendingReview(null)}
+                  t={t}
+                />
+              )}
+
+              {pendingCommand && (
+                <CommandPanel
+                  command={pendingCommand.command}
+                  rawText={pendingCommand.rawText}
+                  history={history}
+                  settings={settings}
+                  isProcessing={isParsing}
+                  onConfirm={handleConfirmCommand}
+                  onDismiss={() => setPendingCommand(null)}
+                  t={t}
+                />
+              )}
+
+              {queryAnswer && (
+                <QueryResults
+                  summary={queryAnswer.summary}
+                  rawText={queryAnswer.rawText}
+                  settings={settings}
+                  onClose={() => setQueryAnswer(null)}
+                  t={t}
+                />
+              )}
+            
+              <div className="relative flex items-center py-2">
+                <div className="flex-grow border-t border-slate-800"></div>
+                <span className="flex-shrink-0 mx-4 text-slate-600 text-xs uppercase tracking-widest">{t('app.orTypeIt')}</span>
+                <div className="flex-grow border-t border-slate-800"></div>
+              </div>
+
+              <form onSubmit={handleTextSubmit} className="relative group">
+                <input
+                  type="text"
+                  value={textInput}
+                  onChange={(e) => setTextInput(e.target.value)}
+                  placeholder={t('app.inputPlaceholder')}
+                  className="w-full bg-surface border border-slate-700 rounded-xl px-6 py-4 pr-14 text-slate-200 placeholder-slate-500 focus:outline-none focus:border-primary-500 focus:ring-1 focus:ring-primary-500 transition-all shadow-lg"
+                  disabled={importing}
+                />
+                <button 
+                  type="submit"
+                  disabled={!textInput.trim() || importing}
+                  className="absolute right-2 top-2 bottom-2 bg-primary-600 hover:bg-primary-500 text-white px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                >
+                  {isParsing ? (
+                    <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"/><polygon points="22 2 15 22 11 13 2 9 22 2"/></svg>
+                  )}
+                </button>
+              </form>
+
+              <div className="flex justify-center">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,text/plain"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importing}
+                  className="text-xs text-slate-500 hover:text-primary-300 transition-colors disabled:opacity-50"
+                >
+                  {importProgress
+                    ? t('app.importProgress', { done: importProgress.done, total: importProgress.total })
+                    : t('app.importText')}
+                </button>
+                <span className="mx-2 text-slate-700">·</span>
+                <input
+                  ref={backupInputRef}
+                  type="file"
+                  accept=".ics,.json,text/calendar,application/json"
+                  onChange={handleImportBackup}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => backupInputRef.current?.click()}
+                  disabled={importing}
+                  className="text-xs text-slate-500 hover:text-primary-300 transition-colors disabled:opacity-50"
+                >
+                  {t('app.restoreBackup')}
+                </button>
+              </div>
             </div>
-          )}
-        </section>
-
-        {/* Results Feed */}
-        {history.length > 0 && (
-           <section className="flex flex-col gap-6 animate-[slideUp_0.5s_ease-out]">
-              <div className="flex items-center gap-2 text-slate-500 text-sm font-medium uppercase tracking-wider">
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 3v5h5"/><path d="M3.05 13A9 9 0 1 0 6 5.3L3 8"/><path d="M12 7v5l4 2"/></svg>
-                Recent Parses
+
+            {(errorMsg || storageError) && (
+              <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-300 text-sm text-center animate-pulse">
+                {errorMsg || storageError}
               </div>
+            )}
+          </section>
+
+          {queue.items.length > 0 && (
+            <InputQueueList
+              items={queue.items}
+              settings={settings}
+              onCancel={queue.cancel}
+              onRetry={queue.retry}
+              onDismiss={queue.dismiss}
+              t={t}
+            />
+          )}
+
+          {/* Results Feed */}
+          {history.length > 0 && (
+             <section className="flex flex-col gap-6 animate-[slideUp_0.5s_ease-out]">
+                <div className="flex items-center gap-2 text-slate-500 text-sm font-medium uppercase tracking-wider">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 3v5h5"/><path d="M3.05 13A9 9 0 1 0 6 5.3L3 8"/><path d="M12 7v5l4 2"/></svg>
+                  {t('app.recentParses')}
+                  <div className="ml-auto flex items-center gap-3 normal-case tracking-normal text-xs">
+                    <button type="button" onClick={() => downloadIcs(history)} className="hover:text-primary-300 transition-colors">
+                      {t('app.exportIcs')}
+                    </button>
+                    <button type="button" onClick={() => downloadJson(history)} className="hover:text-primary-300 transition-colors">
+                      {t('app.exportJson')}
+                    </button>
+                  </div>
+                </div>
               
-              <div className="flex flex-col gap-4 items-center">
-                {history.map((item, index) => (
-                  <ReminderCard 
-                    key={item.id} 
-                    data={item} 
-                    isLatest={index === 0}
-                  />
-                ))}
-              </div>
-           </section>
+                <HistoryToolbar
+                  filter={filter}
+                  sort={sort}
+                  view={view}
+                  groupBy={groupBy}
+                  tags={knownTags}
+                  resultCount={visibleHistory.length}
+                  totalCount={history.length}
+                  onFilterChange={(next) => { setFilter(next); setListLimit(LIST_PAGE_SIZE); }}
+                  onSortChange={(next) => { setSort(next); setListLimit(LIST_PAGE_SIZE); }}
+                  onGroupByChange={setGroupBy}
+                  onViewChange={setView}
+                  t={t}
+                />
+
+                {view === 'agenda' && <AgendaView items={visibleHistory} settings={settings} t={t} />}
+                {view === 'calendar' && <CalendarView items={visibleHistory} settings={settings} t={t} />}
+                {view === 'list' && (
+                  <div className="flex flex-col gap-4 items-center">
+                    {visibleGroups
+                      ? visibleGroups.map(group => (
+                          <div key={group.key} className="w-full flex flex-col gap-4 items-center">
+                            <h3 className="w-full max-w-md text-xs text-slate-500 uppercase tracking-wider font-semibold">
+                              {groupLabel(group.key)} <span className="text-slate-600">· {group.items.length}</span>
+                            </h3>
+                            {group.items.map(renderCard)}
+                          </div>
+                        ))
+                      : visibleHistory.slice(0, listLimit).map(renderCard)}
+                    {visibleHistory.length === 0 && (
+                      <p className="text-sm text-slate-500 py-8">{t('app.noMatches')}</p>
+                    )}
+                    {visibleHistory.length > listLimit && (
+                      <button
+                        type="button"
+                        onClick={() => setListLimit(limit => limit + LIST_PAGE_SIZE)}
+                        className="text-xs text-slate-500 hover:text-primary-300"
+                      >
+                        {t('app.showMore', { count: visibleHistory.length - listLimit })}
+                      </button>
+                    )}
+                  </div>
+                )}
+             </section>
+          )}
+        </main>
+
+        {/* Undo Delete */}
+        {recentlyDeleted && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 shadow-xl text-sm">
+            <span className="text-slate-300">{t('app.reminderDeleted')}</span>
+            <button onClick={handleUndoDelete} className="text-primary-300 hover:text-primary-200 font-medium">
+              {t('app.undo')}
+            </button>
+          </div>
         )}
-      </main>
 
-      {/* Background Effects */}
-      <div className="fixed inset-0 -z-10 pointer-events-none">
-         <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary-900/10 rounded-full blur-[128px]"></div>
-         <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-blue-900/10 rounded-full blur-[128px]"></div>
+        {/* Background Effects */}
+        <div className="fixed inset-0 -z-10 pointer-events-none">
+           <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary-900/10 rounded-full blur-[128px]"></div>
+           <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-blue-900/10 rounded-full blur-[128px]"></div>
+        </div>
       </div>
-    </div>
+    </ClockContext.Provider>
   );
 };
 
@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem } from '../types';
+import { dayKey, groupByDay } from '../services/historyQuery';
+import { addDays, getZonedParts, zonedTimeToUtc } from '../services/timeZone';
+import { UserSettings } from '../services/settings';
+import { formatDayKey } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { useClock } from '../hooks/useClock';
+import ReminderRow from './ReminderRow';
+
+interface AgendaViewProps {
+  items: HistoryItem[];
+  settings: UserSettings;
+  t: Translate;
+}
+
+const DAYS_PER_PAGE = 14;
+
+const AgendaView: React.FC<AgendaViewProps> = ({ items, settings, t }) => {
+  const { timeZone } = settings;
+  const clock = useClock();
+  const [dayLimit, setDayLimit] = useState(DAYS_PER_PAGE);
+
+  const { groups, today, tomorrow } = useMemo(() => {
+    const now = clock.now();
+    const wall = { ...getZonedParts(now, timeZone), hour: 0, minute: 0, second: 0 };
+    return {
+      groups: groupByDay(items, timeZone, zonedTimeToUtc(wall, timeZone)),
+      today: dayKey(now, timeZone),
+      tomorrow: dayKey(zonedTimeToUtc(addDays(wall, 1), timeZone), timeZone),
+    };
+  }, [items, timeZone, clock]);
+
+  if (groups.length === 0) {
+    return <p className="text-center text-sm text-slate-500 py-8">{t('agenda.empty')}</p>;
+  }
+
+  const heading = (day: string) => {
+    if (day === today) return t('agenda.today');
+    if (day === tomorrow) return t('agenda.tomorrow');
+    return formatDayKey(day, settings, { weekday: 'long', month: 'long', day: 'numeric' });
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {groups.slice(0, dayLimit).map(({ day, items: dayItems }) => (
+        <div key={day}>
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 border-b border-slate-800 pb-1">
+            {heading(day)}
+            <span className="ml-2 text-slate-600 normal-case tracking-normal">{dayItems.length}</span>
+          </h4>
+          <ul className="divide-y divide-slate-800/60">
+            {dayItems.map(item => <ReminderRow key={item.id} item={item} settings={settings} t={t} />)}
+          </ul>
+        </div>
+      ))}
+      {groups.length > dayLimit && (
+        <button
+          type="button"
+          onClick={() => setDayLimit(limit => limit + DAYS_PER_PAGE)}
+          className="self-center text-xs text-slate-500 hover:text-primary-300"
+        >
+          {t('agenda.showMore', { count: groups.length - dayLimit })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -1,130 +1,180 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useClock } from '../hooks/useClock';
+import {
+  RecorderError,
+  RecorderErrorCode,
+  audioMimeType,
+  canRecord,
+  checkAudioFile,
+  createSilenceDetector,
+  pickRecorderMimeType,
+  readAsBase64,
+  rmsLevel,
+  toRecorderError,
+} from '../services/audioCapture';
+import { recorderConfig } from '../services/config';
+import { formatInstant } from '../services/formatting';
+import { MessageKey, Translate } from '../services/i18n';
+import {
+  LiveTranscriber,
+  LiveTranscript,
+  provisionalReminder,
+  startLiveTranscription,
+  transcriptText,
+} from '../services/liveTranscription';
+import { UserSettings } from '../services/settings';
 
 interface AudioRecorderProps {
   onRecordingComplete: (base64Data: string, mimeType: string) => void;
   isProcessing: boolean;
+  /** Locale for live recognition, and how the provisional time is shown. */
+  settings: UserSettings;
+  t: Translate;
+  /** Defaults come from `recorderConfig`. */
+  maxDurationSeconds?: number;
+  silenceStopMs?: number;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isProcessing }) => {
+const RECORDER_ERROR_MESSAGES: Record<RecorderErrorCode, MessageKey> = {
+  permission: 'error.microphone',
+  no_device: 'error.microphoneMissing',
+  device_busy: 'error.microphoneBusy',
+  unsupported: 'error.recordingUnsupported',
+  file_type: 'error.audioFileType',
+  file_too_large: 'error.audioFileTooLarge',
+  file_unreadable: 'error.audioUnreadable',
+};
+
+// The countdown turns urgent for the last few seconds.
+const WARNING_SECONDS = 10;
+// Recorded audio is delivered in slices of this length while recording.
+const CHUNK_MS = 1000;
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({
+  onRecordingComplete,
+  isProcessing,
+  settings,
+  t,
+  maxDurationSeconds = recorderConfig.maxDurationSeconds,
+  silenceStopMs = recorderConfig.silenceStopMs,
+}) => {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [error, setError] = useState<RecorderErrorCode | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Null when the browser can't transcribe live; shown until the final parse arrives.
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
+  const clock = useClock();
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  // Set before stopping when the clip should be thrown away rather than sent.
+  const discardRef = useRef(false);
   const timerRef = useRef<number | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const dataArrayRef = useRef<Uint8Array | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const transcriberRef = useRef<LiveTranscriber | null>(null);
+  const wasProcessingRef = useRef(isProcessing);
+
+  // The final parse replaces the provisional one once processing finishes.
+  useEffect(() => {
+    if (wasProcessingRef.current && !isProcessing) setLiveTranscript(null);
+    wasProcessingRef.current = isProcessing;
+  }, [isProcessing]);
+
+  const releaseInputs = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    transcriberRef.current?.stop();
+    transcriberRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  };
 
   useEffect(() => {
     return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-      if (audioContextRef.current) audioContextRef.current.close();
+      discardRef.current = true;
+      if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+      releaseInputs();
     };
   }, []);
 
-  const startRecording = async () => {
+  const submitClip = async (blob: Blob, mimeType: string) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Audio Visualizer Setup
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyserRef.current = analyser;
-      const source = audioContext.createMediaStreamSource(stream);
-      source.connect(analyser);
-      sourceRef.current = source;
-      
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      dataArrayRef.current = dataArray;
-
-      drawVisualizer();
-
-      // Recorder Setup
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      chunksRef.current = [];
-
-      mediaRecorderRef.current.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunksRef.current.push(e.data);
-        }
-      };
-
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' }); // Usually defaults to webm/opus in Chrome
-        const reader = new FileReader();
-        reader.readAsDataURL(blob);
-        reader.onloadend = () => {
-          const base64String = (reader.result as string).split(',')[1];
-          onRecordingComplete(base64String, blob.type);
-        };
-        
-        // Cleanup stream tracks
-        stream.getTracks().forEach(track => track.stop());
-        if (audioContextRef.current) {
-            audioContextRef.current.close();
-        }
-        if (animationFrameRef.current) {
-            cancelAnimationFrame(animationFrameRef.current);
-        }
-      };
-
-      mediaRecorderRef.current.start();
-      setIsRecording(true);
-      setRecordingTime(0);
-      
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
-
+      if (blob.size > recorderConfig.maxAudioBytes) {
+        throw new RecorderError('file_too_large', `${blob.size} bytes exceeds ${recorderConfig.maxAudioBytes}`);
+      }
+      onRecordingComplete(await readAsBase64(blob), mimeType);
     } catch (err) {
-      console.error("Error accessing microphone:", err);
-      alert("Could not access microphone. Please check permissions.");
+      console.error('Error reading audio:', err);
+      setLiveTranscript(null);
+      setError(err instanceof RecorderError ? err.code : 'file_unreadable');
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+  const stopRecording = (discard = false) => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+    discardRef.current = discard;
+    if (discard) setLiveTranscript(null);
+    recorder.stop();
+    setIsRecording(false);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
     }
   };
 
-  const drawVisualizer = () => {
-    if (!canvasRef.current || !analyserRef.current || !dataArrayRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-    const analyser = analyserRef.current;
-    const dataArray = dataArrayRef.current;
+  // Draws the level meter and, once the speaker goes quiet, stops the recording.
+  const monitorInput = (analyser: AnalyserNode) => {
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    const samples = new Uint8Array(analyser.fftSize);
+    const silence = silenceStopMs > 0
+      ? createSilenceDetector({ silenceMs: silenceStopMs, threshold: recorderConfig.speechThreshold })
+      : null;
 
     const draw = () => {
       animationFrameRef.current = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
 
+      analyser.getByteTimeDomainData(samples);
+      if (silence?.update(rmsLevel(samples), performance.now())) {
+        stopRecording();
+        return;
+      }
+
+      // The canvas only mounts once recording state has rendered.
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const width = canvas.width;
+      const height = canvas.height;
+      analyser.getByteFrequencyData(frequencies);
       ctx.clearRect(0, 0, width, height);
 
-      const barWidth = (width / dataArray.length) * 2.5;
+      const barWidth = (width / frequencies.length) * 2.5;
       let barHeight;
       let x = 0;
 
-      for (let i = 0; i < dataArray.length; i++) {
-        barHeight = dataArray[i] / 2;
-        
+      for (let i = 0; i < frequencies.length; i++) {
+        barHeight = frequencies[i] / 2;
+
         // Gradient style
         const gradient = ctx.createLinearGradient(0, height - barHeight, 0, height);
         gradient.addColorStop(0, '#2dd4bf'); // teal-400
@@ -140,32 +190,167 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isPr
     draw();
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const startRecording = async () => {
+    setError(null);
+    if (!canRecord()) {
+      setError('unsupported');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      // Safari/iOS only records mp4, so ask for what this browser can do.
+      const preferredType = pickRecorderMimeType();
+      const recorder = new MediaRecorder(stream, preferredType ? { mimeType: preferredType } : undefined);
+      mediaRecorderRef.current = recorder;
+      chunksRef.current = [];
+      discardRef.current = false;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) {
+          chunksRef.current.push(e.data);
+        }
+      };
+
+      recorder.onstop = () => {
+        releaseInputs();
+        const type = recorder.mimeType || preferredType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type });
+        chunksRef.current = [];
+        if (discardRef.current || blob.size === 0) {
+          setLiveTranscript(null);
+          return;
+        }
+        void submitClip(blob, audioMimeType(type) ?? 'audio/webm');
+      };
+
+      // Level meter and voice-activity detection
+      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      audioContextRef.current = audioContext;
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 256;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+
+      recorder.start(CHUNK_MS);
+      setIsRecording(true);
+      setRecordingTime(0);
+      monitorInput(analyser);
+
+      // Where the browser can, show what is being heard while it is said.
+      transcriberRef.current = startLiveTranscription({
+        locale: settings.locale,
+        onUpdate: setLiveTranscript,
+        onUnavailable: (reason) => {
+          console.warn('Live transcription unavailable:', reason);
+          setLiveTranscript(null);
+        },
+      });
+      setLiveTranscript(transcriberRef.current ? { final: '', interim: '' } : null);
+
+      const startedAt = performance.now();
+      timerRef.current = window.setInterval(() => {
+        const elapsed = Math.floor((performance.now() - startedAt) / 1000);
+        setRecordingTime(elapsed);
+        if (elapsed >= maxDurationSeconds) stopRecording();
+      }, 250);
+    } catch (err) {
+      console.error('Error accessing microphone:', err);
+      releaseInputs();
+      setError(toRecorderError(err).code);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || isProcessing || isRecording) return;
+    setError(null);
+    setLiveTranscript(null);
+    try {
+      await submitClip(file, checkAudioFile(file, recorderConfig.maxAudioBytes));
+    } catch (err) {
+      setError(err instanceof RecorderError ? err.code : 'file_unreadable');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    void handleFile(e.dataTransfer.files[0]);
   };
 
+  const liveText = liveTranscript ? transcriptText(liveTranscript) : '';
+  const provisional = useMemo(
+    () => provisionalReminder(liveText, { now: clock.now(), timeZone: settings.timeZone, locale: settings.locale }),
+    [liveText, clock, settings.timeZone, settings.locale]
+  );
+
+  const remaining = Math.max(0, maxDurationSeconds - recordingTime);
+  const errorMessage = error
+    ? t(RECORDER_ERROR_MESSAGES[error], { size: Math.round(recorderConfig.maxAudioBytes / (1024 * 1024)) })
+    : null;
+
   return (
-    <div className="flex flex-col items-center justify-center w-full max-w-md mx-auto p-6 bg-surface rounded-2xl border border-slate-700 shadow-xl">
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!isProcessing && !isRecording) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center justify-center w-full max-w-md mx-auto p-6 bg-surface rounded-2xl border shadow-xl transition-colors ${
+        isDragging ? 'border-primary-400 border-dashed' : 'border-slate-700'
+      }`}
+    >
       <div className="h-24 w-full flex items-center justify-center mb-6 bg-slate-900 rounded-lg overflow-hidden relative">
         {isRecording ? (
           <canvas ref={canvasRef} width={300} height={100} className="w-full h-full" />
         ) : (
-           <div className="text-slate-500 text-sm">
-             {isProcessing ? "Processing Audio..." : "Ready to Record"}
+           <div className={`text-sm ${isDragging ? 'text-primary-300' : 'text-slate-500'}`}>
+             {isDragging ? t('recorder.dropHere') : isProcessing ? t('recorder.processing') : t('recorder.ready')}
            </div>
         )}
       </div>
 
+      {liveTranscript && (
+        <div className="w-full -mt-3 mb-6 text-sm" aria-live="polite">
+          <p className="text-slate-300 italic min-h-[1.25rem]">
+            {liveTranscript.final}{' '}
+            <span className="text-slate-500">{liveTranscript.interim}</span>
+            {!liveText && <span className="text-slate-500">{t('recorder.listening')}</span>}
+          </p>
+          {provisional && (
+            <p className="mt-2 text-xs text-slate-400">
+              <span className="uppercase tracking-wider text-slate-500">{t('recorder.provisional')}</span>{' '}
+              {provisional.reminder_content} ·{' '}
+              <span className="font-mono text-primary-300">
+                {formatInstant(provisional.scheduled_time, settings, { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center gap-6">
+        {isRecording && (
+          <button
+            onClick={() => stopRecording(true)}
+            title={t('recorder.discard')}
+            aria-label={t('recorder.discard')}
+            className="w-10 h-10 rounded-full flex items-center justify-center bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        )}
         <button
-          onClick={isRecording ? stopRecording : startRecording}
+          onClick={isRecording ? () => stopRecording() : startRecording}
           disabled={isProcessing}
+          title={isRecording ? t('recorder.stop') : t('recorder.start')}
+          aria-label={isRecording ? t('recorder.stop') : t('recorder.start')}
           className={`
             w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg
-            ${isRecording 
-              ? 'bg-red-500 hover:bg-red-600 scale-110 ring-4 ring-red-900/50' 
+            ${isRecording
+              ? 'bg-red-500 hover:bg-red-600 scale-110 ring-4 ring-red-900/50'
               : 'bg-primary-600 hover:bg-primary-500 hover:scale-105 ring-4 ring-primary-900/50'
             }
             ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}
@@ -177,11 +362,50 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isPr
              <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-white"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
           )}
         </button>
+        {/* Keeps the record button centred while the discard button shows */}
+        {isRecording && <div className="w-10" />}
       </div>
-      
-      <div className={`mt-4 font-mono text-xl ${isRecording ? 'text-red-400' : 'text-slate-400'}`}>
-        {formatTime(recordingTime)}
+
+      <div
+        className={`mt-4 font-mono text-xl ${
+          !isRecording ? 'text-slate-400' : remaining <= WARNING_SECONDS ? 'text-red-400 animate-pulse' : 'text-red-400'
+        }`}
+        aria-live="off"
+      >
+        {isRecording ? t('recorder.timeLeft', { time: formatTime(remaining) }) : formatTime(maxDurationSeconds)}
       </div>
+
+      {isRecording && silenceStopMs > 0 && (
+        <p className="mt-1 text-xs text-slate-500">{t('recorder.autoStop')}</p>
+      )}
+
+      {!isRecording && (
+        <>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isProcessing}
+            className="mt-2 text-xs text-slate-500 hover:text-primary-300 transition-colors disabled:opacity-50"
+          >
+            {t('recorder.upload')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,.m4a,.opus"
+            className="hidden"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </>
+      )}
+
+      {errorMessage && (
+        <p role="alert" className="mt-3 text-sm text-red-300 text-center">
+          {errorMessage}
+        </p>
+      )}
     </div>
   );
 };
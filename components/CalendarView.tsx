@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem } from '../types';
+import { buildMonthGrid, dayKey } from '../services/historyQuery';
+import { hasValidTime } from '../services/reminderStatus';
+import { getZonedParts } from '../services/timeZone';
+import { UserSettings } from '../services/settings';
+import { formatDayKey } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { useClock } from '../hooks/useClock';
+import ReminderRow from './ReminderRow';
+
+interface CalendarViewProps {
+  items: HistoryItem[];
+  settings: UserSettings;
+  t: Translate;
+}
+
+const PREVIEWS_PER_DAY = 2;
+
+const CalendarView: React.FC<CalendarViewProps> = ({ items, settings, t }) => {
+  const { timeZone, weekStart } = settings;
+  const clock = useClock();
+  const today = dayKey(clock.now(), timeZone);
+  const [month, setMonth] = useState(() => {
+    const { year, month } = getZonedParts(clock.now(), timeZone);
+    return { year, month };
+  });
+  const [selectedDay, setSelectedDay] = useState<string | null>(today);
+
+  // One pass over all items; cells then look their day up.
+  const byDay = useMemo(() => {
+    const map = new Map<string, HistoryItem[]>();
+    const timed = items
+      .filter(hasValidTime)
+      .sort((a, b) => Date.parse(a.scheduled_time) - Date.parse(b.scheduled_time));
+    for (const item of timed) {
+      const key = dayKey(new Date(item.scheduled_time), timeZone);
+      const list = map.get(key);
+      if (list) list.push(item);
+      else map.set(key, [item]);
+    }
+    return map;
+  }, [items, timeZone]);
+
+  const weeks = useMemo(() => buildMonthGrid(month.year, month.month, weekStart), [month, weekStart]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth(({ year, month }) => {
+      const index = year * 12 + (month - 1) + delta;
+      return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+    });
+  };
+
+  const monthLabel = formatDayKey(`${month.year}-${String(month.month).padStart(2, '0')}-01`, settings, { month: 'long', year: 'numeric' });
+  const selectedItems = selectedDay ? byDay.get(selectedDay) ?? [] : [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => shiftMonth(-1)} className="px-2 text-slate-400 hover:text-primary-300" aria-label={t('calendar.previous')}>‹</button>
+        <span className="text-sm font-medium text-slate-200">{monthLabel}</span>
+        <button type="button" onClick={() => shiftMonth(1)} className="px-2 text-slate-400 hover:text-primary-300" aria-label={t('calendar.next')}>›</button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-slate-800 border border-slate-800 rounded-lg overflow-hidden text-xs">
+        {weeks[0].map(({ day }) => (
+          <div key={`head-${day}`} className="bg-background py-1 text-center text-slate-500">
+            {formatDayKey(day, settings, { weekday: 'short' })}
+          </div>
+        ))}
+        {weeks.flat().map(({ day, date, inMonth }) => {
+          const dayItems = byDay.get(day) ?? [];
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => setSelectedDay(day)}
+              aria-pressed={selectedDay === day}
+              className={`min-h-[4.5rem] p-1 flex flex-col items-stretch text-left bg-surface hover:bg-slate-800 transition-colors ${inMonth ? '' : 'opacity-40'} ${selectedDay === day ? 'ring-1 ring-inset ring-primary-500' : ''}`}
+            >
+              <span className={`self-end w-5 h-5 flex items-center justify-center rounded-full ${day === today ? 'bg-primary-600 text-white' : 'text-slate-400'}`}>
+                {date}
+              </span>
+              {dayItems.slice(0, PREVIEWS_PER_DAY).map(item => (
+                <span key={item.id} className="truncate text-[10px] text-slate-300">{item.reminder_content}</span>
+              ))}
+              {dayItems.length > PREVIEWS_PER_DAY && (
+                <span className="text-[10px] text-primary-300">{t('calendar.more', { count: dayItems.length - PREVIEWS_PER_DAY })}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedDay && (
+        <div>
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 border-b border-slate-800 pb-1">
+            {formatDayKey(selectedDay, settings, { weekday: 'long', month: 'long', day: 'numeric' })}
+          </h4>
+          {selectedItems.length > 0 ? (
+            <ul className="divide-y divide-slate-800/60">
+              {selectedItems.map(item => <ReminderRow key={item.id} item={item} settings={settings} t={t} />)}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500 py-3">{t('calendar.empty')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem } from '../types';
+import { ModifyCommand, resolveCommandTarget } from '../services/reminderCommands';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { useTelegramBackButton, useTelegramMainButton } from '../hooks/useTelegram';
+
+interface CommandPanelProps {
+  command: ModifyCommand;
+  /** What the user said, shown so they can tell a misheard command. */
+  rawText: string;
+  history: HistoryItem[];
+  settings: UserSettings;
+  isProcessing: boolean;
+  onConfirm: (target: HistoryItem) => void;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+const DATE_TIME: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+// Confirms a change to an existing reminder before it is applied. The
+// resolved target is preselected; close matches can be picked instead.
+const CommandPanel: React.FC<CommandPanelProps> = ({ command, rawText, history, settings, isProcessing, onConfirm, onDismiss, t }) => {
+  const { target, alternatives } = useMemo(() => resolveCommandTarget(command, history), [command, history]);
+  const options = target ? [target, ...alternatives] : alternatives;
+  const [selectedId, setSelectedId] = useState(target?.id);
+
+  useEffect(() => setSelectedId(target?.id), [target]);
+
+  const selected = options.find(item => item.id === selectedId);
+  const handleConfirm = () => {
+    if (selected) onConfirm(selected);
+  };
+
+  useTelegramMainButton({
+    text: t(`command.${command.intent}.confirm`),
+    enabled: !isProcessing && !!selected,
+    progress: isProcessing,
+    onClick: handleConfirm,
+  });
+  useTelegramBackButton({ onClick: onDismiss });
+
+  const format = (time: string, item?: HistoryItem) => formatInstant(time, settings, DATE_TIME, item?.source_timezone);
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-surface border border-primary-500/50 rounded-xl p-6 flex flex-col gap-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t(`command.${command.intent}.title`)}</div>
+      <p className="text-sm text-slate-400 italic">{t('command.heard', { text: rawText })}</p>
+
+      {options.length === 0 ? (
+        <p className="text-sm text-amber-300">
+          {t('command.notFound', { description: command.target_description ?? rawText })}
+        </p>
+      ) : (
+        <fieldset className="flex flex-col gap-2">
+          {options.length > 1 && <legend className="mb-2 text-xs text-slate-400">{t('command.pick')}</legend>}
+          {options.map(item => (
+            <label
+              key={item.id}
+              className={`flex items-start gap-3 rounded-lg border px-3 py-2 cursor-pointer transition-colors ${
+                item.id === selectedId ? 'border-primary-500 bg-primary-500/10' : 'border-slate-700 hover:border-slate-500'
+              }`}
+            >
+              <input
+                type="radio"
+                name="command-target"
+                checked={item.id === selectedId}
+                onChange={() => setSelectedId(item.id)}
+                disabled={isProcessing}
+                className="mt-1 accent-primary-500"
+              />
+              <span className="flex flex-col min-w-0">
+                <span className="text-sm text-slate-200 truncate">{item.reminder_content || item.originalInput}</span>
+                <span className="text-xs font-mono text-slate-500">{format(item.scheduled_time, item)}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {selected && command.new_time && (
+        <div className="text-sm text-slate-300">
+          {command.intent === 'snooze'
+            ? t('command.snoozeUntil', { time: format(command.new_time, selected) })
+            : t('command.moveTo', { from: format(selected.scheduled_time, selected), to: format(command.new_time, selected) })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onDismiss}
+          disabled={isProcessing}
+          className="px-3 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors disabled:opacity-50"
+        >
+          {t('command.dismiss')}
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={isProcessing || !selected}
+          className={`px-4 py-2 text-sm rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            command.intent === 'cancel' ? 'bg-red-600 hover:bg-red-500' : 'bg-primary-600 hover:bg-primary-500'
+          }`}
+        >
+          {t(`command.${command.intent}.confirm`)}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPanel;
@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { ParseTelemetryEntry, exportTelemetry, summarizeTelemetry } from '../services/parseTelemetry';
+import { downloadFile } from '../services/historyTransfer';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { useParseTelemetry } from '../hooks/useParseTelemetry';
+import { useTelegramBackButton } from '../hooks/useTelegram';
+
+interface DiagnosticsPanelProps {
+  settings: UserSettings;
+  onClose: () => void;
+  t: Translate;
+}
+
+const RECENT_COUNT = 10;
+
+// How parsing has been going on this device: speed, tokens, failures. The
+// log never leaves the device unless the user exports it.
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ settings, onClose, t }) => {
+  const { entries, clear } = useParseTelemetry();
+  const summary = useMemo(() => summarizeTelemetry(entries), [entries]);
+  useTelegramBackButton({ onClick: onClose });
+
+  const number = (value: number) => value.toLocaleString(settings.locale);
+  const seconds = (ms: number) =>
+    new Intl.NumberFormat(settings.locale, { style: 'unit', unit: 'second', maximumFractionDigits: 1 }).format(ms / 1000);
+  const size = (entry: ParseTelemetryEntry) =>
+    entry.inputType === 'text'
+      ? t('diagnostics.textSize', { count: number(entry.inputSize) })
+      : t('diagnostics.audioSize', { size: number(Math.ceil(entry.inputSize / 1024)) });
+
+  const handleExport = () =>
+    downloadFile('chronos-parse-diagnostics.json', exportTelemetry(entries, new Date()), 'application/json');
+
+  const stats: Array<[string, string]> = [
+    [t('diagnostics.parses'), number(summary.count)],
+    [t('diagnostics.failed'), number(summary.failed)],
+    [t('diagnostics.fallbacks'), number(summary.fallbacks)],
+    [t('diagnostics.inputs'), t('diagnostics.inputsValue', { text: number(summary.byInputType.text), audio: number(summary.byInputType.audio) })],
+    [t('diagnostics.latency'), summary.latency
+      ? [summary.latency.mean, summary.latency.p50, summary.latency.p95].map(seconds).join(' / ')
+      : '—'],
+    [t('diagnostics.tokens'), `${number(summary.inputTokens)} / ${number(summary.outputTokens)}`],
+    ...(summary.costUsd !== undefined
+      ? [[t('diagnostics.cost'), summary.costUsd.toLocaleString(settings.locale, { style: 'currency', currency: 'USD', maximumFractionDigits: 4 })] as [string, string]]
+      : []),
+  ];
+
+  return (
+    <div className="w-full bg-surface border border-slate-700 rounded-xl p-6 flex flex-col gap-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('diagnostics.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-slate-400 hover:text-slate-200">{t('settings.done')}</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('diagnostics.empty')}</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            {stats.map(([label, value]) => (
+              <div key={label} className="flex flex-col">
+                <dt className="text-xs text-slate-500">{label}</dt>
+                <dd className="font-mono text-slate-200">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {Object.keys(summary.errors).length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-slate-500">{t('diagnostics.errors')}</span>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(summary.errors).map(([errorClass, count]) => (
+                  <span key={errorClass} className="px-2 py-0.5 rounded bg-red-900/30 text-red-300 text-xs font-mono">
+                    {errorClass} · {count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {Object.keys(summary.byModel).length > 0 && (
+            <p className="text-xs text-slate-500">
+              {t('diagnostics.models')}:{' '}
+              <span className="font-mono text-slate-400">
+                {Object.entries(summary.byModel).map(([model, count]) => `${model} (${number(count)})`).join(', ')}
+              </span>
+            </p>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">{t('diagnostics.recent')}</span>
+            <ul className="divide-y divide-slate-800/60 text-xs font-mono">
+              {entries.slice(-RECENT_COUNT).reverse().map((entry, index) => (
+                <li key={`${entry.at}-${index}`} className="flex items-center gap-3 py-1.5" title={entry.errorMessage}>
+                  <span className="w-14 shrink-0 text-slate-500">{formatInstant(entry.at, settings, { timeStyle: 'short' })}</span>
+                  <span className="w-20 shrink-0 text-slate-400">{size(entry)}</span>
+                  <span className="w-14 shrink-0 text-slate-300">{seconds(entry.latencyMs)}</span>
+                  <span className="truncate text-slate-500">
+                    {entry.usage ? `${number(entry.usage.inputTokens + entry.usage.outputTokens)} tok` : entry.source}
+                  </span>
+                  <span className={`ml-auto shrink-0 ${entry.ok ? (entry.errorClass ? 'text-amber-300' : 'text-green-400') : 'text-red-300'}`}>
+                    {entry.errorClass ?? 'ok'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-slate-500">{t('diagnostics.privacy')}</p>
+      <div className="flex items-center justify-end gap-2">
+        <button
+          type="button"
+          onClick={clear}
+          disabled={entries.length === 0}
+          className="px-3 py-2 text-sm text-slate-400 hover:text-red-300 transition-colors disabled:opacity-50"
+        >
+          {t('diagnostics.clear')}
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="px-3 py-2 text-sm rounded-lg border border-slate-600 text-slate-200 hover:border-primary-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('diagnostics.export')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { useNow } from '../hooks/useClock';
+
+interface HeaderClockProps {
+  /** Highlights the clock while dev time travel has moved it. */
+  isTimeTravelling: boolean;
+  title?: string;
+}
+
+// Its own component so the once-a-second tick re-renders only the clock.
+const HeaderClock: React.FC<HeaderClockProps> = ({ isTimeTravelling, title }) => {
+  const now = useNow();
+
+  return (
+    <div className={`text-xs font-mono hidden sm:block ${isTimeTravelling ? 'text-amber-300' : 'text-slate-500'}`} title={title}>
+      UTC: {now.toISOString().split('T')[1].split('.')[0]}Z
+    </div>
+  );
+};
+
+export default HeaderClock;
@@ -0,0 +1,188 @@
+import React from 'react';
+import { REMINDER_CATEGORIES, REMINDER_PRIORITIES, ReminderCategory, ReminderPriority } from '../types';
+import { HistoryFilter, HistoryGroupBy, HistorySort, StatusFilter, isFilterActive, EMPTY_FILTER } from '../services/historyQuery';
+import { ConfidenceBand } from '../services/reminderStatus';
+import { MessageKey, Translate } from '../services/i18n';
+
+export type HistoryView = 'list' | 'agenda' | 'calendar';
+
+interface HistoryToolbarProps {
+  filter: HistoryFilter;
+  sort: HistorySort;
+  view: HistoryView;
+  groupBy: HistoryGroupBy;
+  /** Tags to offer in the tag filter, most used first. */
+  tags: string[];
+  resultCount: number;
+  totalCount: number;
+  onFilterChange: (filter: HistoryFilter) => void;
+  onSortChange: (sort: HistorySort) => void;
+  onGroupByChange: (groupBy: HistoryGroupBy) => void;
+  onViewChange: (view: HistoryView) => void;
+  t: Translate;
+}
+
+const VIEWS: Array<{ value: HistoryView; label: MessageKey }> = [
+  { value: 'list', label: 'history.view.list' },
+  { value: 'agenda', label: 'history.view.agenda' },
+  { value: 'calendar', label: 'history.view.calendar' },
+];
+
+const STATUS_OPTIONS: Array<{ value: StatusFilter; label: MessageKey }> = [
+  { value: 'all', label: 'history.status.all' },
+  { value: 'active', label: 'history.status.active' },
+  { value: 'needs-choice', label: 'card.status.needsChoice' },
+  { value: 'scheduled', label: 'card.status.scheduled' },
+  { value: 'snoozed', label: 'card.status.snoozed' },
+  { value: 'fired', label: 'card.status.fired' },
+  { value: 'missed', label: 'card.status.missed' },
+  { value: 'done', label: 'card.status.done' },
+  { value: 'invalid', label: 'card.status.failed' },
+];
+
+const CONFIDENCE_OPTIONS: Array<{ value: ConfidenceBand | 'all'; label: MessageKey }> = [
+  { value: 'all', label: 'history.confidence.all' },
+  { value: 'high', label: 'history.confidence.high' },
+  { value: 'medium', label: 'history.confidence.medium' },
+  { value: 'low', label: 'history.confidence.low' },
+];
+
+const SORT_OPTIONS: Array<{ value: HistorySort; label: MessageKey }> = [
+  { value: 'created', label: 'history.sort.created' },
+  { value: 'scheduled-asc', label: 'history.sort.scheduledAsc' },
+  { value: 'scheduled-desc', label: 'history.sort.scheduledDesc' },
+];
+
+const GROUP_OPTIONS: Array<{ value: HistoryGroupBy; label: MessageKey }> = [
+  { value: 'none', label: 'history.group.none' },
+  { value: 'priority', label: 'history.group.priority' },
+  { value: 'category', label: 'history.group.category' },
+  { value: 'tag', label: 'history.group.tag' },
+  { value: 'location', label: 'history.group.location' },
+];
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-primary-500 [color-scheme:dark]';
+
+const HistoryToolbar: React.FC<HistoryToolbarProps> = ({
+  filter,
+  sort,
+  view,
+  groupBy,
+  tags,
+  resultCount,
+  totalCount,
+  onFilterChange,
+  onSortChange,
+  onGroupByChange,
+  onViewChange,
+  t,
+}) => {
+  const update = (patch: Partial<HistoryFilter>) => onFilterChange({ ...filter, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder={t('history.search')}
+          aria-label={t('history.search')}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-primary-500"
+        />
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs" role="group" aria-label={t('history.view')}>
+          {VIEWS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => onViewChange(value)}
+              aria-pressed={view === value}
+              className={`px-3 transition-colors ${view === value ? 'bg-primary-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={filter.status} onChange={(e) => update({ status: e.target.value as StatusFilter })} aria-label={t('history.status')} className={selectClass}>
+          {STATUS_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+        <select
+          value={filter.confidence}
+          onChange={(e) => update({ confidence: e.target.value as HistoryFilter['confidence'] })}
+          aria-label={t('history.confidence')}
+          className={selectClass}
+        >
+          {CONFIDENCE_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+        <input
+          type="date"
+          value={filter.from ?? ''}
+          onChange={(e) => update({ from: e.target.value || undefined })}
+          aria-label={t('history.from')}
+          className={selectClass}
+        />
+        <span className="text-slate-600 text-xs">{t('history.rangeTo')}</span>
+        <input
+          type="date"
+          value={filter.to ?? ''}
+          onChange={(e) => update({ to: e.target.value || undefined })}
+          aria-label={t('history.to')}
+          className={selectClass}
+        />
+        <select
+          value={filter.priority ?? ''}
+          onChange={(e) => update({ priority: (e.target.value || undefined) as ReminderPriority | undefined })}
+          aria-label={t('form.priority')}
+          className={selectClass}
+        >
+          <option value="">{t('history.priority.all')}</option>
+          {[...REMINDER_PRIORITIES].reverse().map(priority => <option key={priority} value={priority}>{t(`priority.${priority}`)}</option>)}
+        </select>
+        <select
+          value={filter.category ?? ''}
+          onChange={(e) => update({ category: (e.target.value || undefined) as ReminderCategory | undefined })}
+          aria-label={t('form.category')}
+          className={selectClass}
+        >
+          <option value="">{t('history.category.all')}</option>
+          {REMINDER_CATEGORIES.map(category => <option key={category} value={category}>{t(`category.${category}`)}</option>)}
+        </select>
+        {(tags.length > 0 || filter.tag) && (
+          <select value={filter.tag ?? ''} onChange={(e) => update({ tag: e.target.value || undefined })} aria-label={t('form.tags')} className={selectClass}>
+            <option value="">{t('history.tag.all')}</option>
+            {filter.tag && !tags.includes(filter.tag) && <option value={filter.tag}>#{filter.tag}</option>}
+            {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+          </select>
+        )}
+        <input
+          type="search"
+          value={filter.location ?? ''}
+          onChange={(e) => update({ location: e.target.value || undefined })}
+          placeholder={t('history.location')}
+          aria-label={t('history.location')}
+          className={`w-28 placeholder-slate-500 ${selectClass}`}
+        />
+        {view === 'list' && (
+          <select value={groupBy} onChange={(e) => onGroupByChange(e.target.value as HistoryGroupBy)} aria-label={t('history.groupBy')} className={selectClass}>
+            {GROUP_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+          </select>
+        )}
+        {view === 'list' && (
+          <select value={sort} onChange={(e) => onSortChange(e.target.value as HistorySort)} aria-label={t('history.sort')} className={selectClass}>
+            {SORT_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+          </select>
+        )}
+        {isFilterActive(filter) && (
+          <button type="button" onClick={() => onFilterChange(EMPTY_FILTER)} className="text-xs text-slate-500 hover:text-primary-300 ml-auto">
+            {t('history.clear', { count: resultCount, total: totalCount })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryToolbar;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { QueuedInput, QueuedInputStatus } from '../services/inputQueue';
+import { queueConfig } from '../services/config';
+import { base64Size } from '../services/parseApi';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+
+interface InputQueueListProps {
+  items: QueuedInput[];
+  settings: UserSettings;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+  t: Translate;
+}
+
+const STATUS_STYLES: Record<QueuedInputStatus, string> = {
+  queued: 'text-slate-400',
+  processing: 'text-primary-300',
+  retrying: 'text-amber-300',
+  offline: 'text-amber-300',
+  failed: 'text-red-300',
+};
+
+// Submissions that haven't become reminders yet, each with where it stands.
+const InputQueueList: React.FC<InputQueueListProps> = ({ items, settings, onCancel, onRetry, onDismiss, t }) => {
+  const describe = (item: QueuedInput): string => {
+    if (item.status === 'retrying' && item.retryAt) {
+      return t('queue.retrying', {
+        time: formatInstant(item.retryAt, settings, { timeStyle: 'medium' }),
+        attempt: item.attempts + 1,
+        max: queueConfig.maxAttempts,
+      });
+    }
+    return t(`queue.${item.status}`);
+  };
+
+  return (
+    <section className="flex flex-col gap-3 animate-[fadeIn_0.3s_ease-out]">
+      <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('queue.title')}</span>
+      <ul className="flex flex-col gap-2">
+        {items.map(item => (
+          <li
+            key={item.id}
+            className="flex items-center gap-3 bg-surface border border-slate-700 rounded-lg px-4 py-3 text-sm"
+          >
+            {item.status === 'processing' && (
+              <svg className="animate-spin h-4 w-4 shrink-0 text-primary-300" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+              </svg>
+            )}
+            <div className="flex flex-col min-w-0">
+              <span className="truncate text-slate-200">
+                {item.answering
+                  ? item.answering.answer
+                  : typeof item.input === 'string'
+                    ? item.input
+                    : t('queue.voice', { size: Math.ceil(base64Size(item.input.data) / 1024) })}
+              </span>
+              <span className={`text-xs ${STATUS_STYLES[item.status]}`} title={item.errorClass}>
+                {describe(item)}
+              </span>
+            </div>
+            <div className="ml-auto flex items-center gap-3 shrink-0 text-xs">
+              {item.status === 'failed' ? (
+                <>
+                  <button type="button" onClick={() => onRetry(item.id)} className="text-primary-300 hover:text-primary-200">
+                    {t('queue.retry')}
+                  </button>
+                  <button type="button" onClick={() => onDismiss(item.id)} className="text-slate-400 hover:text-slate-200">
+                    {t('queue.dismiss')}
+                  </button>
+                </>
+              ) : (
+                <button type="button" onClick={() => onCancel(item.id)} className="text-slate-400 hover:text-red-300">
+                  {t('queue.cancel')}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default InputQueueList;
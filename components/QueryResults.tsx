@@ -0,0 +1,69 @@
+import React from 'react';
+import { QuerySummary } from '../services/reminderCommands';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { useTelegramBackButton } from '../hooks/useTelegram';
+
+interface QueryResultsProps {
+  summary: QuerySummary;
+  /** The question as asked. */
+  rawText: string;
+  settings: UserSettings;
+  onClose: () => void;
+  t: Translate;
+}
+
+const MAX_SHOWN = 20;
+
+// The answer to "what do I have tomorrow?": matching reminders at the
+// occurrence that falls in the asked-about window.
+const QueryResults: React.FC<QueryResultsProps> = ({ summary, rawText, settings, onClose, t }) => {
+  const { matches, from, to } = summary;
+  useTelegramBackButton({ onClick: onClose });
+
+  const range = from && to
+    ? t('query.range', {
+        from: formatInstant(from, settings, { dateStyle: 'medium', timeStyle: 'short' }),
+        to: formatInstant(to, settings, { dateStyle: 'medium', timeStyle: 'short' }),
+      })
+    : null;
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-surface border border-primary-500/50 rounded-xl p-6 flex flex-col gap-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('query.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-slate-500 hover:text-slate-200 transition-colors">
+          {t('query.close')}
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 italic">{rawText}</p>
+      {range && <p className="text-xs text-slate-500">{range}</p>}
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('query.none')}</p>
+      ) : (
+        <>
+          <p className="text-sm text-slate-300">{t('query.count', { count: matches.length })}</p>
+          <ul className="divide-y divide-slate-800/60">
+            {matches.slice(0, MAX_SHOWN).map(({ item, at }) => (
+              <li key={item.id} className="flex items-center gap-3 py-2 text-sm">
+                <span className="w-32 shrink-0 font-mono text-xs text-primary-300">
+                  {formatInstant(at, settings, { weekday: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+                <span className="truncate text-slate-200" title={item.originalInput}>
+                  {item.reminder_content || item.originalInput}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {matches.length > MAX_SHOWN && (
+            <p className="text-xs text-slate-500">{t('query.more', { count: matches.length - MAX_SHOWN })}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QueryResults;
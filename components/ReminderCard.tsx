@@ -1,62 +1,460 @@
-import React from 'react';
-import { ReminderData } from '../types';
+import React, { useId, useMemo, useState } from 'react';
+import {
+  Clarification,
+  DeliveryState,
+  DeliveryStatus,
+  REMINDER_CATEGORIES,
+  REMINDER_PRIORITIES,
+  ReminderCategory,
+  ReminderData,
+  ReminderPriority,
+  ScheduleState,
+  ScheduleStatus,
+  TimeCandidate,
+} from '../types';
+import { describeRRule, expandOccurrences } from '../services/recurrence';
+import { confidenceBand, hasValidTime, needsClarification } from '../services/reminderStatus';
+import { fromZonedInputValue, toZonedInputValue } from '../services/timeZone';
+import { ReminderEdit, parseTagList } from '../services/historyEdits';
+import { UserSettings } from '../services/settings';
+import { formatInstant, formatMinutes, formatMinutesList, formatZoneName } from '../services/formatting';
+import { MessageKey, Translate } from '../services/i18n';
+import { useClock } from '../hooks/useClock';
+
+const UPCOMING_OCCURRENCES = 5;
+const LEAD_TIME_PRESETS = [5, 15, 30, 60, 1440];
 
 interface ReminderCardProps {
   data: ReminderData;
+  settings: UserSettings;
+  t: Translate;
+  delivery?: DeliveryState;
+  schedule?: ScheduleState;
+  clarification?: Clarification;
   isLatest?: boolean;
+  isDone?: boolean;
+  wasEdited?: boolean;
+  onChooseCandidate?: (candidate: TimeCandidate) => void;
+  onAnswerQuestion?: (answer: string) => Promise<void>;
+  onEdit?: (edit: ReminderEdit) => Promise<void>;
+  onToggleDone?: () => void;
+  onDelete?: () => void;
+  onDownloadIcs?: () => void;
+}
+
+const SCHEDULE_BADGES: Record<ScheduleStatus, { label: MessageKey; className: string }> = {
+  scheduled: { label: 'card.status.scheduled', className: 'bg-primary-900/30 text-primary-300' },
+  fired: { label: 'card.status.fired', className: 'bg-slate-700/50 text-slate-300' },
+  snoozed: { label: 'card.status.snoozed', className: 'bg-yellow-900/30 text-yellow-300' },
+  missed: { label: 'card.status.missed', className: 'bg-orange-900/30 text-orange-300' },
+};
+
+const DELIVERY_LABELS: Record<Exclude<DeliveryStatus, 'skipped'>, { label: MessageKey; className: string }> = {
+  pending: { label: 'card.delivery.pending', className: 'text-slate-400' },
+  sent: { label: 'card.delivery.sent', className: 'text-green-400' },
+  failed: { label: 'card.delivery.failed', className: 'text-red-400' },
+};
+
+const PRIORITY_BADGES: Partial<Record<ReminderPriority, string>> = {
+  high: 'bg-red-900/30 text-red-300',
+  low: 'bg-slate-700/50 text-slate-400',
+};
+
+interface DetailsDraft {
+  priority: ReminderPriority;
+  category: ReminderCategory | '';
+  tags: string;
+  location: string;
+  leadTimes: number[];
 }
 
-const ReminderCard: React.FC<ReminderCardProps> = ({ data, isLatest = false }) => {
-  const isValid = data.confidence_score >= 0.5 && data.scheduled_time !== "";
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500 [color-scheme:dark]';
+
+const sameList = <T,>(a: T[] = [], b: T[] = []) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+const CONFIDENCE_COLORS = { high: 'text-green-400', medium: 'text-yellow-400', low: 'text-red-400' };
+
+const CANDIDATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' };
+
+const ReminderCard: React.FC<ReminderCardProps> = ({
+  data,
+  settings,
+  t,
+  delivery,
+  schedule,
+  clarification,
+  isLatest = false,
+  isDone = false,
+  wasEdited = false,
+  onChooseCandidate,
+  onAnswerQuestion,
+  onEdit,
+  onToggleDone,
+  onDelete,
+  onDownloadIcs,
+}) => {
+  const clock = useClock();
+  const isValid = hasValidTime(data);
+  const awaitingChoice = needsClarification({ ...data, clarification });
+  const [answer, setAnswer] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const answerId = useId();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftContent, setDraftContent] = useState('');
+  const [draftTime, setDraftTime] = useState('');
+  const [draftDetails, setDraftDetails] = useState<DetailsDraft>({ priority: 'normal', category: '', tags: '', location: '', leadTimes: [] });
+  // Edits happen on the clock the reminder was stated in.
+  const editTimeZone = data.source_timezone ?? settings.timeZone;
+
+  const startEditing = () => {
+    setDraftContent(data.reminder_content);
+    setDraftTime(toZonedInputValue(data.scheduled_time, editTimeZone));
+    setDraftDetails({
+      priority: data.priority ?? 'normal',
+      category: data.category ?? '',
+      tags: (data.tags ?? []).join(', '),
+      location: data.location ?? '',
+      leadTimes: data.lead_time_minutes ?? [],
+    });
+    setIsEditing(true);
+  };
+
+  const saveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onEdit) return;
+    const edit: ReminderEdit = {};
+    if (draftContent.trim() !== data.reminder_content) edit.reminder_content = draftContent.trim();
+    const scheduled_time = fromZonedInputValue(draftTime, editTimeZone);
+    if (scheduled_time && scheduled_time !== data.scheduled_time) {
+      // A time the user set is certain and settles any ambiguity.
+      Object.assign(edit, { scheduled_time, confidence_score: 1, candidates: undefined, clarifying_question: undefined });
+    }
+    const priority = draftDetails.priority === 'normal' ? undefined : draftDetails.priority;
+    if (priority !== data.priority) edit.priority = priority;
+    const category = draftDetails.category || undefined;
+    if (category !== data.category) edit.category = category;
+    const tags = parseTagList(draftDetails.tags);
+    if (!sameList(tags, data.tags)) edit.tags = tags.length > 0 ? tags : undefined;
+    const location = draftDetails.location.trim() || undefined;
+    if (location !== data.location) edit.location = location;
+    const leadTimes = [...draftDetails.leadTimes].sort((a, b) => b - a);
+    if (!sameList(leadTimes, data.lead_time_minutes)) edit.lead_time_minutes = leadTimes.length > 0 ? leadTimes : undefined;
+    if (Object.keys(edit).length > 0) await onEdit(edit);
+    setIsEditing(false);
+  };
+
+  const updateDetails = (patch: Partial<DetailsDraft>) => setDraftDetails(prev => ({ ...prev, ...patch }));
+
+  const toggleLeadTime = (minutes: number) =>
+    updateDetails({
+      leadTimes: draftDetails.leadTimes.includes(minutes)
+        ? draftDetails.leadTimes.filter(m => m !== minutes)
+        : [...draftDetails.leadTimes, minutes],
+    });
+
+  const submitAnswer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answer.trim() || !onAnswerQuestion) return;
+    setIsAnswering(true);
+    try {
+      await onAnswerQuestion(answer.trim());
+      setAnswer('');
+    } finally {
+      setIsAnswering(false);
+    }
+  };
   
   // Format date for display
-  const formattedDate = isValid 
-    ? new Date(data.scheduled_time).toLocaleString(undefined, { 
-        dateStyle: 'full', 
-        timeStyle: 'short' 
-      })
-    : 'N/A';
-  
+  const formattedDate = isValid
+    ? formatInstant(data.scheduled_time, settings, { dateStyle: 'full', timeStyle: 'short' })
+    : t('card.noTime');
+  // A zone the user named is shown as they said it, next to the UTC time.
+  const sourceTime = isValid && data.source_timezone
+    ? `${formatInstant(data.scheduled_time, settings, { timeStyle: 'short' }, data.source_timezone)} ${data.source_timezone} (${formatZoneName(data.scheduled_time, settings, data.source_timezone)})`
+    : null;
+
+  const recurrence = useMemo(() => {
+    if (!isValid || !data.recurrence_rule) return null;
+    try {
+      return {
+        description: describeRRule(data, settings, t),
+        upcoming: expandOccurrences(data, {
+          timeZone: data.source_timezone ?? settings.timeZone,
+          after: clock.now(),
+          limit: UPCOMING_OCCURRENCES,
+        }),
+      };
+    } catch (err) {
+      console.warn("Could not expand recurrence rule:", err);
+      return { description: t('card.repeatsRaw', { rule: data.recurrence_rule }), upcoming: [] };
+    }
+  }, [isValid, data, settings, t, clock]);
+
+  let badge: { label: MessageKey; className: string } = { label: 'card.status.failed', className: 'bg-red-900/30 text-red-300' };
+  if (isDone) badge = { label: 'card.status.done', className: 'bg-green-900/30 text-green-300' };
+  else if (awaitingChoice) badge = { label: 'card.status.needsChoice', className: 'bg-amber-900/30 text-amber-300' };
+  else if (isValid) badge = SCHEDULE_BADGES[schedule?.status ?? 'scheduled'];
+
   const confidencePercent = Math.round(data.confidence_score * 100);
   
-  let confidenceColor = 'text-red-400';
-  if (confidencePercent > 80) confidenceColor = 'text-green-400';
-  else if (confidencePercent > 50) confidenceColor = 'text-yellow-400';
+  const confidenceColor = CONFIDENCE_COLORS[confidenceBand(data.confidence_score)];
 
   return (
     <div className={`w-full max-w-md bg-surface border ${isLatest ? 'border-primary-500/50 shadow-[0_0_30px_-10px_rgba(20,184,166,0.3)]' : 'border-slate-700'} rounded-xl p-6 overflow-hidden relative transition-all duration-500`}>
       
       {/* Status Badge */}
       <div className="flex justify-between items-start mb-4">
-        <div className={`px-2 py-1 rounded text-xs font-bold uppercase tracking-wider ${isValid ? 'bg-primary-900/30 text-primary-300' : 'bg-red-900/30 text-red-300'}`}>
-          {isValid ? 'Scheduled' : 'Failed'}
+        <div
+          className={`px-2 py-1 rounded text-xs font-bold uppercase tracking-wider ${badge.className}`}
+          title={schedule?.status === 'snoozed' && schedule.nextFireAt
+            ? t('card.snoozedUntil', { time: formatInstant(schedule.nextFireAt, settings, { timeStyle: 'short' }) })
+            : undefined}
+        >
+          {t(badge.label)}
         </div>
+        {data.priority && PRIORITY_BADGES[data.priority] && (
+          <div className={`mr-auto ml-2 px-2 py-1 rounded text-xs font-bold uppercase tracking-wider ${PRIORITY_BADGES[data.priority]}`}>
+            {t(`priority.${data.priority}`)}
+          </div>
+        )}
         <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800/50 px-2 py-1 rounded">
-           <span>Confidence:</span>
+           <span>{t('card.confidence')}</span>
            <span className={`font-bold ${confidenceColor}`}>{confidencePercent}%</span>
+           {wasEdited && <span className="text-slate-500" title={t('card.editedHint')}>{t('card.edited')}</span>}
         </div>
       </div>
 
-      {/* Content */}
-      <h3 className="text-lg font-medium text-slate-100 mb-2 leading-snug">
-        {data.reminder_content || "Could not understand reminder."}
-      </h3>
+      {isEditing ? (
+        <form onSubmit={saveEdit} className="flex flex-col gap-3">
+          <input
+            type="text"
+            value={draftContent}
+            onChange={(e) => setDraftContent(e.target.value)}
+            aria-label={t('form.reminder')}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500"
+          />
+          <div className="flex flex-col gap-1">
+            <input
+              type="datetime-local"
+              value={draftTime}
+              onChange={(e) => setDraftTime(e.target.value)}
+              aria-label={t('form.time')}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono focus:outline-none focus:border-primary-500 [color-scheme:dark]"
+            />
+            <span className="text-[10px] text-slate-500">{t('card.timesIn', { zone: editTimeZone })}</span>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={draftDetails.priority}
+              onChange={(e) => updateDetails({ priority: e.target.value as ReminderPriority })}
+              aria-label={t('form.priority')}
+              className={`flex-1 ${inputClass}`}
+            >
+              {REMINDER_PRIORITIES.map(priority => <option key={priority} value={priority}>{t(`priority.${priority}`)}</option>)}
+            </select>
+            <select
+              value={draftDetails.category}
+              onChange={(e) => updateDetails({ category: e.target.value as DetailsDraft['category'] })}
+              aria-label={t('form.category')}
+              className={`flex-1 ${inputClass}`}
+            >
+              <option value="">{t('form.noCategory')}</option>
+              {REMINDER_CATEGORIES.map(category => <option key={category} value={category}>{t(`category.${category}`)}</option>)}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={draftDetails.tags}
+            onChange={(e) => updateDetails({ tags: e.target.value })}
+            placeholder={t('form.tags')}
+            aria-label={t('form.tags')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draftDetails.location}
+            onChange={(e) => updateDetails({ location: e.target.value })}
+            placeholder={t('form.location')}
+            aria-label={t('form.location')}
+            className={inputClass}
+          />
+          <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label={t('form.leadTimes')}>
+            <span className="text-[10px] text-slate-500 mr-1">{t('form.leadTimes')}</span>
+            {[...new Set([...LEAD_TIME_PRESETS, ...draftDetails.leadTimes])].sort((a, b) => a - b).map(minutes => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => toggleLeadTime(minutes)}
+                aria-pressed={draftDetails.leadTimes.includes(minutes)}
+                className={`px-2 py-0.5 rounded-full text-[11px] border transition-colors ${draftDetails.leadTimes.includes(minutes) ? 'border-primary-500 bg-primary-600/30 text-primary-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+              >
+                {formatMinutes(minutes, settings)}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setIsEditing(false)} className="px-3 py-1.5 text-xs text-slate-400 hover:text-slate-200">
+              {t('form.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={!draftContent.trim()}
+              className="px-3 py-1.5 text-xs rounded-lg bg-primary-600 hover:bg-primary-500 text-white disabled:opacity-50"
+            >
+              {t('form.save')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {/* Content */}
+          <h3 className={`text-lg font-medium mb-2 leading-snug ${isDone ? 'text-slate-500 line-through' : 'text-slate-100'}`}>
+            {data.reminder_content || t('card.notUnderstood')}
+          </h3>
 
-      {/* Time Display */}
-      <div className="flex items-center gap-3 mt-6 pt-6 border-t border-slate-700/50">
-        <div className="bg-slate-800 p-2 rounded-lg text-primary-400">
-          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
-        </div>
-        <div className="flex flex-col">
-          <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Time</span>
-          <span className="text-slate-200 font-mono text-sm">{formattedDate}</span>
-        </div>
-      </div>
+          {/* Time Display */}
+          <div className="flex items-center gap-3 mt-6 pt-6 border-t border-slate-700/50">
+            <div className="bg-slate-800 p-2 rounded-lg text-primary-400">
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+            </div>
+            <div className="flex flex-col">
+              <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('card.time')}</span>
+              <span className="text-slate-200 font-mono text-sm">{formattedDate}</span>
+            </div>
+          </div>
+
+          {/* Details */}
+          {!!(data.location || data.lead_time_minutes?.length || data.category || data.tags?.length) && (
+            <div className="mt-3 pl-[3.25rem] flex flex-col gap-1.5 text-xs">
+              {data.location && (
+                <span className="text-slate-300" title={t('card.location')}>
+                  <span aria-hidden="true" className="text-slate-500">⌖ </span>{data.location}
+                </span>
+              )}
+              {isValid && !!data.lead_time_minutes?.length && (
+                <span className="text-slate-400">{t('card.leadTimes', { times: formatMinutesList(data.lead_time_minutes, settings) })}</span>
+              )}
+              {(data.category || !!data.tags?.length) && (
+                <div className="flex flex-wrap gap-1.5">
+                  {data.category && (
+                    <span className="px-2 py-0.5 rounded-full bg-primary-900/30 text-primary-300">{t(`category.${data.category}`)}</span>
+                  )}
+                  {data.tags?.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-slate-800 text-slate-400">#{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
 
       {/* Raw Time (Debug style) */}
       <div className="mt-2 pl-[3.25rem]">
         <span className="text-[10px] text-slate-600 font-mono">{data.scheduled_time}</span>
+        {sourceTime && <span className="ml-2 text-[10px] text-primary-300/80 font-mono">· {sourceTime}</span>}
       </div>
+
+      {/* Ambiguity Resolution */}
+      {awaitingChoice && (
+        <div className="mt-4 pt-4 border-t border-slate-700/50 flex flex-col gap-3">
+          <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('card.whichDidYouMean')}</span>
+          <div className="flex flex-col gap-2">
+            {data.candidates!.map(candidate => (
+              <button
+                key={candidate.scheduled_time}
+                type="button"
+                onClick={() => onChooseCandidate?.(candidate)}
+                disabled={!onChooseCandidate || isAnswering}
+                className="text-left px-3 py-2 rounded-lg border border-slate-700 hover:border-primary-500 bg-slate-900/50 transition-colors disabled:opacity-50"
+              >
+                <div className="text-sm text-slate-200 font-mono">{formatInstant(candidate.scheduled_time, settings, CANDIDATE_FORMAT)}</div>
+                {candidate.rationale && <div className="text-xs text-slate-500 mt-0.5">{candidate.rationale}</div>}
+              </button>
+            ))}
+          </div>
+          {data.clarifying_question && onAnswerQuestion && (
+            <form onSubmit={submitAnswer} className="flex flex-col gap-2">
+              <label className="text-xs text-slate-400" htmlFor={answerId}>{data.clarifying_question}</label>
+              <div className="flex gap-2">
+                <input
+                  id={answerId}
+                  type="text"
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  disabled={isAnswering}
+                  className="flex-grow bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!answer.trim() || isAnswering}
+                  className="px-3 py-2 text-sm rounded-lg bg-primary-600 hover:bg-primary-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isAnswering ? '…' : t('card.answer')}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      {(onEdit || onToggleDone || onDelete || onDownloadIcs) && !isEditing && (
+        <div className="flex justify-end gap-3 mt-4 pt-3 border-t border-slate-700/50 text-xs">
+          {onEdit && !isDone && (
+            <button type="button" onClick={startEditing} className="text-slate-400 hover:text-primary-300 transition-colors">
+              {t('card.edit')}
+            </button>
+          )}
+          {onToggleDone && (
+            <button type="button" onClick={onToggleDone} className="text-slate-400 hover:text-green-300 transition-colors">
+              {isDone ? t('card.markActive') : t('card.markDone')}
+            </button>
+          )}
+          {onDownloadIcs && isValid && (
+            <button type="button" onClick={onDownloadIcs} className="text-slate-400 hover:text-primary-300 transition-colors">
+              {t('card.downloadIcs')}
+            </button>
+          )}
+          {onDelete && (
+            <button type="button" onClick={onDelete} className="text-slate-400 hover:text-red-300 transition-colors">
+              {t('card.delete')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Delivery Status */}
+      {delivery && delivery.status !== 'skipped' && (
+        <div
+          className={`mt-2 pl-[3.25rem] text-xs ${DELIVERY_LABELS[delivery.status].className}`}
+          title={delivery.lastError ? t('card.delivery.attempts', { error: delivery.lastError, attempts: delivery.attempts }) : undefined}
+        >
+          {t(DELIVERY_LABELS[delivery.status].label)}
+        </div>
+      )}
+
+      {/* Recurrence */}
+      {recurrence && (
+        <div className="flex items-start gap-3 mt-4 pt-4 border-t border-slate-700/50">
+          <div className="bg-slate-800 p-2 rounded-lg text-primary-400">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m17 2 4 4-4 4"/><path d="M3 11v-1a4 4 0 0 1 4-4h14"/><path d="m7 22-4-4 4-4"/><path d="M21 13v1a4 4 0 0 1-4 4H3"/></svg>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('card.repeats')}</span>
+            <span className="text-slate-200 text-sm">{recurrence.description}</span>
+            {recurrence.upcoming.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {recurrence.upcoming.map(date => (
+                  <li key={date.toISOString()} className="text-xs text-slate-400 font-mono">
+                    {formatInstant(date, settings, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
       
     </div>
   );
@@ -0,0 +1,41 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+import { confidenceBand, reminderState } from '../services/reminderStatus';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+
+interface ReminderRowProps {
+  item: HistoryItem;
+  settings: UserSettings;
+  t: Translate;
+}
+
+const BAND_DOTS = { high: 'bg-green-400', medium: 'bg-yellow-400', low: 'bg-red-400' };
+
+// Compact one-line reminder for the agenda and calendar views, where a full
+// card per item would be too tall.
+const ReminderRow: React.FC<ReminderRowProps> = ({ item, settings, t }) => {
+  const state = reminderState(item);
+  const time = formatInstant(item.scheduled_time, settings, { timeStyle: 'short' });
+
+  return (
+    <li className="flex items-center gap-3 py-2 text-sm">
+      <span className="w-16 shrink-0 font-mono text-xs text-primary-300">{time}</span>
+      <span
+        className={`w-1.5 h-1.5 shrink-0 rounded-full ${BAND_DOTS[confidenceBand(item.confidence_score)]}`}
+        title={t('history.confidenceValue', { percent: Math.round(item.confidence_score * 100) })}
+      />
+      <span className={`truncate ${state === 'done' ? 'text-slate-500 line-through' : 'text-slate-200'}`} title={item.originalInput}>
+        {item.reminder_content || item.originalInput}
+      </span>
+      {(state === 'needs-choice' || state === 'missed') && (
+        <span className="ml-auto shrink-0 text-[10px] uppercase tracking-wider text-amber-300">
+          {t(state === 'missed' ? 'card.status.missed' : 'card.status.needsChoice')}
+        </span>
+      )}
+    </li>
+  );
+};
+
+export default ReminderRow;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { ReminderData } from '../types';
+import { fromZonedInputValue, toZonedInputValue } from '../services/timeZone';
+import { Translate } from '../services/i18n';
+import { useTelegramBackButton, useTelegramMainButton } from '../hooks/useTelegram';
+
+interface ReviewPanelProps {
+  reminders: ReminderData[];
+  transcript: string;
+  /** Zone the time inputs are shown in, unless a reminder names its own. */
+  timeZone: string;
+  isProcessing: boolean;
+  onReparse: (transcript: string) => void;
+  onSave: (reminders: ReminderData[], transcript: string) => void;
+  onDiscard: () => void;
+  t: Translate;
+}
+
+interface Draft {
+  data: ReminderData;
+  content: string;
+  time: string;
+  timeZone: string;
+  timeEdited: boolean;
+}
+
+const toDraft = (data: ReminderData, defaultTimeZone: string): Draft => {
+  const timeZone = data.source_timezone ?? defaultTimeZone;
+  return {
+    data,
+    content: data.reminder_content,
+    time: toZonedInputValue(data.scheduled_time, timeZone),
+    timeZone,
+    timeEdited: false,
+  };
+};
+
+const fromDraft = ({ data, content, time, timeZone, timeEdited }: Draft): ReminderData => {
+  if (!timeEdited) return { ...data, reminder_content: content.trim() };
+  const scheduled_time = fromZonedInputValue(time, timeZone);
+  // A time the user typed in is certain and replaces any candidate readings.
+  const { candidates: _candidates, clarifying_question: _question, ...rest } = data;
+  return { ...rest, reminder_content: content.trim(), scheduled_time, confidence_score: scheduled_time ? 1 : 0 };
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ reminders, transcript, timeZone, isProcessing, onReparse, onSave, onDiscard, t }) => {
+  const [draftTranscript, setDraftTranscript] = useState(transcript);
+  const [drafts, setDrafts] = useState<Draft[]>(() => reminders.map(data => toDraft(data, timeZone)));
+
+  // A re-parse produces new reminders; start the form over from them.
+  useEffect(() => {
+    setDraftTranscript(transcript);
+    setDrafts(reminders.map(data => toDraft(data, timeZone)));
+  }, [reminders, transcript, timeZone]);
+
+  const transcriptChanged = draftTranscript.trim() !== transcript.trim();
+
+  const updateDraft = (index: number, patch: Partial<Draft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+
+  const removeDraft = (index: number) => setDrafts(prev => prev.filter((_, i) => i !== index));
+
+  const handleSave = () => onSave(drafts.map(fromDraft), draftTranscript.trim());
+
+  // In Telegram its own buttons save and discard.
+  useTelegramMainButton({
+    text: t('form.save'),
+    enabled: !(isProcessing || transcriptChanged || drafts.length === 0),
+    progress: isProcessing,
+    onClick: handleSave,
+  });
+  useTelegramBackButton({ onClick: onDiscard });
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-surface border border-primary-500/50 rounded-xl p-6 flex flex-col gap-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('review.title')}</div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-slate-400">{t('review.transcript')}</span>
+        <textarea
+          value={draftTranscript}
+          onChange={(e) => setDraftTranscript(e.target.value)}
+          rows={3}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500"
+          disabled={isProcessing}
+        />
+      </label>
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex flex-col gap-3 pt-3 border-t border-slate-700/50">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {drafts.length > 1 ? t('review.reminderOf', { index: index + 1, total: drafts.length }) : t('form.reminder')}
+            </span>
+            {drafts.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeDraft(index)}
+                disabled={isProcessing}
+                className="text-xs text-slate-500 hover:text-red-300 transition-colors"
+              >
+                {t('review.remove')}
+              </button>
+            )}
+          </div>
+          <input
+            type="text"
+            value={draft.content}
+            onChange={(e) => updateDraft(index, { content: e.target.value })}
+            aria-label={t('form.reminder')}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500"
+            disabled={isProcessing}
+          />
+          <input
+            type="datetime-local"
+            value={draft.time}
+            onChange={(e) => updateDraft(index, { time: e.target.value, timeEdited: true })}
+            aria-label={t('form.time')}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono focus:outline-none focus:border-primary-500 [color-scheme:dark]"
+            disabled={isProcessing}
+          />
+          <span className="-mt-2 text-[10px] text-slate-500">{t('card.timesIn', { zone: draft.timeZone })}</span>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isProcessing}
+          className="px-3 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors disabled:opacity-50"
+        >
+          {t('review.discard')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onReparse(draftTranscript.trim())}
+          disabled={isProcessing || !transcriptChanged || !draftTranscript.trim()}
+          className="px-3 py-2 text-sm rounded-lg border border-slate-600 text-slate-200 hover:border-primary-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('review.reparse')}
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isProcessing || transcriptChanged || drafts.length === 0}
+          title={transcriptChanged ? t('review.reparseFirst') : undefined}
+          className="px-4 py-2 text-sm rounded-lg bg-primary-600 hover:bg-primary-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('form.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { ClockFormat, UserSettings, WeekStart, availableTimeZones } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { MessageKey, Translate } from '../services/i18n';
+import { useNow } from '../hooks/useClock';
+
+interface SettingsPanelProps {
+  settings: UserSettings;
+  onChange: (patch: Partial<UserSettings>) => void;
+  onClose: () => void;
+  onOpenDiagnostics: () => void;
+  t: Translate;
+}
+
+const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'ru-RU', 'uz-UZ', 'ja-JP'];
+
+const CLOCK_OPTIONS: Array<{ value: ClockFormat; label: MessageKey }> = [
+  { value: 'auto', label: 'settings.clock.auto' },
+  { value: '12h', label: 'settings.clock.12h' },
+  { value: '24h', label: 'settings.clock.24h' },
+];
+
+const WEEK_START_OPTIONS: Array<{ value: WeekStart; label: MessageKey }> = [
+  { value: 1, label: 'settings.weekStart.1' },
+  { value: 0, label: 'settings.weekStart.0' },
+  { value: 6, label: 'settings.weekStart.6' },
+];
+
+const fieldClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-primary-500 [color-scheme:dark]';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose, onOpenDiagnostics, t }) => {
+  const timeZones = useMemo(availableTimeZones, []);
+  const now = useNow();
+  const locales = LOCALES.includes(settings.locale) ? LOCALES : [settings.locale, ...LOCALES];
+
+  return (
+    <div className="w-full bg-surface border border-slate-700 rounded-xl p-6 flex flex-col gap-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">{t('settings.title')}</span>
+        <button type="button" onClick={onClose} className="text-xs text-slate-400 hover:text-slate-200">{t('settings.done')}</button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-400">{t('settings.timeZone')}</span>
+          {timeZones.length > 0 ? (
+            <select value={settings.timeZone} onChange={(e) => onChange({ timeZone: e.target.value })} className={fieldClass}>
+              {!timeZones.includes(settings.timeZone) && <option value={settings.timeZone}>{settings.timeZone}</option>}
+              {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          ) : (
+            <input
+              type="text"
+              defaultValue={settings.timeZone}
+              onBlur={(e) => onChange({ timeZone: e.target.value.trim() })}
+              placeholder={t('settings.timeZonePlaceholder')}
+              className={fieldClass}
+            />
+          )}
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-400">{t('settings.locale')}</span>
+          <select value={settings.locale} onChange={(e) => onChange({ locale: e.target.value })} className={fieldClass}>
+            {locales.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-400">{t('settings.clock')}</span>
+          <select value={settings.clock} onChange={(e) => onChange({ clock: e.target.value as ClockFormat })} className={fieldClass}>
+            {CLOCK_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-400">{t('settings.weekStart')}</span>
+          <select
+            value={settings.weekStart}
+            onChange={(e) => onChange({ weekStart: Number(e.target.value) as WeekStart })}
+            className={fieldClass}
+          >
+            {WEEK_START_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-xs text-slate-500">
+        <p>{t('settings.now', { time: formatInstant(now, settings, { dateStyle: 'full', timeStyle: 'short' }) })}</p>
+        <button type="button" onClick={onOpenDiagnostics} className="shrink-0 hover:text-primary-300 transition-colors">
+          {t('settings.diagnostics')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { TimeTravel } from '../services/clock';
+import { UserSettings } from '../services/settings';
+import { formatInstant } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import { fromZonedInputValue, toZonedInputValue } from '../services/timeZone';
+import { useClock, useNow } from '../hooks/useClock';
+
+interface TimeTravelPanelProps {
+  timeTravel: TimeTravel | null;
+  settings: UserSettings;
+  onChange: (timeTravel: TimeTravel | null) => void;
+  t: Translate;
+}
+
+const fieldClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono focus:outline-none focus:border-primary-500 [color-scheme:dark]';
+
+// Dev-only controls for moving the app clock, e.g. to just before midnight or
+// a DST change, to see how relative phrases resolve and reminders fire there.
+const TimeTravelPanel: React.FC<TimeTravelPanelProps> = ({ timeTravel, settings, onChange, t }) => {
+  const clock = useClock();
+  const now = useNow();
+  const { timeZone } = settings;
+  const [target, setTarget] = useState(() => toZonedInputValue(clock.now().toISOString(), timeZone));
+  const [frozen, setFrozen] = useState(timeTravel?.frozen ?? false);
+
+  const travel = () => {
+    const at = fromZonedInputValue(target, timeZone);
+    // setAt is real time: the offset is measured against the system clock.
+    if (at) onChange({ at, frozen, setAt: new Date().toISOString() });
+  };
+
+  const beforeMidnight = () => {
+    const today = toZonedInputValue(clock.now().toISOString(), timeZone).slice(0, 10);
+    setTarget(`${today}T23:59`);
+  };
+
+  return (
+    <div className="w-full bg-surface border border-amber-700/50 rounded-xl p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-amber-300 uppercase tracking-wider font-semibold">{t('timeTravel.title')}</span>
+        {timeTravel && (
+          <button type="button" onClick={() => onChange(null)} className="text-xs text-slate-400 hover:text-slate-200">
+            {t('timeTravel.reset')}
+          </button>
+        )}
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-slate-400">{t('timeTravel.at', { zone: timeZone })}</span>
+        <input type="datetime-local" value={target} onChange={(e) => setTarget(e.target.value)} className={fieldClass} />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input type="checkbox" checked={frozen} onChange={(e) => setFrozen(e.target.checked)} />
+          {t('timeTravel.freeze')}
+        </label>
+        <button type="button" onClick={beforeMidnight} className="text-xs text-slate-500 hover:text-primary-300">
+          {t('timeTravel.beforeMidnight')}
+        </button>
+        <button
+          type="button"
+          onClick={travel}
+          disabled={!target}
+          className="ml-auto px-3 py-1.5 text-xs rounded-lg bg-amber-600 hover:bg-amber-500 text-white transition-colors disabled:opacity-50"
+        >
+          {t('timeTravel.travel')}
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {t('settings.now', { time: formatInstant(now, settings, { dateStyle: 'full', timeStyle: 'medium' }) })}
+      </p>
+    </div>
+  );
+};
+
+export default TimeTravelPanel;
@@ -0,0 +1,96 @@
+import { readProviderConfig } from "../services/config";
+import { createParser } from "../services/providers";
+import { evaluateRecording, goldenVersion, loadGoldenSet, loadRecording, recordEvaluation, saveRecording } from "./harness";
+import { formatDiff, formatReport } from "./report";
+
+// Command line for the evaluation harness, loaded by scripts/eval.mjs:
+//
+//   npm run eval                                     replay the local-parser recording
+//   npm run eval -- eval/recordings/x.json           replay another recording
+//   npm run eval -- base.json candidate.json         compare two recordings
+//   npm run eval -- --record out.json --label name   call the configured provider and record it
+//
+// Options: --golden <file> (default eval/golden.json), --verbose, --json.
+
+const DEFAULT_GOLDEN = "eval/golden.json";
+// Recorded from the mock provider, i.e. the local parser, against cases written
+// alongside it. It tracks that parser and is no baseline for a model or prompt.
+const DEFAULT_RECORDING = "eval/recordings/local-parser.json";
+
+interface CliOptions {
+  golden: string;
+  record?: string;
+  label?: string;
+  verbose: boolean;
+  json: boolean;
+  recordings: string[];
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { golden: DEFAULT_GOLDEN, verbose: false, json: false, recordings: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--golden") options.golden = argv[++i];
+    else if (arg === "--record") options.record = argv[++i];
+    else if (arg === "--label") options.label = argv[++i];
+    else if (arg === "--verbose") options.verbose = true;
+    else if (arg === "--json") options.json = true;
+    else if (arg.startsWith("--")) throw new Error(`Unknown option ${arg}`);
+    else options.recordings.push(arg);
+  }
+  if (options.recordings.length > 2) throw new Error("Pass at most two recordings to compare");
+  if (options.record && options.recordings.length > 0) throw new Error("--record does not take recordings to replay");
+  return options;
+};
+
+/** Runs the command and returns the process exit code. */
+export const main = async (argv: string[]): Promise<number> => {
+  const options = parseArgs(argv);
+  const golden = await loadGoldenSet(options.golden);
+
+  // The pipeline logs every fallback and retry; in a report they are noise.
+  const warn = console.warn;
+  if (!options.verbose) console.warn = () => {};
+
+  try {
+    if (options.record) {
+      const providerConfig = readProviderConfig();
+      const { run, recording } = await recordEvaluation(golden, createParser(providerConfig), {
+        label: options.label ?? providerConfig.model,
+        model: providerConfig.model,
+      });
+      await saveRecording(options.record, recording);
+      console.log(options.json ? JSON.stringify(run, null, 2) : formatReport(run, { verbose: options.verbose }));
+      console.log(`\nRecorded ${golden.cases.length} cases to ${options.record}`);
+      return 0;
+    }
+
+    const paths = options.recordings.length > 0 ? options.recordings : [DEFAULT_RECORDING];
+    const runs = [];
+    for (const path of paths) {
+      runs.push(await evaluateRecording(golden, await loadRecording(path)));
+    }
+
+    // A model measured against the local parser looks better or worse for
+    // reasons that have nothing to do with the prompt or model being changed.
+    if (runs.length === 2 && (runs[0].provider === "mock") !== (runs[1].provider === "mock")) {
+      const local = runs[0].provider === "mock" ? paths[0] : paths[1];
+      console.error(
+        `${local} was recorded from the local parser, not a model. To compare providers, prompts or models, ` +
+          "compare two recordings made with --record against a real provider."
+      );
+      return 1;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(runs.length === 1 ? runs[0] : runs, null, 2));
+    } else if (runs.length === 2) {
+      console.log(formatDiff(runs[0], runs[1]));
+    } else {
+      console.log(formatReport(runs[0], { verbose: options.verbose, goldenVersion: goldenVersion(golden) }));
+    }
+    return 0;
+  } finally {
+    console.warn = warn;
+  }
+};
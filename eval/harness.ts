@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { fixedClock } from "../services/clock";
+import { parseInput } from "../services/geminiService";
+import { REMINDER_SCHEMA, SYSTEM_INSTRUCTION } from "../services/parserContract";
+import { ReminderParser } from "../services/providers";
+import { CaseCategory, CaseOutcome, CategoryMetrics, GoldenCase, scoreCase, summarizeByCategory } from "./metrics";
+import { RecordedCall, createRecordedParser, createRecordingParser } from "./recordedProvider";
+
+// Runs the golden set through `parseInput`, the same pipeline the app uses
+// (validation, correction retry, local fallback), with the clock frozen at
+// the fixture file's NOW.
+
+export interface GoldenSet {
+  now: string;
+  timeZone: string;
+  locale?: string;
+  cases: GoldenCase[];
+}
+
+export interface Recording {
+  label: string;
+  provider: string;
+  model: string;
+  /** Hash of the system instruction and schema the answers were produced with. */
+  promptVersion: string;
+  /** Hash of the golden set, to notice recordings made against other cases. */
+  goldenVersion: string;
+  recordedAt: string;
+  responses: Record<string, RecordedCall[]>;
+}
+
+export interface EvaluationRun {
+  label: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  goldenVersion: string;
+  outcomes: CaseOutcome[];
+  metrics: Record<CaseCategory | "overall", CategoryMetrics>;
+}
+
+const shortHash = (text: string) => createHash("sha256").update(text).digest("hex").slice(0, 12);
+
+/** Identifies the current prompt, so runs can say which version they measured. */
+export const currentPromptVersion = (): string =>
+  shortHash(SYSTEM_INSTRUCTION + JSON.stringify(REMINDER_SCHEMA));
+
+export const goldenVersion = (golden: GoldenSet): string => shortHash(JSON.stringify(golden));
+
+export const loadGoldenSet = async (path: string): Promise<GoldenSet> =>
+  JSON.parse(await readFile(path, "utf8")) as GoldenSet;
+
+export const loadRecording = async (path: string): Promise<Recording> =>
+  JSON.parse(await readFile(path, "utf8")) as Recording;
+
+export const saveRecording = (path: string, recording: Recording): Promise<void> =>
+  writeFile(path, JSON.stringify(recording, null, 2) + "\n", "utf8");
+
+const runCase = async (golden: GoldenSet, testCase: GoldenCase, parser: ReminderParser): Promise<CaseOutcome> => {
+  try {
+    const result = await parseInput(testCase.input, {
+      parser,
+      clock: fixedClock(testCase.now ?? golden.now),
+      timeZone: testCase.timeZone ?? golden.timeZone,
+      locale: testCase.locale ?? golden.locale,
+    });
+    return scoreCase(testCase, result.reminders[0]);
+  } catch (error) {
+    return scoreCase(testCase, undefined, error instanceof Error ? error.message : String(error));
+  }
+};
+
+// Cases run one at a time: recordings are made against rate-limited APIs.
+const runCases = async (golden: GoldenSet, parserFor: (testCase: GoldenCase) => ReminderParser) => {
+  const outcomes: CaseOutcome[] = [];
+  for (const testCase of golden.cases) {
+    outcomes.push(await runCase(golden, testCase, parserFor(testCase)));
+  }
+  return outcomes;
+};
+
+/** Replays a recording through the pipeline. Works offline. */
+export const evaluateRecording = async (golden: GoldenSet, recording: Recording): Promise<EvaluationRun> => {
+  // parseInput would quietly fall back to the local parser for a case the
+  // recording lacks, so those are reported instead of run.
+  const outcomes: CaseOutcome[] = [];
+  for (const testCase of golden.cases) {
+    const calls = recording.responses[testCase.id];
+    outcomes.push(calls
+      ? await runCase(golden, testCase, createRecordedParser(testCase.id, calls))
+      : scoreCase(testCase, undefined, "not in recording"));
+  }
+  return {
+    label: recording.label,
+    provider: recording.provider,
+    model: recording.model,
+    promptVersion: recording.promptVersion,
+    goldenVersion: recording.goldenVersion,
+    outcomes,
+    metrics: summarizeByCategory(outcomes),
+  };
+};
+
+/**
+ * Runs the golden set against a live parser and returns both the scores and
+ * a recording of every answer for later offline runs.
+ */
+export const recordEvaluation = async (
+  golden: GoldenSet,
+  parser: ReminderParser,
+  { label, model }: { label: string; model: string }
+): Promise<{ run: EvaluationRun; recording: Recording }> => {
+  const responses: Record<string, RecordedCall[]> = {};
+  const outcomes = await runCases(golden, (testCase) => {
+    const recorder = createRecordingParser(parser);
+    responses[testCase.id] = recorder.calls;
+    return recorder;
+  });
+
+  const recording: Recording = {
+    label,
+    provider: parser.name,
+    model,
+    promptVersion: currentPromptVersion(),
+    goldenVersion: goldenVersion(golden),
+    recordedAt: new Date().toISOString(),
+    responses,
+  };
+  const { recordedAt: _recordedAt, responses: _responses, ...meta } = recording;
+  return { run: { ...meta, outcomes, metrics: summarizeByCategory(outcomes) }, recording };
+};
@@ -0,0 +1,124 @@
+import { ReminderData } from "../types";
+
+// Scoring for the golden-set evaluation. A case is judged on the first
+// reminder the pipeline returns; the golden set only has single-reminder inputs.
+
+export type CaseCategory = "relative" | "absolute" | "ambiguous" | "invalid";
+
+export const CATEGORIES: CaseCategory[] = ["relative", "absolute", "ambiguous", "invalid"];
+
+export interface ExpectedReminder {
+  /** UTC ISO time, or "" when no reminder should be scheduled. */
+  scheduled_time: string;
+  /** Other readings that also count as correct, for ambiguous inputs. */
+  acceptable_times?: string[];
+  /** Omitted when any content is fine, e.g. for small talk. */
+  reminder_content?: string;
+  language?: string;
+}
+
+export interface GoldenCase {
+  id: string;
+  category: CaseCategory;
+  input: string;
+  /** Per-case overrides of the fixture file's defaults. */
+  now?: string;
+  timeZone?: string;
+  locale?: string;
+  expected: ExpectedReminder;
+}
+
+export interface CaseOutcome {
+  id: string;
+  category: CaseCategory;
+  input: string;
+  expected: ExpectedReminder;
+  /** What the pipeline returned, or undefined if it threw. */
+  actual?: ReminderData;
+  error?: string;
+  timeMatch: boolean;
+  /** Token overlap with the expected content in [0, 1]; undefined when not scored. */
+  contentSimilarity?: number;
+}
+
+export interface CategoryMetrics {
+  cases: number;
+  timeAccuracy: number;
+  contentSimilarity: number | null;
+  /** Mean confidence over answers that carried a time. */
+  meanConfidence: number | null;
+  /** Brier score of confidence against time correctness; lower is better. */
+  brier: number | null;
+  errors: number;
+}
+
+const sameInstant = (a: string, b: string): boolean => {
+  if (!a || !b) return a === b;
+  return Date.parse(a) === Date.parse(b);
+};
+
+const tokens = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[ʻʼ‘’`]/g, "'")
+      .split(/[^\p{L}\p{N}']+/u)
+      .filter(Boolean)
+  );
+
+/**
+ * Dice coefficient of the two texts' word sets, so word order and
+ * punctuation don't count against an otherwise right answer.
+ */
+export const contentSimilarity = (expected: string, actual: string): number => {
+  const a = tokens(expected);
+  const b = tokens(actual);
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+export const scoreCase = (golden: GoldenCase, actual: ReminderData | undefined, error?: string): CaseOutcome => {
+  const { expected } = golden;
+  const time = actual?.scheduled_time ?? "";
+  const accepted = [expected.scheduled_time, ...(expected.acceptable_times ?? [])];
+  return {
+    id: golden.id,
+    category: golden.category,
+    input: golden.input,
+    expected,
+    actual,
+    error,
+    timeMatch: !error && accepted.some((candidate) => sameInstant(candidate, time)),
+    contentSimilarity: expected.reminder_content !== undefined && actual
+      ? contentSimilarity(expected.reminder_content, actual.reminder_content)
+      : undefined,
+  };
+};
+
+const mean = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const summarize = (outcomes: CaseOutcome[]): CategoryMetrics => {
+  // Confidence is a claim about the time, so answers without one aren't calibrated.
+  const timed = outcomes.filter((outcome) => outcome.actual?.scheduled_time);
+  return {
+    cases: outcomes.length,
+    timeAccuracy: mean(outcomes.map((outcome) => (outcome.timeMatch ? 1 : 0))) ?? 0,
+    contentSimilarity: mean(
+      outcomes.flatMap((outcome) => (outcome.contentSimilarity === undefined ? [] : [outcome.contentSimilarity]))
+    ),
+    meanConfidence: mean(timed.map((outcome) => outcome.actual!.confidence_score)),
+    brier: mean(timed.map((outcome) => (outcome.actual!.confidence_score - (outcome.timeMatch ? 1 : 0)) ** 2)),
+    errors: outcomes.filter((outcome) => outcome.error !== undefined).length,
+  };
+};
+
+export const summarizeByCategory = (outcomes: CaseOutcome[]): Record<CaseCategory | "overall", CategoryMetrics> => ({
+  relative: summarize(outcomes.filter((outcome) => outcome.category === "relative")),
+  absolute: summarize(outcomes.filter((outcome) => outcome.category === "absolute")),
+  ambiguous: summarize(outcomes.filter((outcome) => outcome.category === "ambiguous")),
+  invalid: summarize(outcomes.filter((outcome) => outcome.category === "invalid")),
+  overall: summarize(outcomes),
+});
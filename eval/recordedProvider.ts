@@ -0,0 +1,61 @@
+import { ReminderData } from "../types";
+import { ReminderCommand, rawTextFor } from "../services/parserContract";
+import { ReminderParser } from "../services/providers";
+import { ReminderValidationError, ValidationIssue } from "../services/validation";
+
+// Providers for offline evaluation. A recording holds what a real model
+// answered for each golden case, call by call (a rejected answer is followed
+// by the correction retry), so the full pipeline can be replayed without a
+// network or API key.
+
+export type RecordedCall =
+  | { reminders: ReminderData[]; command?: ReminderCommand }
+  | { error: string; issues?: ValidationIssue[] };
+
+/**
+ * Replays one case's recorded calls in order. Running out of calls means the
+ * pipeline asked for more than the model was asked when recording, which
+ * makes the replay meaningless, so it throws.
+ */
+export const createRecordedParser = (caseId: string, calls: RecordedCall[] = []): ReminderParser => {
+  let next = 0;
+  return {
+    name: "recorded",
+    async parse({ input }) {
+      const call = calls[next++];
+      if (!call) {
+        throw new Error(`No recorded response for case ${caseId} (call ${next})`);
+      }
+      if ("error" in call) {
+        throw call.issues ? new ReminderValidationError(call.issues) : new Error(call.error);
+      }
+      return { reminders: call.reminders, rawText: rawTextFor(input), ...(call.command ? { command: call.command } : {}) };
+    },
+  };
+};
+
+/**
+ * Wraps a live parser and keeps every answer or failure in `calls`, ready to
+ * be written to a recording.
+ */
+export const createRecordingParser = (inner: ReminderParser): ReminderParser & { calls: RecordedCall[] } => {
+  const calls: RecordedCall[] = [];
+  return {
+    name: inner.name,
+    calls,
+    async parse(request) {
+      try {
+        const result = await inner.parse(request);
+        calls.push(result.command ? { reminders: result.reminders, command: result.command } : { reminders: result.reminders });
+        return result;
+      } catch (error) {
+        calls.push(
+          error instanceof ReminderValidationError
+            ? { error: error.message, issues: error.issues }
+            : { error: error instanceof Error ? error.message : String(error) }
+        );
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import { CATEGORIES, CaseOutcome, CategoryMetrics } from "./metrics";
+import { EvaluationRun } from "./harness";
+
+// Plain-text reports for the terminal.
+
+const ROWS = [...CATEGORIES, "overall"] as const;
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const decimal = (value: number | null) => (value === null ? "–" : value.toFixed(2));
+
+// The mock provider wraps the local rule-based parser, so its recordings say
+// nothing about a model or prompt.
+const describeRun = (run: EvaluationRun) =>
+  run.provider === "mock"
+    ? `${run.label} (local parser via the mock provider, not a model)`
+    : `${run.label} (${run.provider}/${run.model}, prompt ${run.promptVersion})`;
+
+const actualTime = (outcome: CaseOutcome) => {
+  if (outcome.error) return `error: ${outcome.error}`;
+  const time = outcome.actual?.scheduled_time || "no time";
+  return `${time} @ ${decimal(outcome.actual?.confidence_score ?? null)}`;
+};
+
+const describeFailure = (outcome: CaseOutcome) => {
+  const expected = outcome.expected.scheduled_time || "no time";
+  const content = outcome.actual && outcome.expected.reminder_content !== undefined
+    ? `\n      content "${outcome.actual.reminder_content}" vs "${outcome.expected.reminder_content}"`
+    : "";
+  return `  ${outcome.id} [${outcome.category}] ${JSON.stringify(outcome.input)}\n      expected ${expected}, got ${actualTime(outcome)}${content}`;
+};
+
+const metricsRow = (name: string, metrics: CategoryMetrics) =>
+  [
+    name.padEnd(10),
+    String(metrics.cases).padStart(5),
+    percent(metrics.timeAccuracy).padStart(8),
+    decimal(metrics.contentSimilarity).padStart(8),
+    decimal(metrics.meanConfidence).padStart(7),
+    decimal(metrics.brier).padStart(7),
+    String(metrics.errors).padStart(7),
+  ].join(" ");
+
+const HEADER = ["category".padEnd(10), "cases", "    time", " content", "   conf", "  brier", " errors"].join(" ");
+
+/**
+ * Per-category table, followed by every case whose time was wrong (and, with
+ * `verbose`, every case).
+ */
+export const formatReport = (run: EvaluationRun, { verbose = false, goldenVersion }: { verbose?: boolean; goldenVersion?: string } = {}): string => {
+  const lines = [describeRun(run)];
+  if (run.provider === "mock") {
+    lines.push(
+      "The golden set was written alongside the local parser, so a high score here is expected and says nothing",
+      "about a model or prompt. To measure one, record a real provider with --record."
+    );
+  }
+  lines.push("", HEADER, ...ROWS.map((row) => metricsRow(row, run.metrics[row])));
+
+  if (goldenVersion && goldenVersion !== run.goldenVersion) {
+    lines.push("", "Warning: this recording was made against a different version of the golden set.");
+  }
+
+  const listed = verbose ? run.outcomes : run.outcomes.filter((outcome) => !outcome.timeMatch);
+  if (listed.length > 0) {
+    lines.push("", verbose ? "Cases:" : "Wrong times:", ...listed.map(describeFailure));
+  }
+  return lines.join("\n");
+};
+
+const delta = (before: number | null, after: number | null, format: (value: number) => string) => {
+  if (before === null || after === null) return `${before === null ? "–" : format(before)} → ${after === null ? "–" : format(after)}`;
+  const change = after - before;
+  const sign = change > 0 ? "+" : "";
+  return `${format(before)} → ${format(after)} (${sign}${format(change)})`;
+};
+
+/**
+ * Compares two runs of the same golden set: metric changes per category and
+ * the cases that were fixed or broken between them.
+ */
+export const formatDiff = (base: EvaluationRun, candidate: EvaluationRun): string => {
+  const lines = [`base:      ${describeRun(base)}`, `candidate: ${describeRun(candidate)}`];
+  if (base.goldenVersion !== candidate.goldenVersion) {
+    lines.push("Warning: the two runs were recorded against different versions of the golden set.");
+  }
+  lines.push("");
+
+  for (const row of ROWS) {
+    const before = base.metrics[row];
+    const after = candidate.metrics[row];
+    lines.push(
+      `${row.padEnd(10)} time ${delta(before.timeAccuracy, after.timeAccuracy, percent)}` +
+        `   content ${delta(before.contentSimilarity, after.contentSimilarity, (value) => value.toFixed(2))}` +
+        `   brier ${delta(before.brier, after.brier, (value) => value.toFixed(2))}`
+    );
+  }
+
+  const baseById = new Map(base.outcomes.map((outcome) => [outcome.id, outcome]));
+  const fixed: string[] = [];
+  const broken: string[] = [];
+  for (const outcome of candidate.outcomes) {
+    const previous = baseById.get(outcome.id);
+    if (!previous || previous.timeMatch === outcome.timeMatch) continue;
+    const line = `  ${outcome.id} [${outcome.category}] ${actualTime(previous)} → ${actualTime(outcome)}`;
+    (outcome.timeMatch ? fixed : broken).push(line);
+  }
+  if (fixed.length > 0) lines.push("", "Fixed:", ...fixed);
+  if (broken.length > 0) lines.push("", "Regressed:", ...broken);
+  if (fixed.length === 0 && broken.length === 0) lines.push("", "No case changed correctness.");
+  return lines.join("\n");
+};
@@ -0,0 +1,6 @@
+// Globals set by scripts loaded in index.html.
+interface Window {
+  Telegram?: {
+    WebApp?: import("./services/telegram").TelegramWebApp;
+  };
+}
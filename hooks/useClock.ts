@@ -0,0 +1,23 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { Clock, systemClock } from '../services/clock';
+
+/** The clock components read "now" from; tests and time travel replace it. */
+export const ClockContext = createContext<Clock>(systemClock);
+
+export const useClock = (): Clock => useContext(ClockContext);
+
+/**
+ * The current time, re-read every `intervalMs` so displays keep up with it.
+ */
+export const useNow = (intervalMs = 1000): Date => {
+  const clock = useClock();
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    setNow(clock.now());
+    const timer = window.setInterval(() => setNow(clock.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [clock, intervalMs]);
+
+  return now;
+};
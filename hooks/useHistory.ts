@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HistoryItem } from '../types';
+import {
+  HistoryChange,
+  deleteHistoryItem,
+  loadHistory,
+  saveHistoryItem,
+  subscribeToHistory,
+} from '../services/historyStore';
+
+const sortNewestFirst = (items: HistoryItem[]) =>
+  [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const applyChange = (items: HistoryItem[], change: HistoryChange): HistoryItem[] => {
+  if (change.type === 'delete') {
+    return items.filter(item => item.id !== change.id);
+  }
+  return sortNewestFirst([change.item, ...items.filter(item => item.id !== change.item.id)]);
+};
+
+/**
+ * Exposes the persisted history and keeps it in sync with writes from this
+ * and other tabs. The store is the source of truth; local state is a mirror.
+ */
+export const useHistory = () => {
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Changes that arrive while the initial load is in flight are replayed
+    // over its result, so a write from another tab isn't lost to the load.
+    let received: HistoryChange[] | null = [];
+
+    const unsubscribe = subscribeToHistory(change => {
+      received?.push(change);
+      setHistory(prev => applyChange(prev, change));
+    });
+
+    loadHistory()
+      .then(items => {
+        if (!cancelled) setHistory(received!.reduce(applyChange, items));
+      })
+      .catch(err => {
+        console.error("Failed to load history:", err);
+        if (!cancelled) setStorageError("Saved reminders could not be loaded.");
+      })
+      .finally(() => {
+        received = null;
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const saveItem = useCallback(async (item: HistoryItem) => {
+    try {
+      await saveHistoryItem(item);
+    } catch (err) {
+      console.error("Failed to save history item:", err);
+      setStorageError("Reminder could not be saved on this device.");
+      throw err;
+    }
+  }, []);
+
+  const removeItem = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryItem(id);
+    } catch (err) {
+      console.error("Failed to delete history item:", err);
+      setStorageError("Reminder could not be deleted.");
+      throw err;
+    }
+  }, []);
+
+  return { history, isLoaded, storageError, saveItem, removeItem };
+};
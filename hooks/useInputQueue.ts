@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { InputQueue, InputQueueOptions, QueuedInput, SubmitOptions, createInputQueue } from '../services/inputQueue';
+import { ParseInput } from '../services/parserContract';
+
+type QueueHandlers = Pick<InputQueueOptions, 'parse' | 'onResult' | 'onFailure'>;
+
+/**
+ * Runs parse submissions through the input queue. The handlers may change on
+ * every render; the queue always calls the latest ones. Processing waits for
+ * `isLoaded` so results are handled against the stored history.
+ */
+export const useInputQueue = (isLoaded: boolean, handlers: QueueHandlers, generateId: () => string) => {
+  const queueRef = useRef<InputQueue | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const [items, setItems] = useState<QueuedInput[]>([]);
+
+  useEffect(() => {
+    const queue = createInputQueue({
+      parse: (item, options) => handlersRef.current.parse(item, options),
+      onResult: (item, result) => handlersRef.current.onResult(item, result),
+      onFailure: (item, error) => handlersRef.current.onFailure?.(item, error),
+      onChange: setItems,
+      generateId,
+    });
+    queueRef.current = queue;
+
+    const handleOnline = () => queue.resume();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      queue.stop();
+      queueRef.current = null;
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [generateId]);
+
+  useEffect(() => {
+    if (isLoaded) queueRef.current?.start();
+  }, [isLoaded]);
+
+  return {
+    items,
+    submit: (input: ParseInput, options: SubmitOptions) => queueRef.current?.submit(input, options),
+    enqueue: (input: ParseInput, options: SubmitOptions) =>
+      queueRef.current?.enqueue(input, options) ?? Promise.reject(new Error("The input queue is not running")),
+    cancel: (id: string) => queueRef.current?.cancel(id),
+    retry: (id: string) => queueRef.current?.retry(id),
+    dismiss: (id: string) => queueRef.current?.dismiss(id),
+  };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { ParseTelemetryEntry, clearTelemetry, loadTelemetry, subscribeToTelemetry } from '../services/parseTelemetry';
+
+/**
+ * The local parse log, updated as parses are recorded here or in other tabs.
+ */
+export const useParseTelemetry = () => {
+  const [entries, setEntries] = useState<ParseTelemetryEntry[]>(loadTelemetry);
+
+  useEffect(() => subscribeToTelemetry(setEntries), []);
+
+  return { entries, clear: clearTelemetry };
+};
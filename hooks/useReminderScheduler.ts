@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import { HistoryItem } from '../types';
+import { Clock } from '../services/clock';
+import { DisplaySettings } from '../services/formatting';
+import { Translate } from '../services/i18n';
+import {
+  NotificationAction,
+  ReminderScheduler,
+  createReminderScheduler,
+  notificationsSupported,
+  registerServiceWorker,
+  requestNotificationPermission,
+} from '../services/notificationScheduler';
+
+interface NotificationActionMessage {
+  type: 'notification-action';
+  id: string;
+  action: NotificationAction;
+}
+
+/**
+ * Runs the notification scheduler over the persisted history for as long as
+ * the component is mounted.
+ */
+export const useReminderScheduler = (
+  history: HistoryItem[],
+  isLoaded: boolean,
+  save: (item: HistoryItem) => Promise<void>,
+  settings: DisplaySettings,
+  t: Translate,
+  clock: Clock
+) => {
+  const schedulerRef = useRef<ReminderScheduler | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+
+  useEffect(() => {
+    const scheduler = createReminderScheduler({
+      save,
+      settings,
+      t,
+      now: () => clock.now(),
+    });
+    schedulerRef.current = scheduler;
+    registerServiceWorker();
+
+    const handleMessage = (event: MessageEvent<NotificationActionMessage>) => {
+      if (event.data?.type === 'notification-action') {
+        scheduler.handleAction(event.data.id, event.data.action)
+          .catch(err => console.error("Failed to apply notification action:", err));
+      }
+    };
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+    return () => {
+      scheduler.stop();
+      schedulerRef.current = null;
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [save, settings, t, clock]);
+
+  // Wait for the initial load so catch-up sees every stored reminder at once.
+  useEffect(() => {
+    if (isLoaded) schedulerRef.current?.sync(history);
+  }, [history, isLoaded, settings, clock]);
+
+  const requestPermission = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return { permission, requestPermission };
+};
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UserSettings, loadSettings, sanitizeSettings, saveSettings, subscribeToSettings } from '../services/settings';
+
+/**
+ * The user's settings, persisted and kept in step across tabs.
+ */
+export const useSettings = () => {
+  const [settings, setSettings] = useState<UserSettings>(loadSettings);
+
+  useEffect(() => subscribeToSettings(setSettings), []);
+
+  const updateSettings = useCallback((patch: Partial<UserSettings>) => {
+    setSettings(current => {
+      const next = sanitizeSettings({ ...current, ...patch });
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
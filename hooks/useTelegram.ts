@@ -0,0 +1,147 @@
+import { useEffect, useRef } from 'react';
+import { HistoryItem } from '../types';
+import {
+  addPendingDeletions,
+  clearPendingDeletions,
+  idsToDelete,
+  itemsToPull,
+  loadPendingDeletions,
+  planCloudChanges,
+  pushCloudChanges,
+  readCloudHistory,
+} from '../services/historyCloudSync';
+import {
+  BackButtonClaim,
+  ButtonHandle,
+  ButtonStack,
+  MainButtonClaim,
+  TelegramWebApp,
+  backButtonStack,
+  getCloudStore,
+  getTelegramWebApp,
+  mainButtonStack,
+} from '../services/telegram';
+
+/**
+ * Holds one of Telegram's buttons while `claim` is non-null. The latest
+ * mounted claim shows; click handlers always see the current props.
+ */
+const useButtonClaim = <T extends { onClick: () => void }>(
+  stackFor: (webApp: TelegramWebApp) => ButtonStack<T>,
+  claim: T | null,
+  deps: unknown[]
+) => {
+  const handleRef = useRef<ButtonHandle<T> | null>(null);
+  const claimRef = useRef(claim);
+  claimRef.current = claim;
+  const active = claim !== null;
+
+  useEffect(() => {
+    const webApp = getTelegramWebApp();
+    if (!webApp || !claimRef.current) return;
+    const current = claimRef.current;
+    const handle = stackFor(webApp).claim({ ...current, onClick: () => claimRef.current?.onClick() });
+    handleRef.current = handle;
+    return () => {
+      handle.release();
+      handleRef.current = null;
+    };
+  }, [active]);
+
+  useEffect(() => {
+    if (handleRef.current && claimRef.current) {
+      handleRef.current.update({ ...claimRef.current, onClick: () => claimRef.current?.onClick() });
+    }
+  }, deps);
+};
+
+/** Shows Telegram's main button with `claim` while it is non-null. */
+export const useTelegramMainButton = (claim: MainButtonClaim | null) =>
+  useButtonClaim(mainButtonStack, claim, [claim?.text, claim?.enabled, claim?.progress]);
+
+/** Shows Telegram's back button while `claim` is non-null. */
+export const useTelegramBackButton = (claim: BackButtonClaim | null) =>
+  useButtonClaim(backButtonStack, claim, []);
+
+/**
+ * Keeps the history in Telegram CloudStorage. Each sync reads the cloud,
+ * saves newer items and drops ones deleted on another device, then pushes
+ * this device's changes and deletions. It runs once the local store has
+ * loaded, after every change, and when the app comes back into view.
+ */
+export const useTelegramCloudSync = (
+  history: HistoryItem[],
+  isLoaded: boolean,
+  saveItem: (item: HistoryItem) => Promise<void>,
+  removeItem: (id: string) => Promise<void>
+) => {
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const syncingRef = useRef<Promise<void>>(Promise.resolve());
+  const queuedRef = useRef(false);
+  const knownIdsRef = useRef<Set<string> | null>(null);
+  // Items this hook removed because of a tombstone, not deletions to record.
+  const buriedRef = useRef(new Set<string>());
+  // Items that came back here, e.g. after an undo; their tombstones go.
+  const revivedRef = useRef(new Set<string>());
+
+  const sync = () => {
+    const store = getCloudStore();
+    // One sync waiting behind the running one covers any number of changes.
+    if (!store || queuedRef.current) return;
+    queuedRef.current = true;
+    // Serialise syncs so a quick second change can't overtake the first.
+    syncingRef.current = syncingRef.current
+      .then(async () => {
+        queuedRef.current = false;
+        const snapshot = await readCloudHistory(store);
+        const pending = loadPendingDeletions();
+        const tombstones = new Map([...snapshot.tombstones, ...pending]);
+        const revived = [...revivedRef.current];
+        revived.forEach(id => tombstones.delete(id));
+        const local = historyRef.current;
+
+        const deleted = new Set(idsToDelete(local, tombstones));
+        for (const id of deleted) {
+          buriedRef.current.add(id);
+          await removeItem(id);
+        }
+        const pulled = itemsToPull(local, snapshot.items, tombstones);
+        for (const item of pulled) {
+          await saveItem(item);
+        }
+
+        // Plan against what the history holds now, without waiting for a render.
+        const pulledIds = new Set(pulled.map(item => item.id));
+        const next = [...local.filter(item => !deleted.has(item.id) && !pulledIds.has(item.id)), ...pulled]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        await pushCloudChanges(store, planCloudChanges(next, snapshot.stored, tombstones), snapshot.stored);
+        clearPendingDeletions(pending.keys());
+        revived.forEach(id => revivedRef.current.delete(id));
+      })
+      .catch(err => console.warn("Cloud history sync failed:", err));
+  };
+
+  useEffect(() => {
+    if (!isLoaded || !getCloudStore()) return;
+    const ids = new Set(history.map(item => item.id));
+    const known = knownIdsRef.current;
+    knownIdsRef.current = ids;
+    const gone = known ? [...known].filter(id => !ids.has(id) && !buriedRef.current.delete(id)) : [];
+    if (gone.length > 0) addPendingDeletions(gone, new Date().toISOString());
+    const back = known ? [...ids].filter(id => !known.has(id)) : [];
+    if (back.length > 0) {
+      back.forEach(id => revivedRef.current.add(id));
+      clearPendingDeletions(back);
+    }
+    sync();
+  }, [history, isLoaded]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible' && knownIdsRef.current) sync();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+};
@@ -0,0 +1,21 @@
+import { useCallback, useMemo, useState } from 'react';
+import { TimeTravel, clockFor, loadTimeTravel, saveTimeTravel } from '../services/clock';
+import { devConfig } from '../services/config';
+
+/**
+ * The app clock, moved by the dev time-travel override when that is enabled.
+ */
+export const useTimeTravel = () => {
+  const [timeTravel, setTimeTravelState] = useState<TimeTravel | null>(() =>
+    devConfig.timeTravel ? loadTimeTravel() : null
+  );
+
+  const setTimeTravel = useCallback((next: TimeTravel | null) => {
+    saveTimeTravel(next);
+    setTimeTravelState(next);
+  }, []);
+
+  const clock = useMemo(() => clockFor(timeTravel), [timeTravel]);
+
+  return { clock, timeTravel, setTimeTravel };
+};
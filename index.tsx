@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { devConfig } from './services/config';
+import { installTelegramShim } from './services/telegramShim';
+
+if (devConfig.telegramShim) installTelegramShim();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,69 @@
+// Service worker for reminder notifications. The page schedules and shows
+// notifications through this worker's registration so they still appear
+// while the tab is in the background; this file only handles the clicks.
+
+const DB_NAME = "chronos";
+const HISTORY_STORE = "history";
+const CHANNEL_NAME = "chronos-history";
+const DEFAULT_SNOOZE_MS = 10 * 60 * 1000;
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    // No version: the page owns the schema and its migrations.
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Mirrors `applyNotificationAction` in services/notificationScheduler.ts for
+// when no page is open to handle the action itself.
+const applyActionInDb = async (id, action, snoozeMs) => {
+  const db = await openDb();
+  const item = await new Promise((resolve, reject) => {
+    const request = db.transaction(HISTORY_STORE, "readonly").objectStore(HISTORY_STORE).get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (!item) return;
+
+  const now = new Date().toISOString();
+  const updated = action === "snooze"
+    ? { ...item, schedule: { ...item.schedule, status: "snoozed", nextFireAt: new Date(Date.now() + snoozeMs).toISOString(), updatedAt: now } }
+    : { ...item, schedule: { ...item.schedule, status: item.schedule?.status ?? "fired", acknowledgedAt: now, updatedAt: now } };
+
+  await new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE, "readwrite");
+    tx.objectStore(HISTORY_STORE).put(updated);
+    tx.oncomplete = resolve;
+    tx.onerror = () => reject(tx.error);
+  });
+  new BroadcastChannel(CHANNEL_NAME).postMessage({ type: "put", item: updated });
+};
+
+self.addEventListener("notificationclick", (event) => {
+  const { id, snoozeMs = DEFAULT_SNOOZE_MS } = event.notification.data || {};
+  const action = event.action || "open";
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+    if (id && (action === "snooze" || action === "dismiss")) {
+      if (windows.length > 0) {
+        windows[0].postMessage({ type: "notification-action", id, action });
+      } else {
+        await applyActionInDb(id, action, snoozeMs);
+      }
+      return;
+    }
+
+    if (windows.length > 0) {
+      await windows[0].focus();
+    } else {
+      await self.clients.openWindow("/");
+    }
+  })());
+});
@@ -0,0 +1,105 @@
+// Checks how times resolve at awkward moments, with the clock pinned.
+//
+//   npm run check:clock
+//
+// Every case fixes "now" with `fixedClock` and names its time zone, so the
+// answers don't depend on when or where this runs: one minute before local
+// midnight, and the evening before a DST change in New York (spring forward)
+// and Berlin (fall back). `parseLocally` gets the clock's time directly;
+// `parseInput` gets the clock itself and a mock provider, the way the app
+// wires them.
+import { createServer } from "vite";
+
+// 23:59 on Wednesday 11 June 2025 in Tashkent (UTC+5, no DST).
+const BEFORE_MIDNIGHT = { now: "2025-06-11T18:59:00Z", timeZone: "Asia/Tashkent", locale: "en-GB" };
+// 23:59 EST on Saturday 8 March 2025; at 02:00 the clocks jump to 03:00 EDT.
+const BEFORE_SPRING_FORWARD = { now: "2025-03-09T04:59:00Z", timeZone: "America/New_York", locale: "en-US" };
+// 23:59 CEST on Saturday 25 October 2025; at 03:00 the clocks go back to 02:00 CET.
+const BEFORE_FALL_BACK = { now: "2025-10-25T21:59:00Z", timeZone: "Europe/Berlin", locale: "de-DE" };
+
+const LOCAL_CASES = [
+  // "Tomorrow" is the next calendar day in the user's zone, a minute away.
+  { at: BEFORE_MIDNIGHT, text: "tomorrow at 9am call mom", expected: "2025-06-12T04:00:00Z" },
+  { at: BEFORE_MIDNIGHT, text: "завтра в 9 утра позвонить маме", expected: "2025-06-12T04:00:00Z" },
+  { at: BEFORE_MIDNIGHT, text: "ertaga soat 9:00 da majlis", expected: "2025-06-12T04:00:00Z" },
+  // A time already gone today means tomorrow; with "today" it can't be scheduled.
+  { at: BEFORE_MIDNIGHT, text: "at 9am call mom", expected: "2025-06-12T04:00:00Z" },
+  { at: BEFORE_MIDNIGHT, text: "today at 11pm call mom", expected: "" },
+  { at: BEFORE_MIDNIGHT, text: "in 5 minutes call mom", expected: "2025-06-11T19:04:00Z" },
+  // Wall-clock times take the offset in force on that day.
+  { at: BEFORE_SPRING_FORWARD, text: "tomorrow at 9am call mom", expected: "2025-03-09T13:00:00Z" },
+  { at: BEFORE_FALL_BACK, text: "tomorrow at 9am call mom", expected: "2025-10-26T08:00:00Z" },
+  // Durations are elapsed time, so 24 hours isn't the same wall-clock time tomorrow.
+  { at: BEFORE_SPRING_FORWARD, text: "in 24 hours call mom", expected: "2025-03-10T04:59:00Z" },
+  { at: BEFORE_FALL_BACK, text: "in 24 hours call mom", expected: "2025-10-26T21:59:00Z" },
+  // 02:30 doesn't exist in New York that night and moves on to 03:30 EDT; in
+  // Berlin it happens twice and the later one (CET) is taken.
+  { at: BEFORE_SPRING_FORWARD, text: "tomorrow at 2:30am call mom", expected: "2025-03-09T07:30:00Z" },
+  { at: BEFORE_FALL_BACK, text: "tomorrow at 1:30am call mom", expected: "2025-10-25T23:30:00Z" },
+  { at: BEFORE_FALL_BACK, text: "tomorrow at 2:30am call mom", expected: "2025-10-26T01:30:00Z" },
+];
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false, watch: null },
+  appType: "custom",
+  logLevel: "error",
+  // Nothing here runs in a browser, so skip the dependency pre-bundling scan.
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { fixedClock } = await server.ssrLoadModule("/services/clock.ts");
+  const { parseLocally } = await server.ssrLoadModule("/services/localParser.ts");
+  const { parseInput } = await server.ssrLoadModule("/services/geminiService.ts");
+  const { createMockParser } = await server.ssrLoadModule("/services/providers/mockProvider.ts");
+  const problems = [];
+  let total = 0;
+
+  const expect = (label, actual, expected) => {
+    total += 1;
+    if (actual !== expected) problems.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  };
+
+  for (const { at, text, expected } of LOCAL_CASES) {
+    const { now, timeZone, locale } = at;
+    const result = parseLocally(text, { now: fixedClock(now).now(), timeZone, locale });
+    expect(`parseLocally("${text}") at ${now} in ${timeZone}`, result.scheduled_time, expected);
+  }
+
+  // The provider is asked with the clock's time and the given zone, not the machine's.
+  {
+    const { now, timeZone, locale } = BEFORE_SPRING_FORWARD;
+    const parser = createMockParser();
+    const result = await parseInput("tomorrow at 9am call mom", { parser, clock: fixedClock(now), timeZone, locale });
+    expect(`parseInput("tomorrow at 9am call mom") at ${now} in ${timeZone}`, result.reminders[0]?.scheduled_time, "2025-03-09T13:00:00Z");
+    for (const call of parser.calls) {
+      expect("mock provider's now", call.now.toISOString(), new Date(now).toISOString());
+      expect("mock provider's time zone", call.timeZone, timeZone);
+    }
+  }
+
+  // An answer that is in the past by the pinned clock fails validation, even
+  // though it is long in the future by the machine's, and the local parser
+  // steps in: 23:58 has just gone, so it is tomorrow's.
+  {
+    const { now, timeZone, locale } = BEFORE_MIDNIGHT;
+    const parser = createMockParser({ reminder_content: "Call mom", scheduled_time: "2025-06-11T18:54:00Z", confidence_score: 0.9 });
+    const original = console.warn;
+    console.warn = () => {};
+    try {
+      const result = await parseInput("at 11:58pm call mom", { parser, clock: fixedClock(now), timeZone, locale });
+      expect(`parseInput("at 11:58pm call mom") at ${now} in ${timeZone}`, result.reminders[0]?.scheduled_time, "2025-06-12T18:58:00Z");
+    } finally {
+      console.warn = original;
+    }
+  }
+
+  for (const problem of problems) console.error(problem);
+  console.log(problems.length === 0 ? `Clock OK: ${total} checks.` : `${problems.length} clock problem(s) in ${total} checks.`);
+  process.exitCode = problems.length === 0 ? 0 : 1;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,55 @@
+// Checks the UI catalogues (services/locales/*) against English.
+//
+//   npm run check:locales
+//
+// Reports keys a translation is missing or has in addition to en.ts, and
+// `{placeholders}` a translation uses that the English string doesn't (so `t`
+// would never fill them in). The `Catalogue` type already rejects missing and
+// extra keys at compile time; this also catches placeholder typos and gives a
+// readable list when adding a language.
+import { createServer } from "vite";
+
+const LANGUAGES = ["ru", "uz"];
+
+const placeholders = (template) => new Set([...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]));
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false, watch: null },
+  appType: "custom",
+  logLevel: "error",
+  // Nothing here runs in a browser, so skip the dependency pre-bundling scan.
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { en } = await server.ssrLoadModule("/services/locales/en.ts");
+  const problems = [];
+
+  for (const language of LANGUAGES) {
+    const catalogue = (await server.ssrLoadModule(`/services/locales/${language}.ts`))[language];
+    for (const key of Object.keys(en)) {
+      if (!(key in catalogue)) problems.push(`${language}: missing "${key}"`);
+    }
+    for (const [key, template] of Object.entries(catalogue)) {
+      if (!(key in en)) {
+        problems.push(`${language}: extra "${key}"`);
+        continue;
+      }
+      const known = placeholders(en[key]);
+      for (const name of placeholders(template)) {
+        if (!known.has(name)) problems.push(`${language}: "${key}" uses {${name}}, which en.ts doesn't`);
+      }
+    }
+  }
+
+  for (const problem of problems) console.error(problem);
+  console.log(problems.length === 0
+    ? `Locales OK: ${LANGUAGES.join(", ")} match en (${Object.keys(en).length} keys).`
+    : `${problems.length} locale problem(s).`);
+  process.exitCode = problems.length === 0 ? 0 : 1;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
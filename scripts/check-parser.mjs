@@ -0,0 +1,92 @@
+// Checks language detection and the local parser's Russian and Uzbek phrases.
+//
+//   npm run check:parser
+//
+// Each case states the answer a person would give, worked out by hand, so a
+// rule change that shifts a time or misreads the language shows up here. The
+// eval golden set covers the same ground at a coarser grain and scores models
+// too; this is the quick check to run after touching `services/language.ts`
+// or `services/localParser.ts`.
+import { createServer } from "vite";
+
+// Wednesday 11 June 2025, 12:30 in Tashkent (UTC+5, no DST).
+const NOW = "2025-06-11T07:30:00Z";
+const TIME_ZONE = "Asia/Tashkent";
+
+const LANGUAGE_CASES = [
+  ["remind me to call mom tomorrow at 5pm", "en"],
+  ["call Ivan tomorrow", "en"],
+  ["buy milk", "en"],
+  ["15:30", "en"],
+  ["напомни позвонить маме", "ru"],
+  ["ЗАВТРА", "ru"],
+  ["через час выключить духовку", "ru"],
+  // Uzbek Cyrillic: ў, қ, ғ and ҳ aren't Russian letters.
+  ["эртага соат 9 да онамга қўнғироқ қилиш", "uz"],
+  ["ertaga onamga qo'ng'iroq", "uz"],
+  ["bugun kechqurun", "uz"],
+  ["15 daqiqadan keyin dori ichish", "uz"],
+  ["juma kuni majlis", "uz"],
+];
+
+// `expected` lists only the fields the case is about.
+const PARSE_CASES = [
+  // Russian: "через N <unit>" counts from now; "через час" is one hour.
+  { text: "через 15 минут позвонить маме", locale: "ru-RU", expected: { scheduled_time: "2025-06-11T07:45:00Z", reminder_content: "Позвонить маме", language: "ru" } },
+  { text: "через пять минут проверить почту", locale: "ru-RU", expected: { scheduled_time: "2025-06-11T07:35:00Z", language: "ru" } },
+  { text: "через час выключить духовку", locale: "ru-RU", expected: { scheduled_time: "2025-06-11T08:30:00Z", reminder_content: "Выключить духовку", language: "ru" } },
+  { text: "через полчаса забрать посылку", locale: "ru-RU", expected: { scheduled_time: "2025-06-11T08:00:00Z", reminder_content: "Забрать посылку", language: "ru" } },
+  { text: "через два дня оплатить счёт", locale: "ru-RU", expected: { scheduled_time: "2025-06-13T07:30:00Z", reminder_content: "Оплатить счёт", language: "ru" } },
+  { text: "через неделю записаться к врачу", locale: "ru-RU", expected: { scheduled_time: "2025-06-18T07:30:00Z", language: "ru" } },
+  // Russian: day words and weekdays resolve in Tashkent time.
+  { text: "завтра в 9 утра позвонить маме", locale: "ru-RU", expected: { scheduled_time: "2025-06-12T04:00:00Z", reminder_content: "Позвонить маме", language: "ru" } },
+  { text: "послезавтра в 18:30 тренировка", locale: "ru-RU", expected: { scheduled_time: "2025-06-13T13:30:00Z", reminder_content: "Тренировка", language: "ru" } },
+  { text: "сегодня вечером полить цветы", locale: "ru-RU", expected: { scheduled_time: "2025-06-11T14:00:00Z", language: "ru" } },
+  { text: "в пятницу в 10 встреча", locale: "ru-RU", expected: { scheduled_time: "2025-06-13T05:00:00Z", reminder_content: "Встреча", language: "ru" } },
+  // Uzbek: "N <unit>dan keyin/so'ng" counts from now.
+  { text: "15 daqiqadan keyin onamga qo'ng'iroq qilish", locale: "uz-UZ", expected: { scheduled_time: "2025-06-11T07:45:00Z", reminder_content: "Onamga qo'ng'iroq qilish", language: "uz" } },
+  { text: "yarim soatdan keyin dori ichish", locale: "uz-UZ", expected: { scheduled_time: "2025-06-11T08:00:00Z", reminder_content: "Dori ichish", language: "uz" } },
+  { text: "2 soatdan keyin uchrashuv", locale: "uz-UZ", expected: { scheduled_time: "2025-06-11T09:30:00Z", reminder_content: "Uchrashuv", language: "uz" } },
+  { text: "ikki kundan keyin to'lov", locale: "uz-UZ", expected: { scheduled_time: "2025-06-13T07:30:00Z", language: "uz" } },
+  { text: "bir haftadan so'ng shifokor", locale: "uz-UZ", expected: { scheduled_time: "2025-06-18T07:30:00Z", language: "uz" } },
+  // Uzbek: day words and weekdays.
+  { text: "ertaga soat 9 da onamga qo'ng'iroq qilish", locale: "uz-UZ", expected: { scheduled_time: "2025-06-12T04:00:00Z", reminder_content: "Onamga qo'ng'iroq qilish", language: "uz" } },
+  { text: "indinga soat 18:30 da kino", locale: "uz-UZ", expected: { scheduled_time: "2025-06-13T13:30:00Z", reminder_content: "Kino", language: "uz" } },
+  { text: "juma kuni soat 10 da uchrashuv", locale: "uz-UZ", expected: { scheduled_time: "2025-06-13T05:00:00Z", reminder_content: "Uchrashuv", language: "uz" } },
+];
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false, watch: null },
+  appType: "custom",
+  logLevel: "error",
+  // Nothing here runs in a browser, so skip the dependency pre-bundling scan.
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { detectLanguage } = await server.ssrLoadModule("/services/language.ts");
+  const { parseLocally } = await server.ssrLoadModule("/services/localParser.ts");
+  const problems = [];
+
+  for (const [text, expected] of LANGUAGE_CASES) {
+    const actual = detectLanguage(text);
+    if (actual !== expected) problems.push(`detectLanguage("${text}"): expected ${expected}, got ${actual}`);
+  }
+
+  for (const { text, locale, expected } of PARSE_CASES) {
+    const result = parseLocally(text, { now: new Date(NOW), timeZone: TIME_ZONE, locale });
+    for (const [field, value] of Object.entries(expected)) {
+      if (result[field] !== value) problems.push(`parseLocally("${text}"): expected ${field} ${JSON.stringify(value)}, got ${JSON.stringify(result[field])}`);
+    }
+  }
+
+  for (const problem of problems) console.error(problem);
+  const total = LANGUAGE_CASES.length + PARSE_CASES.length;
+  console.log(problems.length === 0 ? `Parser OK: ${total} cases.` : `${problems.length} parser problem(s) in ${total} cases.`);
+  process.exitCode = problems.length === 0 ? 0 : 1;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,29 @@
+// Runs the golden-set evaluation (eval/cli.ts) under Node.
+//
+//   npm run eval -- [recording.json [candidate.json]] [--record out.json]
+//
+// The TypeScript sources are loaded through Vite's SSR module loader with the
+// project's vite.config.ts, so the same `define`d settings apply as in the app.
+// Provider settings (LLM_PROVIDER, LLM_MODEL, GEMINI_API_KEY, ...) come from
+// the environment, with .env files filling in the rest, as for the server.
+import { createServer, loadEnv } from "vite";
+
+for (const [key, value] of Object.entries(loadEnv("development", process.cwd(), ""))) {
+  process.env[key] ??= value;
+}
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false, watch: null },
+  appType: "custom",
+  logLevel: "error",
+});
+
+try {
+  const { main } = await server.ssrLoadModule("/eval/cli.ts");
+  process.exitCode = await main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,29 @@
+// Runs the parse server (server/main.ts) from source for development.
+//
+//   npm run server                       uses GEMINI_API_KEY from .env.local
+//   LLM_PROVIDER=mock npm run server     no key needed; the local parser answers
+//
+// Values in .env files fill in whatever the environment doesn't set. The
+// `vite` dev server forwards /api to it (see API_PROXY_TARGET).
+import { createServer, loadEnv } from "vite";
+
+for (const [key, value] of Object.entries(loadEnv("development", process.cwd(), ""))) {
+  process.env[key] ??= value;
+}
+
+// No config file: the app's `define`s are for the browser, and the server
+// must read its settings (and key) from the environment at runtime.
+const vite = await createServer({
+  configFile: false,
+  server: { middlewareMode: true, hmr: false, watch: null },
+  appType: "custom",
+  logLevel: "error",
+});
+
+try {
+  await vite.ssrLoadModule("/server/main.ts");
+} catch (error) {
+  console.error(error);
+  await vite.close();
+  process.exitCode = 1;
+}
@@ -0,0 +1,65 @@
+// Local stand-in for the n8n delivery webhook.
+//
+//   node scripts/stub-webhook.mjs [--port 8787] [--fail 2]
+//
+// Logs every payload it receives and keeps the scheduled reminders by
+// `reminder_id`, applying `op` the way a real receiver should: `create`
+// ignores ids it already has, `update` replaces, `cancel` removes. With
+// --fail N the first N requests get a 503 so the client's retry/backoff and
+// outbox can be exercised. Point the parse server at it with
+// DELIVERY_FORWARD_URL=http://localhost:8787/webhook.
+import http from "node:http";
+
+const arg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(process.argv[index + 1]);
+};
+
+const port = arg("port", 8787);
+let failuresLeft = arg("fail", 0);
+const scheduled = new Map();
+
+const server = http.createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[stub] 503 (${failuresLeft} failures left)`, body);
+      res.writeHead(503).end();
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(body);
+      const required = payload.op === "cancel" ? ["reminder_id", "chat_id"] : ["reminder_id", "chat_id", "text", "remind_at"];
+      const missing = required.filter((key) => payload[key] === undefined);
+      if (missing.length > 0 || (payload.op !== "cancel" && !Number.isInteger(payload.remind_at))) {
+        console.log("[stub] 400 invalid payload", payload);
+        res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ missing }));
+        return;
+      }
+      if (payload.op === "cancel") {
+        console.log(`[stub] 200 cancel ${payload.reminder_id}`, scheduled.delete(payload.reminder_id) ? "" : "(not scheduled)");
+      } else if (payload.op === "create" && scheduled.has(payload.reminder_id)) {
+        console.log(`[stub] 200 duplicate create ${payload.reminder_id} ignored`);
+      } else {
+        scheduled.set(payload.reminder_id, payload);
+        console.log(`[stub] 200 ${payload.op ?? "create"}`, payload, `fires at ${new Date(payload.remind_at * 1000).toISOString()}`);
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: true }));
+    } catch {
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => console.log(`[stub] listening on http://localhost:${port}/webhook`));
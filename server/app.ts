@@ -0,0 +1,264 @@
+import http from "node:http";
+import { ServerConfig } from "../services/config";
+import {
+  DELIVER_API_PATH,
+  PARSE_API_PATH,
+  ParseApiError,
+  ParseApiErrorBody,
+  ParseApiResponse,
+  TELEGRAM_INIT_DATA_HEADER,
+  fromParseApiRequest,
+} from "../services/parseApi";
+import { ProviderError, ReminderParser } from "../services/providers";
+import { ReminderValidationError } from "../services/validation";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+import { TelegramAuthError, VerifiedInitData, verifyTelegramInitData } from "./telegramAuth";
+
+// The parse server: accepts the same requests a provider would get, checks
+// them against size and rate limits, and forwards them to the configured
+// model with the key that only this process knows. With a bot token it also
+// relays Telegram deliveries whose `chat_id` it can vouch for.
+
+const MINUTE_MS = 60_000;
+// JSON framing around the input; audio is base64, a third larger than its bytes.
+const BODY_OVERHEAD_BYTES = 16 * 1024;
+const CLIENT_ID_PATTERN = /^[\w-]{1,64}$/;
+// Deliveries are small; this leaves room for long reminder text and initData.
+const MAX_DELIVERY_BYTES = 16 * 1024;
+
+export interface ParseServerOptions {
+  parser: ReminderParser;
+  config: ServerConfig;
+  /** Overridable for tests. */
+  clientLimiter?: RateLimiter;
+  ipLimiter?: RateLimiter;
+  fetchImpl?: typeof fetch;
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, error: ParseApiError, extra: Partial<ParseApiErrorBody["error"]> = {}) => {
+  const body: ParseApiErrorBody = {
+    error: { code: error.code, message: error.message, retryAfterMs: error.retryAfterMs, ...extra },
+  };
+  const headers = error.retryAfterMs ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) } : {};
+  sendJson(res, error.status ?? 500, body, headers);
+};
+
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new ParseApiError("payload_too_large", "Request body is too large", { status: 413 });
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining so the 413 can still be sent, but stop buffering.
+      if (size > maxBytes) reject(tooLarge());
+      else chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const clientAddress = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const readJson = async (req: http.IncomingMessage, maxBytes: number): Promise<unknown> => {
+  try {
+    return JSON.parse(await readBody(req, maxBytes));
+  } catch (err) {
+    if (err instanceof ParseApiError) throw err;
+    throw new ParseApiError("invalid_request", "Body must be JSON", { status: 400 });
+  }
+};
+
+const checkRateLimit = (limiter: RateLimiter, key: string) => {
+  const decision = limiter.take(key);
+  if (!decision.allowed) {
+    throw new ParseApiError("rate_limited", "Too many requests", { status: 429, retryAfterMs: decision.retryAfterMs });
+  }
+};
+
+const verifyInitData = (initData: string | undefined, config: ServerConfig): VerifiedInitData => {
+  try {
+    return verifyTelegramInitData(initData, config.telegramBotToken ?? "", { maxAgeSeconds: config.initDataMaxAgeSeconds });
+  } catch (err) {
+    if (err instanceof TelegramAuthError) throw new ParseApiError("unauthorized", err.message, { status: 401 });
+    throw err;
+  }
+};
+
+// Tells the client why the model call failed without passing on the
+// provider's own message, which may mention the key or account.
+const toParseApiError = (error: ProviderError): ParseApiError => {
+  switch (error.code) {
+    case "auth":
+      return new ParseApiError("upstream_auth", "The model provider rejected the server's credentials", { status: 502 });
+    case "quota":
+      return new ParseApiError("quota_exceeded", "The model provider's quota is used up", {
+        status: 503,
+        retryAfterMs: error.retryAfterMs,
+      });
+    default:
+      return new ParseApiError("upstream_error", "The model request failed", { status: 502 });
+  }
+};
+
+/**
+ * Handles `POST /api/parse`, `POST /api/deliver` and `GET /api/health`. Every
+ * failure is answered with a `ParseApiErrorBody` whose code the client maps
+ * to a message.
+ */
+export const createParseHandler = ({
+  parser,
+  config,
+  clientLimiter = createRateLimiter({ limit: config.rateLimitPerClient, windowMs: MINUTE_MS }),
+  ipLimiter = createRateLimiter({ limit: config.rateLimitPerIp, windowMs: MINUTE_MS }),
+  fetchImpl = fetch,
+}: ParseServerOptions): http.RequestListener => {
+  const maxBodyBytes = Math.ceil((config.maxAudioBytes * 4) / 3) + BODY_OVERHEAD_BYTES;
+  const limits = { maxTextChars: config.maxTextChars, maxAudioBytes: config.maxAudioBytes };
+  const relayDeliveries = !!config.telegramBotToken && !!config.deliveryForwardUrl;
+
+  // A verified Telegram user is a better rate-limit key than a client id the
+  // browser made up; bad init data just falls back to the client id.
+  const clientIdentity = (req: http.IncomingMessage): string | undefined => {
+    const initData = req.headers[TELEGRAM_INIT_DATA_HEADER.toLowerCase()];
+    if (config.telegramBotToken && typeof initData === "string") {
+      try {
+        const { user } = verifyTelegramInitData(initData, config.telegramBotToken, {
+          maxAgeSeconds: config.initDataMaxAgeSeconds,
+        });
+        if (user) return `tg-${user.id}`;
+      } catch {
+        // Not from Telegram, or stale; treat it like any other browser.
+      }
+    }
+    const header = req.headers["x-client-id"];
+    return typeof header === "string" && CLIENT_ID_PATTERN.test(header) ? header : undefined;
+  };
+
+  const handleParse = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = await readJson(req, maxBodyBytes);
+    // Stop waiting on the model once the client has gone (cancelled or timed out).
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const result = await parser.parse({ ...fromParseApiRequest(body, limits), signal: controller.signal });
+    const response: ParseApiResponse = {
+      reminders: result.reminders,
+      rawText: result.rawText,
+      command: result.command,
+      model: result.model,
+      usage: result.usage,
+    };
+    sendJson(res, 200, response);
+  };
+
+  // Only forwards a delivery whose chat_id is the Telegram user who signed
+  // init_data, so nobody can schedule messages into someone else's chat.
+  const handleDeliver = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = await readJson(req, MAX_DELIVERY_BYTES);
+    if (typeof body !== "object" || body === null) {
+      throw new ParseApiError("invalid_request", "Body must be a JSON object", { status: 400 });
+    }
+    const { init_data: initData, ...payload } = body as Record<string, unknown>;
+    const { user } = verifyInitData(typeof initData === "string" ? initData : undefined, config);
+    if (!user || String(user.id) !== String(payload.chat_id)) {
+      throw new ParseApiError("unauthorized", "chat_id does not match the signed Telegram user", { status: 403 });
+    }
+
+    let upstream: Response;
+    try {
+      upstream = await fetchImpl(config.deliveryForwardUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+    } catch (err) {
+      console.error("[server] delivery webhook unreachable:", err);
+      throw new ParseApiError("upstream_error", "The delivery webhook could not be reached", { status: 502 });
+    }
+    if (!upstream.ok) {
+      // Keep the webhook's status so the client's retry rules still apply.
+      throw new ParseApiError("upstream_error", `Delivery webhook responded ${upstream.status}`, {
+        status: upstream.status >= 500 ? 502 : upstream.status,
+      });
+    }
+    sendJson(res, 200, { ok: true });
+  };
+
+  // The app posts here by default; say plainly that nothing will be delivered.
+  const handleDeliveryDisabled = async () => {
+    throw new ParseApiError("invalid_request", "Delivery is not configured on this server", { status: 501 });
+  };
+
+  return async (req, res) => {
+    const started = Date.now();
+    const path = (req.url ?? "").split("?")[0];
+    if (config.allowedOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", config.allowedOrigin);
+      res.setHeader("Access-Control-Allow-Headers", `Content-Type, X-Client-Id, ${TELEGRAM_INIT_DATA_HEADER}`);
+      res.setHeader("Vary", "Origin");
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method === "GET" && path === "/api/health") {
+      sendJson(res, 200, { ok: true, provider: parser.name, delivery: relayDeliveries });
+      return;
+    }
+    const route =
+      req.method !== "POST" ? undefined
+      : path === PARSE_API_PATH ? handleParse
+      : path === DELIVER_API_PATH ? (relayDeliveries ? handleDeliver : handleDeliveryDisabled)
+      : undefined;
+    if (!route) {
+      sendError(res, new ParseApiError("invalid_request", "Not found", { status: 404 }));
+      return;
+    }
+
+    const clientId = clientIdentity(req);
+    const address = clientAddress(req, config.trustProxy);
+
+    try {
+      checkRateLimit(ipLimiter, address);
+      if (clientId) checkRateLimit(clientLimiter, clientId);
+      await route(req, res);
+    } catch (err) {
+      if (err instanceof ParseApiError) {
+        // Don't keep reading an oversized upload on this connection.
+        if (err.code === "payload_too_large") res.setHeader("Connection", "close");
+        sendError(res, err);
+      } else if (err instanceof ProviderError) {
+        console.error("[server] model request failed:", err);
+        sendError(res, toParseApiError(err));
+      } else if (err instanceof ReminderValidationError) {
+        // The model answered but not usably; the client retries with a correction.
+        sendError(res, new ParseApiError("invalid_response", err.message, { status: 422 }), { issues: err.issues });
+      } else {
+        console.error("[server] model request failed:", err);
+        sendError(res, new ParseApiError("upstream_error", "The model request failed", { status: 502 }));
+      }
+    } finally {
+      console.log(`[server] ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms ${clientId ?? address}`);
+    }
+  };
+};
+
+export const createParseServer = (options: ParseServerOptions): http.Server =>
+  http.createServer(createParseHandler(options));
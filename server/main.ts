@@ -0,0 +1,20 @@
+import { readProviderConfig, readServerConfig } from "../services/config";
+import { createParser } from "../services/providers";
+import { createParseServer } from "./app";
+
+// Entry point of the parse server. `npm run server` runs it from source;
+// `npm run build:server` bundles it for `npm run start:server`.
+
+const providerConfig = readProviderConfig();
+const config = readServerConfig();
+
+if (providerConfig.provider === "gemini" && !providerConfig.apiKey) {
+  console.error("[server] GEMINI_API_KEY is not set. Set it, or run with LLM_PROVIDER=mock for a local model.");
+  process.exit(1);
+}
+
+const server = createParseServer({ parser: createParser(providerConfig), config });
+
+server.listen(config.port, () => {
+  console.log(`[server] ${providerConfig.provider}/${providerConfig.model} listening on http://localhost:${config.port}`);
+});
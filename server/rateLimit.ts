@@ -0,0 +1,46 @@
+// Fixed-window request counting per key (client id or address). In memory,
+// so limits reset on restart and aren't shared between server instances.
+
+export interface RateDecision {
+  allowed: boolean;
+  /** How long until the key may try again; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take(key: string): RateDecision;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+// Expired windows are swept once this many keys are tracked.
+const PRUNE_THRESHOLD = 10_000;
+
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const prune = (current: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= current) windows.delete(key);
+    }
+  };
+
+  return {
+    take(key) {
+      const current = now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= current) {
+        if (windows.size >= PRUNE_THRESHOLD) prune(current);
+        window = { count: 0, resetAt: current + windowMs };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) return { allowed: false, retryAfterMs: window.resetAt - current };
+      window.count++;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
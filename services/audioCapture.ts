@@ -0,0 +1,161 @@
+// Browser audio helpers for the recorder: which container `MediaRecorder`
+// can produce, how loud the microphone is, when the speaker has stopped, and
+// how to turn a clip into what the parser accepts.
+
+/** Containers in order of preference. Chrome/Firefox do webm or ogg, Safari/iOS only mp4. */
+export const RECORDER_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+  "audio/aac",
+];
+
+/**
+ * The first preferred type the recorder supports, or `undefined` to let the
+ * browser choose (the resulting blob's `type` still says what it picked).
+ */
+export const pickRecorderMimeType = (
+  isTypeSupported: (type: string) => boolean = (type) =>
+    typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(type),
+): string | undefined => RECORDER_MIME_TYPES.find((type) => isTypeSupported(type));
+
+// Some systems give .m4a or .opus files an empty or non-audio type.
+const EXTENSION_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  webm: "audio/webm",
+  flac: "audio/flac",
+};
+
+/**
+ * The bare audio type to send with a clip, without codec parameters.
+ * Returns `null` when it isn't audio.
+ */
+export const audioMimeType = (type: string, fileName = ""): string | null => {
+  const bare = type.split(";")[0].trim().toLowerCase();
+  if (bare.startsWith("audio/")) return bare;
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  // A recording saved as .mp4/.webm is reported as video but holds only sound.
+  if (!bare || bare.startsWith("video/") || bare === "application/octet-stream") {
+    return EXTENSION_TYPES[extension] ?? null;
+  }
+  return null;
+};
+
+export type RecorderErrorCode =
+  | "permission"
+  | "no_device"
+  | "device_busy"
+  | "unsupported"
+  | "file_type"
+  | "file_too_large"
+  | "file_unreadable";
+
+export class RecorderError extends Error {
+  readonly code: RecorderErrorCode;
+
+  constructor(code: RecorderErrorCode, message: string) {
+    super(message);
+    this.name = "RecorderError";
+    this.code = code;
+  }
+}
+
+/** Maps a `getUserMedia` or `MediaRecorder` failure to something the user can act on. */
+export const toRecorderError = (err: unknown): RecorderError => {
+  if (err instanceof RecorderError) return err;
+  const name = (err as { name?: string } | null)?.name;
+  const message = (err as Error | null)?.message ?? String(err);
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new RecorderError("permission", message);
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new RecorderError("no_device", message);
+    case "NotReadableError":
+    case "AbortError":
+      return new RecorderError("device_busy", message);
+    default:
+      return new RecorderError("unsupported", message);
+  }
+};
+
+export const canRecord = (): boolean =>
+  typeof navigator !== "undefined" &&
+  !!navigator.mediaDevices?.getUserMedia &&
+  typeof MediaRecorder !== "undefined";
+
+/** Root-mean-square level (0–1) of `AnalyserNode.getByteTimeDomainData` output. */
+export const rmsLevel = (samples: Uint8Array): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (const sample of samples) {
+    const centred = (sample - 128) / 128;
+    sum += centred * centred;
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+export interface SilenceDetectorOptions {
+  /** How long the level must stay below `threshold` after speech. */
+  silenceMs: number;
+  /** RMS level that counts as speech. */
+  threshold: number;
+}
+
+export interface SilenceDetector {
+  /** Feeds one level reading; returns true once speech has been followed by enough silence. */
+  update(level: number, atMs: number): boolean;
+}
+
+/**
+ * A minimal voice-activity check. It never fires before the speaker has said
+ * something, so a slow start doesn't cut the recording short.
+ */
+export const createSilenceDetector = ({ silenceMs, threshold }: SilenceDetectorOptions): SilenceDetector => {
+  let heardSpeech = false;
+  let quietSince: number | null = null;
+
+  return {
+    update(level, atMs) {
+      if (level >= threshold) {
+        heardSpeech = true;
+        quietSince = null;
+        return false;
+      }
+      if (!heardSpeech) return false;
+      quietSince ??= atMs;
+      return atMs - quietSince >= silenceMs;
+    },
+  };
+};
+
+/** Checks an uploaded clip and returns the type to send it as. */
+export const checkAudioFile = (file: File, maxBytes: number): string => {
+  const mimeType = audioMimeType(file.type, file.name);
+  if (!mimeType) throw new RecorderError("file_type", `${file.type || file.name} is not audio`);
+  if (file.size > maxBytes) throw new RecorderError("file_too_large", `${file.size} bytes exceeds ${maxBytes}`);
+  return mimeType;
+};
+
+/** Base64 content of a blob, without the `data:` prefix. */
+export const readAsBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (reader.error || typeof reader.result !== "string") {
+        reject(new RecorderError("file_unreadable", reader.error?.message ?? "Could not read audio"));
+        return;
+      }
+      resolve(reader.result.split(",")[1] ?? "");
+    };
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,47 @@
+// Imports a plain-text file with one reminder request per line. Lines are
+// parsed one at a time so a bad line only loses itself, and so a long file
+// doesn't turn into one enormous prompt.
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface ImportFailure {
+  line: string;
+  error: unknown;
+}
+
+/**
+ * Splits a file into parseable lines, dropping blanks and `#` comments.
+ */
+export const splitImportLines = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+
+/**
+ * Runs `importLine` (parse and save) for each line in turn and returns the
+ * lines that failed.
+ */
+export const importLines = async (
+  lines: string[],
+  importLine: (line: string) => Promise<void>,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportFailure[]> => {
+  const failures: ImportFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    try {
+      await importLine(lines[i]);
+    } catch (error) {
+      console.warn(`Import failed for line ${i + 1}:`, error);
+      failures.push({ line: lines[i], error });
+    }
+    onProgress?.({ done: i + 1, total: lines.length, failed: failures.length });
+  }
+
+  return failures;
+};
@@ -0,0 +1,20 @@
+// A random id for this browser, sent to the parse server so its rate limit
+// applies per install rather than per shared address.
+
+const STORAGE_KEY = "chronos-client-id";
+
+let cached: string | undefined;
+
+export const getClientId = (): string | undefined => {
+  if (cached) return cached;
+  try {
+    cached = localStorage.getItem(STORAGE_KEY) ?? undefined;
+    if (!cached && typeof crypto.randomUUID === "function") {
+      cached = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, cached);
+    }
+  } catch (error) {
+    console.warn("Could not read client id:", error);
+  }
+  return cached;
+};
@@ -0,0 +1,67 @@
+// The app's source of "now". Parsing, validation, scheduling and display all
+// read the time from a Clock instead of calling `new Date()`, so tests can
+// pin it and the dev time-travel mode can move it, e.g. to check how
+// "tomorrow at 9" resolves just before midnight or across a DST change.
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+/** A clock stopped at one instant. */
+export const fixedClock = (at: Date | string): Clock => {
+  const time = new Date(at).getTime();
+  return { now: () => new Date(time) };
+};
+
+/** Real time shifted by `offsetMs`; it keeps ticking. */
+export const offsetClock = (offsetMs: number, base: Clock = systemClock): Clock => ({
+  now: () => new Date(base.now().getTime() + offsetMs),
+});
+
+/**
+ * Dev-only override of the current time: either stopped at `at`, or running
+ * from `at` onwards as if it had been set at `setAt` (real time).
+ */
+export interface TimeTravel {
+  at: string;
+  frozen: boolean;
+  setAt: string;
+}
+
+const STORAGE_KEY = "chronos-time-travel";
+
+export const clockFor = (travel: TimeTravel | null): Clock => {
+  if (!travel) return systemClock;
+  if (travel.frozen) return fixedClock(travel.at);
+  return offsetClock(Date.parse(travel.at) - Date.parse(travel.setAt));
+};
+
+const isTimeTravel = (value: unknown): value is TimeTravel => {
+  if (typeof value !== "object" || value === null) return false;
+  const { at, frozen, setAt } = value as Record<string, unknown>;
+  return typeof at === "string" && !Number.isNaN(Date.parse(at))
+    && typeof setAt === "string" && !Number.isNaN(Date.parse(setAt))
+    && typeof frozen === "boolean";
+};
+
+export const loadTimeTravel = (): TimeTravel | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return isTimeTravel(parsed) ? parsed : null;
+  } catch (error) {
+    console.warn("Could not read time travel state:", error);
+    return null;
+  }
+};
+
+export const saveTimeTravel = (travel: TimeTravel | null) => {
+  try {
+    if (travel) localStorage.setItem(STORAGE_KEY, JSON.stringify(travel));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not save time travel state:", error);
+  }
+};
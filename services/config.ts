@@ -0,0 +1,211 @@
+// Runtime configuration. Browser values are injected at build time through
+// `define` in vite.config.ts. Model provider and server settings are only
+// read on the server (`readProviderConfig`, `readServerConfig`), so API keys
+// never end up in the client bundle.
+
+/**
+ * How the deterministic local parser participates in `parseInput`:
+ * - `first`: try it before the model and skip the model when it is confident.
+ * - `fallback`: only use it when the model is unavailable or fails.
+ * - `cross-check`: run both and lower the model's confidence when they disagree.
+ */
+export type LocalParserMode = "first" | "fallback" | "cross-check";
+
+export interface ParserConfig {
+  localParserMode: LocalParserMode;
+  /** Minimum local confidence for `first` mode to skip the model. */
+  localConfidenceThreshold: number;
+  /** How far ahead a parsed reminder may be scheduled before it is rejected. */
+  maxHorizonDays: number;
+}
+
+export type ProviderName = "gemini" | "openai" | "mock";
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  temperature: number;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:8080/v1. */
+  baseUrl: string;
+}
+
+const PROVIDERS: ProviderName[] = ["gemini", "openai", "mock"];
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "local-model",
+  mock: "mock",
+};
+
+const LOCAL_PARSER_MODES: LocalParserMode[] = ["first", "fallback", "cross-check"];
+
+const readMode = (value: string | undefined): LocalParserMode =>
+  LOCAL_PARSER_MODES.includes(value as LocalParserMode) ? (value as LocalParserMode) : "fallback";
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const parserConfig: ParserConfig = {
+  localParserMode: readMode(process.env.LOCAL_PARSER_MODE),
+  localConfidenceThreshold: readNumber(process.env.LOCAL_PARSER_THRESHOLD, 0.85),
+  maxHorizonDays: readNumber(process.env.MAX_HORIZON_DAYS, 3650),
+};
+
+type Env = Record<string, string | undefined>;
+
+/** Which model the server (or the eval harness) talks to. Server-side only. */
+export const readProviderConfig = (env: Env = process.env): ProviderConfig => {
+  const provider: ProviderName = PROVIDERS.includes(env.LLM_PROVIDER as ProviderName)
+    ? (env.LLM_PROVIDER as ProviderName)
+    : "gemini";
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    // Low temperature for precision
+    temperature: readNumber(env.LLM_TEMPERATURE, 0.1),
+    apiKey: provider === "gemini" ? env.GEMINI_API_KEY || env.API_KEY : env.LLM_API_KEY,
+    baseUrl: env.LLM_BASE_URL || "http://localhost:8080/v1",
+  };
+};
+
+export interface ClientConfig {
+  /** The parse server's endpoint; same-origin by default (proxied by `vite` in dev). */
+  parseApiUrl: string;
+}
+
+export const clientConfig: ClientConfig = {
+  parseApiUrl: process.env.PARSE_API_URL || "/api/parse",
+};
+
+export interface ServerConfig {
+  port: number;
+  /** Origin allowed to call the API cross-site; empty means same-origin only. */
+  allowedOrigin: string;
+  /** Use X-Forwarded-For for the client address (behind a reverse proxy). */
+  trustProxy: boolean;
+  maxTextChars: number;
+  /** Largest decoded audio upload. */
+  maxAudioBytes: number;
+  /** Requests per minute for one client id. */
+  rateLimitPerClient: number;
+  /** Requests per minute from one address, however many client ids it uses. */
+  rateLimitPerIp: number;
+  /** Verifies Telegram `initData`; without it the delivery relay is off. */
+  telegramBotToken?: string;
+  /** How long signed `initData` stays valid. */
+  initDataMaxAgeSeconds: number;
+  /** Where `/api/deliver` forwards verified deliveries (the n8n webhook). Empty turns the relay off. */
+  deliveryForwardUrl: string;
+}
+
+export const readServerConfig = (env: Env = process.env): ServerConfig => ({
+  port: readNumber(env.PORT, 8788),
+  allowedOrigin: env.ALLOWED_ORIGIN ?? "",
+  trustProxy: env.TRUST_PROXY === "true",
+  maxTextChars: readNumber(env.MAX_TEXT_CHARS, 2000),
+  maxAudioBytes: readNumber(env.MAX_AUDIO_BYTES, 5 * 1024 * 1024),
+  rateLimitPerClient: readNumber(env.RATE_LIMIT_PER_CLIENT, 20),
+  rateLimitPerIp: readNumber(env.RATE_LIMIT_PER_IP, 60),
+  telegramBotToken: env.TELEGRAM_BOT_TOKEN || undefined,
+  initDataMaxAgeSeconds: readNumber(env.TELEGRAM_INIT_DATA_MAX_AGE, 86_400),
+  deliveryForwardUrl: env.DELIVERY_FORWARD_URL ?? "",
+});
+
+export interface DeliveryConfig {
+  /**
+   * Where deliveries are posted: the parse server's `/api/deliver` relay,
+   * which checks the signed `initData` before forwarding, unless
+   * `DELIVERY_WEBHOOK_URL` names a webhook to post to directly. Empty
+   * disables delivery.
+   */
+  webhookUrl: string;
+  maxAttempts: number;
+  /** First retry delay; doubles on each further attempt. */
+  baseDelayMs: number;
+  /** How long one request may take before it counts as a network error. */
+  timeoutMs: number;
+}
+
+// The relay lives next to the parse endpoint, on whichever server that is.
+const relayUrlFor = (parseApiUrl: string): string =>
+  parseApiUrl.endsWith("/api/parse") ? `${parseApiUrl.slice(0, -"/api/parse".length)}/api/deliver` : "";
+
+export const deliveryConfig: DeliveryConfig = {
+  webhookUrl: process.env.DELIVERY_WEBHOOK_URL || relayUrlFor(clientConfig.parseApiUrl),
+  maxAttempts: readNumber(process.env.DELIVERY_MAX_ATTEMPTS, 4),
+  baseDelayMs: readNumber(process.env.DELIVERY_BASE_DELAY_MS, 1000),
+  timeoutMs: readNumber(process.env.DELIVERY_TIMEOUT_MS, 15_000),
+};
+
+export interface SchedulerConfig {
+  snoozeMinutes: number;
+  /** Reminders overdue by less than this still fire on startup; older ones are marked missed. */
+  catchUpGraceMinutes: number;
+}
+
+export const schedulerConfig: SchedulerConfig = {
+  snoozeMinutes: readNumber(process.env.SNOOZE_MINUTES, 10),
+  catchUpGraceMinutes: readNumber(process.env.CATCH_UP_GRACE_MINUTES, 15),
+};
+
+export interface RecorderConfig {
+  /** Recording stops by itself after this long. */
+  maxDurationSeconds: number;
+  /** Trailing silence that ends a recording; 0 turns auto-stop off. */
+  silenceStopMs: number;
+  /** Microphone RMS level (0–1) that counts as speech. */
+  speechThreshold: number;
+  /** Largest clip the recorder accepts; matches the parse server's limit. */
+  maxAudioBytes: number;
+}
+
+export const recorderConfig: RecorderConfig = {
+  maxDurationSeconds: readNumber(process.env.RECORDER_MAX_SECONDS, 60),
+  silenceStopMs: readNumber(process.env.RECORDER_SILENCE_MS, 2500),
+  speechThreshold: readNumber(process.env.RECORDER_SPEECH_THRESHOLD, 0.04),
+  maxAudioBytes: readNumber(process.env.MAX_AUDIO_BYTES, 5 * 1024 * 1024),
+};
+
+export interface QueueConfig {
+  /** A parse attempt is abandoned after this long. */
+  timeoutMs: number;
+  /** Attempts per submission when failures are transient, the first included. */
+  maxAttempts: number;
+  /** First retry delay; doubles on each further attempt. */
+  baseDelayMs: number;
+}
+
+export const queueConfig: QueueConfig = {
+  timeoutMs: readNumber(process.env.PARSE_TIMEOUT_MS, 30_000),
+  maxAttempts: readNumber(process.env.PARSE_MAX_ATTEMPTS, 3),
+  baseDelayMs: readNumber(process.env.PARSE_RETRY_BASE_MS, 1000),
+};
+
+export interface TelemetryConfig {
+  /** Parses kept in the local diagnostics log; older ones are dropped. */
+  maxEntries: number;
+  /** USD per million input tokens, for the cost estimate; 0 hides it. */
+  inputCostPerMillion: number;
+  /** USD per million output tokens. */
+  outputCostPerMillion: number;
+}
+
+export const telemetryConfig: TelemetryConfig = {
+  maxEntries: readNumber(process.env.TELEMETRY_MAX_ENTRIES, 500),
+  inputCostPerMillion: readNumber(process.env.PARSE_COST_INPUT_PER_MTOK, 0),
+  outputCostPerMillion: readNumber(process.env.PARSE_COST_OUTPUT_PER_MTOK, 0),
+};
+
+export interface DevConfig {
+  /** Shows the time-travel controls in settings; on by default under `vite` dev. */
+  timeTravel: boolean;
+  /** Fakes `Telegram.WebApp` outside Telegram (services/telegramShim.ts). */
+  telegramShim: boolean;
+}
+
+export const devConfig: DevConfig = {
+  timeTravel: process.env.TIME_TRAVEL === "true",
+  telegramShim: process.env.TELEGRAM_SHIM === "true",
+};
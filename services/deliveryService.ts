@@ -0,0 +1,319 @@
+import { DeliveryState, HistoryItem } from "../types";
+import { DeliveryConfig, deliveryConfig } from "./config";
+import { loadOutbox, updateHistoryItem } from "./historyStore";
+import { hasValidTime, needsClarification } from "./reminderStatus";
+import { getTelegramWebApp } from "./telegram";
+
+// Sends saved reminders to the webhook (an n8n workflow) that schedules the
+// Telegram message, by default through the parse server's relay. Failed sends
+// stay on the item with status "failed" and are retried from the outbox on
+// startup and when the browser comes online.
+
+/**
+ * What a message asks the receiver to do with the reminder `reminder_id`:
+ * - `create`: schedule it. A second create with the same id is a retry
+ *   racing a slow success and should be ignored.
+ * - `update`: replace what was scheduled for it (edited or rescheduled);
+ *   schedule it if nothing is.
+ * - `cancel`: drop whatever is scheduled for it; nothing to do if it's gone.
+ */
+export type DeliveryOp = "create" | "update" | "cancel";
+
+/**
+ * The webhook contract. `remind_at` is Unix seconds; `reminder_id` is the
+ * key the receiver stores the scheduled message under.
+ */
+export interface DeliveryPayload {
+  op: Exclude<DeliveryOp, "cancel">;
+  reminder_id: string;
+  chat_id: number | string;
+  text: string;
+  remind_at: number;
+  recurrence: {
+    rule: string;
+    end_at: number | null;
+    count: number | null;
+  } | null;
+  /** Extra heads-up messages this many minutes before each occurrence. */
+  lead_minutes?: number[];
+  location?: string;
+  /**
+   * The Mini App's signed `initData`, so the receiver can check that
+   * `chat_id` is the user who sent it (see server/telegramAuth.ts).
+   */
+  init_data?: string;
+}
+
+/** Sent when a delivered reminder is deleted or cancelled. */
+export interface DeliveryCancellation {
+  op: "cancel";
+  reminder_id: string;
+  chat_id: number | string;
+  init_data?: string;
+}
+
+export type DeliveryMessage = DeliveryPayload | DeliveryCancellation;
+
+/** Whose Telegram chat a reminder goes to, and the proof that they asked. */
+export interface DeliveryRecipient {
+  chatId: number | string;
+  initData?: string;
+}
+
+export class DeliveryError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  /** Attempts made before giving up; set by `sendWithRetry`. */
+  attempts = 1;
+
+  constructor(message: string, { status, retryable }: { status?: number; retryable: boolean }) {
+    super(message);
+    this.name = "DeliveryError";
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+export interface DeliveryOptions extends DeliveryConfig {
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** What the parse server answers on `/api/deliver` when it has no webhook to forward to. */
+const RELAY_DISABLED_STATUS = 501;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const toUnixSeconds = (iso: string): number => {
+  const ms = Date.parse(iso);
+  if (Number.isNaN(ms)) throw new DeliveryError(`Invalid time "${iso}"`, { retryable: false });
+  return Math.floor(ms / 1000);
+};
+
+export const buildDeliveryPayload = (item: HistoryItem, { chatId, initData }: DeliveryRecipient): DeliveryPayload => ({
+  op: item.delivery?.previouslySent ? "update" : "create",
+  reminder_id: item.id,
+  chat_id: chatId,
+  text: item.reminder_content || item.originalInput,
+  remind_at: toUnixSeconds(item.scheduled_time),
+  recurrence: item.recurrence_rule
+    ? {
+        rule: item.recurrence_rule,
+        end_at: item.recurrence_end ? toUnixSeconds(item.recurrence_end) : null,
+        count: item.recurrence_count ?? null,
+      }
+    : null,
+  ...(item.lead_time_minutes?.length ? { lead_minutes: item.lead_time_minutes } : {}),
+  ...(item.location ? { location: item.location } : {}),
+  ...(initData ? { init_data: initData } : {}),
+});
+
+const postOnce = async (payload: DeliveryMessage, webhookUrl: string, timeoutMs: number, fetchImpl: typeof fetch) => {
+  let response: Response;
+  try {
+    response = await fetchImpl(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      // A hung request would otherwise hold up the outbox for good.
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    throw new DeliveryError(`Network error: ${(err as Error).message}`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    // Client errors other than rate limiting won't succeed on retry, and
+    // neither will a relay that isn't configured (501).
+    const retryable = (response.status >= 500 && response.status !== RELAY_DISABLED_STATUS)
+      || response.status === 429 || response.status === 408;
+    throw new DeliveryError(`Webhook responded ${response.status}`, { status: response.status, retryable });
+  }
+};
+
+/**
+ * Posts the payload, retrying transient failures with exponential backoff.
+ * Resolves with the number of attempts used; rejects with the last
+ * `DeliveryError` once retries are exhausted.
+ */
+export const sendWithRetry = async (
+  payload: DeliveryMessage,
+  { webhookUrl, maxAttempts, baseDelayMs, timeoutMs, fetchImpl = fetch, sleep = defaultSleep }: DeliveryOptions
+): Promise<number> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await postOnce(payload, webhookUrl, timeoutMs, fetchImpl);
+      return attempt;
+    } catch (err) {
+      const error = err as DeliveryError;
+      if (!error.retryable || attempt >= maxAttempts) {
+        error.attempts = attempt;
+        throw error;
+      }
+      await sleep(baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+};
+
+// Items currently being sent, so an outbox flush never races a live send.
+const inFlight = new Set<string>();
+
+/** The Telegram user the Mini App was opened by; `undefined` outside Telegram. */
+export const getDeliveryRecipient = (): DeliveryRecipient | undefined => {
+  const webApp = getTelegramWebApp();
+  const chatId = webApp?.initDataUnsafe.user?.id;
+  return webApp && chatId !== undefined ? { chatId, initData: webApp.initData } : undefined;
+};
+
+/**
+ * Delivers one history item and returns it with its updated `delivery`
+ * state. Never throws: failures are recorded on the item instead. Store the
+ * result with `recordDelivery`, not by saving it whole.
+ */
+export const deliverItem = async (
+  item: HistoryItem,
+  recipient: DeliveryRecipient | undefined,
+  options: DeliveryOptions = deliveryConfig
+): Promise<HistoryItem> => {
+  const previousAttempts = item.delivery?.attempts ?? 0;
+  // Until a send goes through, the receiver still holds the earlier version.
+  const previouslySent = item.delivery?.previouslySent;
+  const state = (patch: Omit<DeliveryState, "updatedAt">): HistoryItem => ({
+    ...item,
+    delivery: {
+      ...patch,
+      ...(previouslySent && patch.status !== "sent" ? { previouslySent } : {}),
+      updatedAt: new Date().toISOString(),
+    },
+  });
+
+  if (!options.webhookUrl || !recipient || !hasValidTime(item)) {
+    return state({ status: "skipped", attempts: previousAttempts });
+  }
+  // Hold ambiguous reminders in the outbox until the user picks a time.
+  if (needsClarification(item)) {
+    return state({ status: "pending", attempts: previousAttempts });
+  }
+
+  inFlight.add(item.id);
+  try {
+    const attempts = await sendWithRetry(buildDeliveryPayload(item, recipient), options);
+    return state({ status: "sent", attempts: previousAttempts + attempts });
+  } catch (err) {
+    const error = err as DeliveryError;
+    // Nowhere to deliver to, like an empty webhook URL; not worth retrying.
+    if (error.status === RELAY_DISABLED_STATUS) {
+      return state({ status: "skipped", attempts: previousAttempts + 1 });
+    }
+    return state({
+      status: "failed",
+      attempts: previousAttempts + (error.attempts ?? 1),
+      lastError: error.message,
+    });
+  } finally {
+    inFlight.delete(item.id);
+  }
+};
+
+/**
+ * Stores the `delivery` state of `delivered` on the latest saved version of
+ * the item, so edits made while it was being sent are kept. Skipped if the
+ * item was deleted, or if its delivery changed since `sent` was read: a newer
+ * edit has queued its own send.
+ */
+export const recordDelivery = (sent: HistoryItem, delivered: HistoryItem): Promise<void> =>
+  updateHistoryItem(sent.id, (stored) =>
+    stored.delivery?.updatedAt === sent.delivery?.updatedAt ? { ...stored, delivery: delivered.delivery } : undefined
+  );
+
+// Deleted reminders are gone from the history store, so the ids whose
+// cancellation hasn't reached the receiver yet wait in localStorage.
+const CANCELLATIONS_KEY = "chronos-delivery-cancellations";
+
+const loadCancellations = (): string[] => {
+  try {
+    const stored = localStorage.getItem(CANCELLATIONS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as string[]) : [];
+  } catch (error) {
+    console.warn("Could not read pending delivery cancellations:", error);
+    return [];
+  }
+};
+
+const saveCancellations = (ids: string[]) => {
+  try {
+    if (ids.length > 0) localStorage.setItem(CANCELLATIONS_KEY, JSON.stringify(ids));
+    else localStorage.removeItem(CANCELLATIONS_KEY);
+  } catch (error) {
+    console.warn("Could not save pending delivery cancellations:", error);
+  }
+};
+
+/** Whether the receiver may be holding a message for this item. */
+export const wasDelivered = (item: HistoryItem): boolean =>
+  item.delivery?.status === "sent" || !!item.delivery?.previouslySent;
+
+const sendCancellations = async (recipient: DeliveryRecipient, options: DeliveryOptions) => {
+  for (const id of loadCancellations()) {
+    const cancellation: DeliveryCancellation = {
+      op: "cancel",
+      reminder_id: id,
+      chat_id: recipient.chatId,
+      ...(recipient.initData ? { init_data: recipient.initData } : {}),
+    };
+    try {
+      await sendWithRetry(cancellation, options);
+    } catch (err) {
+      // Keep it for the next flush unless retrying can't help.
+      if ((err as DeliveryError).retryable) continue;
+      console.warn(`Dropping cancellation of ${id}:`, err);
+    }
+    saveCancellations(loadCancellations().filter((queued) => queued !== id));
+  }
+};
+
+/**
+ * Tells the receiver to drop a deleted reminder it was sent. The request
+ * waits in localStorage until it goes through, like the outbox.
+ */
+export const cancelDelivery = async (
+  item: HistoryItem,
+  recipient: DeliveryRecipient | undefined,
+  options: DeliveryOptions = deliveryConfig
+): Promise<void> => {
+  if (!options.webhookUrl || !wasDelivered(item)) return;
+  saveCancellations([...loadCancellations().filter((id) => id !== item.id), item.id]);
+  if (recipient) await sendCancellations(recipient, options);
+};
+
+/**
+ * Forgets a cancellation that hasn't been sent, e.g. after undoing a delete.
+ * One that was already sent is answered by delivering the item again as an update.
+ */
+export const withdrawCancellation = (id: string) => {
+  saveCancellations(loadCancellations().filter((queued) => queued !== id));
+};
+
+let flushing = false;
+
+/**
+ * Sends pending cancellations, then retries every pending or failed delivery
+ * in the outbox and records each outcome.
+ */
+export const flushOutbox = async (
+  recipient: DeliveryRecipient | undefined,
+  options: DeliveryOptions = deliveryConfig
+): Promise<void> => {
+  if (flushing || !recipient) return;
+  flushing = true;
+  try {
+    if (options.webhookUrl) await sendCancellations(recipient, options);
+    for (const item of await loadOutbox()) {
+      if (inFlight.has(item.id)) continue;
+      await recordDelivery(item, await deliverItem(item, recipient, options));
+    }
+  } finally {
+    flushing = false;
+  }
+};
@@ -0,0 +1,61 @@
+import { UserSettings } from "./settings";
+
+// Date display for the whole UI, honouring the user's zone, locale and
+// 12/24-hour preference instead of the browser's.
+
+export type DisplaySettings = Pick<UserSettings, "timeZone" | "locale" | "clock">;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (settings: DisplaySettings, options: Intl.DateTimeFormatOptions, timeZone: string) => {
+  const key = JSON.stringify([settings.locale, settings.clock, timeZone, options]);
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    const hour12 = settings.clock === "auto" ? undefined : settings.clock === "12h";
+    formatter = new Intl.DateTimeFormat(settings.locale, { ...options, timeZone, hour12 });
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Formats an instant in the user's zone, or in `timeZone` when given
+ * (e.g. the zone the user named for the reminder).
+ */
+export const formatInstant = (
+  value: string | Date,
+  settings: DisplaySettings,
+  options: Intl.DateTimeFormatOptions,
+  timeZone = settings.timeZone
+): string => {
+  const date = typeof value === "string" ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return "";
+  return getFormatter(settings, options, timeZone).format(date);
+};
+
+/** Short zone label such as "GMT+9" for showing next to a time. */
+export const formatZoneName = (value: string | Date, settings: DisplaySettings, timeZone: string): string => {
+  const date = typeof value === "string" ? new Date(value) : value;
+  const part = getFormatter(settings, { timeZoneName: "short" }, timeZone)
+    .formatToParts(date)
+    .find((p) => p.type === "timeZoneName");
+  return part?.value ?? timeZone;
+};
+
+/** Formats a `YYYY-MM-DD` key without shifting it through a time zone. */
+export const formatDayKey = (day: string, settings: Pick<UserSettings, "locale">, options: Intl.DateTimeFormatOptions): string => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date, 12)).toLocaleDateString(settings.locale, { ...options, timeZone: "UTC" });
+};
+
+/** A lead time such as "30 minutes" or "1 day", in the largest whole unit. */
+export const formatMinutes = (minutes: number, settings: Pick<UserSettings, "locale">): string => {
+  const [value, unit]: [number, string] = minutes % 1440 === 0 ? [minutes / 1440, "day"]
+    : minutes % 60 === 0 ? [minutes / 60, "hour"]
+    : [minutes, "minute"];
+  return new Intl.NumberFormat(settings.locale, { style: "unit", unit, unitDisplay: "long" }).format(value);
+};
+
+/** Joins lead times into one phrase, e.g. "1 day and 30 minutes". */
+export const formatMinutesList = (minutes: number[], settings: Pick<UserSettings, "locale">): string =>
+  new Intl.ListFormat(settings.locale, { type: "conjunction" }).format(minutes.map((m) => formatMinutes(m, settings)));
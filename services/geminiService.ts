@@ -1,111 +1,203 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { ReminderData } from "../types";
+import { Clock, systemClock } from "./clock";
+import { clientConfig, parserConfig } from "./config";
+import { getClientId } from "./clientId";
+import { parseLocally } from "./localParser";
+import { ContextReminder, ParseInput, ParseResult } from "./parserContract";
+import { ParseTelemetryEntry, classifyParseError, describeInput, meterParser } from "./parseTelemetry";
+import { createProxyParser } from "./providers/proxyProvider";
+import { ParseRequest, ReminderParser } from "./providers/types";
+import { looksLikeCommand } from "./reminderCommands";
+import { getTelegramWebApp } from "./telegram";
+import {
+  ReminderValidationError,
+  ValidationIssue,
+  ValidationOptions,
+  buildCorrectionPrompt,
+  validateCommand,
+  validateReminders,
+} from "./validation";
 
-// Define the JSON schema for the response
-const REMINDER_SCHEMA: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    reminder_content: {
-      type: Type.STRING,
-      description: "A concise, action-oriented summary of the reminder",
-    },
-    scheduled_time: {
-      type: Type.STRING,
-      description: "The extracted date and time in ISO 8601 UTC format (YYYY-MM-DDTHH:MM:SSZ)",
-    },
-    confidence_score: {
-      type: Type.NUMBER,
-      description: "A float number between 0.0 and 1.0 (1.0 is highest certainty)",
-    },
-  },
-  required: ["reminder_content", "scheduled_time", "confidence_score"],
+export type { ParseInput, ParseResult, ReminderCommand } from "./parserContract";
+
+export interface ParseOptions {
+  /** Overrides the configured provider, e.g. with a mock in tests. */
+  parser?: ReminderParser;
+  /** Zone relative phrases resolve in; defaults to the browser's. */
+  timeZone?: string;
+  locale?: string;
+  /** Source of "now" for relative phrases and the in-the-past check. */
+  clock?: Clock;
+  /** Existing reminders a command may refer to; see `buildCommandContext`. */
+  context?: ContextReminder[];
+  /** Called once per parse with what it cost and how it went, e.g. `recordTelemetry`. */
+  onTelemetry?: (entry: ParseTelemetryEntry) => void;
+  /** Cancels the model call. A cancelled parse rejects rather than falling back. */
+  signal?: AbortSignal;
+  /**
+   * Whether text may fall back to the local parser when the model fails, or a
+   * check of the model's error, e.g. to skip errors the caller will retry
+   * itself. Defaults to true.
+   */
+  localFallback?: boolean | ((error: unknown) => boolean);
+}
+
+let defaultParser: ReminderParser | null = null;
+
+const getDefaultParser = (): ReminderParser => {
+  // The browser never talks to a model directly; the parse server holds the key.
+  defaultParser ??= createProxyParser({
+    url: clientConfig.parseApiUrl,
+    clientId: getClientId(),
+    telegramInitData: getTelegramWebApp()?.initData,
+  });
+  return defaultParser;
 };
 
-const SYSTEM_INSTRUCTION = `
-You are a highly specialized and precise **Time and Reminder Parsing Agent**. Your sole, critical function is to analyze the provided user text (or audio transcription), and accurately extract two required parameters: the final reminder content, and the exact scheduled date and time.
+const validateResult = (
+  result: ParseResult,
+  options: ValidationOptions
+): { result?: ParseResult; issues: ValidationIssue[] } => {
+  if (result.command) {
+    const issues = validateCommand(result.command, options);
+    return issues.length > 0 ? { issues } : { result, issues };
+  }
+  const validation = validateReminders(result.reminders, options);
+  return validation.data ? { result: { ...result, reminders: validation.data }, issues: [] } : { issues: validation.issues };
+};
 
-### ABSOLUTE OUTPUT RULES
-1.  **Date/Time Format:** The 'scheduled_time' value must be in the strict, absolute **ISO 8601 UTC** format (e.g., YYYY-MM-DDTHH:MM:SSZ).
-2.  **Time Resolution:** You MUST resolve all relative time phrases (e.g., "tomorrow," "in 5 minutes," "next Friday") into an absolute timestamp using the provided NOW reference and User Timezone.
-3.  **Error Handling:** If the input text is ambiguous, impossible to schedule (e.g., "Hello"), or missing a date/time component, you must set the 'scheduled_time' to an empty string ("") and the 'confidence_score' below 0.5.
-`;
+/**
+ * Runs the model and validates its answer. A rejected answer gets exactly one
+ * retry with a correction prompt; a second rejection throws
+ * `ReminderValidationError` with the remaining issues.
+ */
+const parseValidated = async (parser: ReminderParser, request: ParseRequest): Promise<ParseResult> => {
+  const options = { now: request.now, horizonDays: parserConfig.maxHorizonDays };
+  let issues: ValidationIssue[];
 
-export const parseInput = async (
-  input: string | { data: string; mimeType: string }
-): Promise<{ data: ReminderData; rawText: string }> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
+  try {
+    const checked = validateResult(await parser.parse(request), options);
+    if (checked.result) return checked.result;
+    issues = checked.issues;
+  } catch (error) {
+    if (!(error instanceof ReminderValidationError)) throw error;
+    issues = error.issues;
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  const now = new Date();
-  const currentUtc = now.toISOString();
-  const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  console.warn("Model output failed validation, retrying with correction:", issues);
+  const retry = validateResult(await parser.parse({ ...request, correction: buildCorrectionPrompt(issues) }), options);
+  if (!retry.result) throw new ReminderValidationError(retry.issues);
+  return retry.result;
+};
 
-  const contextPrompt = `
-### CONTEXT FOR TIME RESOLUTION
-* **NOW Reference (Current UTC Time):** ${currentUtc}
-* **User Timezone:** ${userTimezone}
+// Two resolved times closer than this are treated as the same answer.
+const CROSS_CHECK_TOLERANCE_MS = 60_000;
 
-### TASK
-Process the user input provided and return the JSON object.
-  `;
+const crossCheck = (model: ReminderData, local: ReminderData): ReminderData => {
+  if (!model.scheduled_time || !local.scheduled_time) return model;
 
-  try {
-    const modelId = "gemini-2.5-flash";
-    
-    let contents: any;
-
-    if (typeof input === 'string') {
-      // Text Input
-      contents = [
-        { text: contextPrompt },
-        { text: `[USER_INPUT]: ${input}` }
-      ];
-    } else {
-      // Audio Input (Multimodal)
-      contents = [
-        { text: contextPrompt },
-        { text: "The following is an audio recording of the reminder. Transcribe and process it." },
-        {
-          inlineData: {
-            mimeType: input.mimeType,
-            data: input.data,
-          }
-        }
-      ];
-    }
+  const delta = Math.abs(Date.parse(model.scheduled_time) - Date.parse(local.scheduled_time));
+  if (delta <= CROSS_CHECK_TOLERANCE_MS) {
+    return { ...model, confidence_score: Math.max(model.confidence_score, local.confidence_score) };
+  }
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts: contents },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: REMINDER_SCHEMA,
-        temperature: 0.1, // Low temperature for precision
-      },
-    });
+  console.warn("Local parser disagrees with model:", { model: model.scheduled_time, local: local.scheduled_time });
+  // Only a confident local result is strong enough evidence against the model.
+  return local.confidence_score >= parserConfig.localConfidenceThreshold
+    ? { ...model, confidence_score: Math.min(model.confidence_score, 0.5) }
+    : model;
+};
 
-    const responseText = response.text;
-    
-    if (!responseText) {
-      throw new Error("No response from Gemini");
-    }
+// Which parser produced the result, and what the model failed with if the
+// local parser had to step in.
+interface ParseTrace {
+  source: "model" | "local";
+  modelError?: unknown;
+}
 
-    const parsedData = JSON.parse(responseText) as ReminderData;
-    
-    // If audio input, we don't have the "raw text" easily available unless we ask for it.
-    // For simplicity in this specific agent task, we assume the result is what matters.
-    // However, to fill the 'originalInput' in history, if it was audio, we might want a transcript.
-    // But the prompt requested strictly JSON output. We will return a placeholder for audio transcript.
-    const rawText = typeof input === 'string' ? input : "(Audio Transcription handled by AI)";
+const runParse = async (
+  input: ParseInput,
+  parser: ReminderParser,
+  { timeZone, locale, clock, context, signal, localFallback = true }: Omit<ParseOptions, "parser" | "onTelemetry"> & { timeZone: string; clock: Clock },
+  trace: ParseTrace
+): Promise<ParseResult> => {
+  const now = clock.now();
+  const { localParserMode, localConfidenceThreshold } = parserConfig;
 
-    return { data: parsedData, rawText };
+  if (typeof input !== "string") {
+    return parseValidated(parser, { input, now, timeZone, locale, context, signal });
+  }
+
+  const local = parseLocally(input, { now, timeZone, locale });
+  // Filing "cancel the dentist" as a new reminder is worse than failing.
+  const maybeCommand = context !== undefined && looksLikeCommand(input);
+
+  if (localParserMode === "first" && !maybeCommand && local.confidence_score >= localConfidenceThreshold) {
+    trace.source = "local";
+    return { reminders: [local], rawText: input };
+  }
+
+  try {
+    const result = await parseValidated(parser, { input, now, timeZone, locale, context, signal });
+    // The local parser only ever finds one reminder, so it can only vouch
+    // for single-reminder answers.
+    if (localParserMode === "cross-check" && !result.command && result.reminders.length === 1) {
+      return { ...result, reminders: [crossCheck(result.reminders[0], local)] };
+    }
+    return result;
+  } catch (error) {
+    const fallback = typeof localFallback === "function" ? localFallback(error) : localFallback;
+    if (maybeCommand || !fallback || signal?.aborted) throw error;
+    console.warn("Falling back to local parser:", error);
+    trace.source = "local";
+    trace.modelError = error;
+    return { reminders: [local], rawText: input };
+  }
+};
 
+/**
+ * Parses text or audio into one or more reminders, combining the configured model
+ * provider with the local rule-based parser according to
+ * `parserConfig.localParserMode`. Audio can only be handled by the model.
+ * Requests to change or look up existing reminders come back as `command`;
+ * only the model understands those, so they never fall back to the local parser.
+ */
+export const parseInput = async (
+  input: ParseInput,
+  {
+    parser = getDefaultParser(),
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+    clock = systemClock,
+    onTelemetry,
+    ...options
+  }: ParseOptions = {}
+): Promise<ParseResult> => {
+  const metered = meterParser(parser);
+  const trace: ParseTrace = { source: "model" };
+  // Latency is real time; the injected clock may be frozen or travelling.
+  const started = Date.now();
+  let failure: unknown;
+
+  try {
+    return await runParse(input, metered, { ...options, timeZone, clock }, trace);
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    failure = error;
     throw error;
+  } finally {
+    const error = failure ?? trace.modelError;
+    onTelemetry?.({
+      at: new Date(started).toISOString(),
+      latencyMs: Date.now() - started,
+      provider: parser.name,
+      model: metered.meter.model,
+      ...describeInput(input),
+      calls: metered.meter.calls,
+      usage: metered.meter.usage,
+      source: trace.source,
+      ok: failure === undefined,
+      ...(error !== undefined
+        ? { errorClass: classifyParseError(error), errorMessage: error instanceof Error ? error.message : String(error) }
+        : {}),
+    });
   }
 };
@@ -0,0 +1,197 @@
+import { HistoryItem } from "../types";
+import { CloudStore } from "./telegram";
+
+// Mirrors the history into Telegram CloudStorage so it follows the user
+// between devices. One key per item; CloudStorage allows 1024 keys of up to
+// 4096 characters, so only the newest items are kept and oversized ones
+// are slimmed or skipped. A deleted item leaves a tombstone key holding when
+// it was deleted, so other devices drop their copy instead of pushing it back.
+
+const KEY_PREFIX = "h_";
+const TOMBSTONE_PREFIX = "d_";
+const KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_VALUE_CHARS = 4096;
+// Together these leave room under the 1024-key limit for other keys.
+export const MAX_CLOUD_ITEMS = 900;
+export const MAX_CLOUD_TOMBSTONES = 100;
+
+const keyFor = (prefix: string, id: string): string | null => {
+  const key = `${prefix}${id}`;
+  return KEY_PATTERN.test(key) ? key : null;
+};
+
+export const cloudKey = (id: string): string | null => keyFor(KEY_PREFIX, id);
+
+/**
+ * The stored form of an item, or `null` if it can't fit. The audit trail
+ * (`originalParse`) and unchosen candidates are dropped first.
+ */
+export const toCloudValue = (item: HistoryItem): string | null => {
+  const full = JSON.stringify(item);
+  if (full.length <= MAX_VALUE_CHARS) return full;
+  const { originalParse, ...rest } = item;
+  const slim = JSON.stringify({ ...rest, candidates: item.clarification ? undefined : item.candidates });
+  return slim.length <= MAX_VALUE_CHARS ? slim : null;
+};
+
+const fromCloudValue = (value: string): HistoryItem | null => {
+  try {
+    const item = JSON.parse(value) as HistoryItem;
+    return typeof item?.id === "string" && typeof item.createdAt === "string" ? item : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The latest moment anything on the item changed, for last-writer-wins merging. */
+export const lastChangedAt = (item: HistoryItem): string =>
+  [
+    item.createdAt,
+    item.editedAt,
+    item.completedAt,
+    item.clarification?.resolvedAt,
+    item.schedule?.updatedAt,
+    item.delivery?.updatedAt,
+  ]
+    .filter((value): value is string => !!value)
+    .reduce((latest, value) => (value > latest ? value : latest), "");
+
+/** Deleted item ids, each with when it was deleted. */
+export type Tombstones = Map<string, string>;
+
+export interface CloudSnapshot {
+  items: HistoryItem[];
+  tombstones: Tombstones;
+  /** What each key held, so unchanged items aren't written again. */
+  stored: Map<string, string>;
+}
+
+export const readCloudHistory = async (store: CloudStore): Promise<CloudSnapshot> => {
+  const keys = (await store.keys()).filter((key) => key.startsWith(KEY_PREFIX) || key.startsWith(TOMBSTONE_PREFIX));
+  const values = await store.get(keys);
+  const items: HistoryItem[] = [];
+  const tombstones: Tombstones = new Map();
+  const stored = new Map<string, string>();
+  for (const [key, value] of Object.entries(values)) {
+    if (key.startsWith(TOMBSTONE_PREFIX)) {
+      tombstones.set(key.slice(TOMBSTONE_PREFIX.length), value);
+    } else {
+      const item = fromCloudValue(value);
+      if (!item) continue;
+      items.push(item);
+    }
+    stored.set(key, value);
+  }
+  return { items, tombstones, stored };
+};
+
+// An edit made after the deletion brings the item back.
+const isBuried = (item: HistoryItem, tombstones: Tombstones): boolean => {
+  const deletedAt = tombstones.get(item.id);
+  return deletedAt !== undefined && deletedAt >= lastChangedAt(item);
+};
+
+/** Cloud items this device lacks, or has an older copy of, and that weren't deleted since. */
+export const itemsToPull = (local: HistoryItem[], remote: HistoryItem[], tombstones: Tombstones = new Map()): HistoryItem[] => {
+  const byId = new Map(local.map((item) => [item.id, item]));
+  return remote.filter((item) => {
+    const mine = byId.get(item.id);
+    return (!mine || lastChangedAt(item) > lastChangedAt(mine)) && !isBuried(item, tombstones);
+  });
+};
+
+/** Ids of local items another device has deleted. */
+export const idsToDelete = (local: HistoryItem[], tombstones: Tombstones): string[] =>
+  local.filter((item) => isBuried(item, tombstones)).map((item) => item.id);
+
+export interface CloudChanges {
+  set: Array<[key: string, value: string]>;
+  remove: string[];
+}
+
+/**
+ * Writes and deletions that make the cloud match `history` (newest first),
+ * with a tombstone for each of the latest deletions. An item that is in
+ * `history` again, e.g. after an undo, loses its tombstone.
+ */
+export const planCloudChanges = (
+  history: HistoryItem[],
+  stored: Map<string, string>,
+  tombstones: Tombstones = new Map()
+): CloudChanges => {
+  const set: CloudChanges["set"] = [];
+  const wanted = new Set<string>();
+  for (const item of history.slice(0, MAX_CLOUD_ITEMS)) {
+    const key = cloudKey(item.id);
+    const value = key && toCloudValue(item);
+    if (!key || !value) continue;
+    wanted.add(key);
+    if (stored.get(key) !== value) set.push([key, value]);
+  }
+  const present = new Set(history.map((item) => item.id));
+  const latest = [...tombstones]
+    .filter(([id]) => !present.has(id))
+    .sort(([, a], [, b]) => b.localeCompare(a))
+    .slice(0, MAX_CLOUD_TOMBSTONES);
+  for (const [id, deletedAt] of latest) {
+    const key = keyFor(TOMBSTONE_PREFIX, id);
+    if (!key) continue;
+    wanted.add(key);
+    if (stored.get(key) !== deletedAt) set.push([key, deletedAt]);
+  }
+  const remove = [...stored.keys()].filter((key) => !wanted.has(key));
+  return { set, remove };
+};
+
+/** Applies `changes` and records them in `stored`. */
+export const pushCloudChanges = async (
+  store: CloudStore,
+  changes: CloudChanges,
+  stored: Map<string, string>
+): Promise<void> => {
+  for (const [key, value] of changes.set) {
+    await store.set(key, value);
+    stored.set(key, value);
+  }
+  if (changes.remove.length > 0) {
+    await store.remove(changes.remove);
+    for (const key of changes.remove) stored.delete(key);
+  }
+};
+
+// Deletions made here that haven't reached the cloud yet wait in
+// localStorage, so a reload before the next sync doesn't lose them.
+const PENDING_DELETIONS_KEY = "chronos-cloud-deletions";
+
+export const loadPendingDeletions = (): Tombstones => {
+  try {
+    const stored = localStorage.getItem(PENDING_DELETIONS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return new Map(parsed && typeof parsed === "object" ? Object.entries(parsed as Record<string, string>) : []);
+  } catch (error) {
+    console.warn("Could not read pending cloud deletions:", error);
+    return new Map();
+  }
+};
+
+const savePendingDeletions = (deletions: Tombstones) => {
+  try {
+    if (deletions.size > 0) localStorage.setItem(PENDING_DELETIONS_KEY, JSON.stringify(Object.fromEntries(deletions)));
+    else localStorage.removeItem(PENDING_DELETIONS_KEY);
+  } catch (error) {
+    console.warn("Could not save pending cloud deletions:", error);
+  }
+};
+
+export const addPendingDeletions = (ids: string[], deletedAt: string) => {
+  const deletions = loadPendingDeletions();
+  for (const id of ids) deletions.set(id, deletedAt);
+  savePendingDeletions(deletions);
+};
+
+/** Forgets deletions once their tombstones are written. */
+export const clearPendingDeletions = (ids: Iterable<string>) => {
+  const deletions = loadPendingDeletions();
+  for (const id of ids) deletions.delete(id);
+  savePendingDeletions(deletions);
+};
@@ -0,0 +1,91 @@
+import { HistoryItem, ReminderData } from "../types";
+import { toIsoUtc } from "./timeZone";
+
+// User-driven changes to saved reminders. Every change to the parsed fields
+// goes through `applyEdit` so the parser's original answer is preserved.
+
+export type ReminderEdit = Partial<ReminderData>;
+
+const PARSE_FIELDS: Array<keyof ReminderData> = [
+  "reminder_content",
+  "scheduled_time",
+  "confidence_score",
+  "recurrence_rule",
+  "recurrence_end",
+  "recurrence_count",
+  "candidates",
+  "clarifying_question",
+  "priority",
+  "category",
+  "tags",
+  "location",
+  "lead_time_minutes",
+];
+
+export const snapshotParse = (item: ReminderData): ReminderData => {
+  const snapshot: Partial<ReminderData> = {};
+  for (const field of PARSE_FIELDS) {
+    if (item[field] !== undefined) (snapshot as Record<string, unknown>)[field] = item[field];
+  }
+  return snapshot as ReminderData;
+};
+
+// Fields the delivery webhook receives; changing one means sending an update.
+const DELIVERED_FIELDS: Array<keyof ReminderData> = [
+  "reminder_content",
+  "scheduled_time",
+  "recurrence_rule",
+  "recurrence_end",
+  "recurrence_count",
+  "location",
+  "lead_time_minutes",
+];
+
+/**
+ * Queues the item to be sent again. If the receiver already has it, the send
+ * is marked as an update so the earlier message is replaced, not duplicated.
+ */
+export const resetDelivery = (item: HistoryItem, now = new Date()): HistoryItem => {
+  if (!item.delivery || item.delivery.status === "skipped") return item;
+  const previouslySent = item.delivery.status === "sent" || item.delivery.previouslySent;
+  return {
+    ...item,
+    delivery: { status: "pending", attempts: 0, updatedAt: toIsoUtc(now), ...(previouslySent ? { previouslySent } : {}) },
+  };
+};
+
+/**
+ * Applies a user edit. The first edit stores the parser's answer in
+ * `originalParse`; a new time resets notification state, and any change the
+ * receiver would see queues a delivery update.
+ */
+export const applyEdit = (item: HistoryItem, edit: ReminderEdit, now = new Date()): HistoryItem => {
+  // A field set to `undefined` in the edit is being cleared, which is a change too.
+  const changed = (field: keyof ReminderData) =>
+    field in edit && JSON.stringify(edit[field]) !== JSON.stringify(item[field]);
+  const timeChanged = changed("scheduled_time");
+  const updatedAt = toIsoUtc(now);
+
+  const edited: HistoryItem = {
+    ...item,
+    ...edit,
+    originalParse: item.originalParse ?? snapshotParse(item),
+    editCount: (item.editCount ?? 0) + 1,
+    editedAt: updatedAt,
+    ...(timeChanged ? { schedule: undefined } : {}),
+  };
+  return DELIVERED_FIELDS.some(changed) ? resetDelivery(edited, now) : edited;
+};
+
+export const setDone = (item: HistoryItem, done: boolean, now = new Date()): HistoryItem => ({
+  ...item,
+  status: done ? "done" : "active",
+  completedAt: done ? toIsoUtc(now) : undefined,
+});
+
+export const isDone = (item: HistoryItem): boolean => item.status === "done";
+
+/** Reads comma-separated tags the way the parser stores them: trimmed, lowercase, unique. */
+export const parseTagList = (text: string): string[] => [
+  ...new Set(text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
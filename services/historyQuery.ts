@@ -0,0 +1,238 @@
+import { HistoryItem, REMINDER_CATEGORIES, REMINDER_PRIORITIES, ReminderCategory, ReminderPriority } from "../types";
+import { ConfidenceBand, ReminderState, confidenceBand, hasValidTime, reminderState } from "./reminderStatus";
+import { WallClock, addDays, getZonedParts, zonedTimeToUtc } from "./timeZone";
+
+// Search, filtering and grouping for the history views. Everything here is
+// pure and linear in the number of items so it stays quick with thousands.
+
+export type StatusFilter = "all" | "active" | ReminderState;
+export type HistorySort = "created" | "scheduled-asc" | "scheduled-desc";
+export type HistoryGroupBy = "none" | "priority" | "category" | "tag" | "location";
+
+export interface HistoryFilter {
+  query: string;
+  confidence: ConfidenceBand | "all";
+  status: StatusFilter;
+  /** Inclusive local dates as `YYYY-MM-DD`, matched against scheduled_time. */
+  from?: string;
+  to?: string;
+  /** "normal" also matches reminders without a priority. */
+  priority?: ReminderPriority;
+  category?: ReminderCategory;
+  tag?: string;
+  /** Substring of the location, case-insensitive. */
+  location?: string;
+}
+
+export const EMPTY_FILTER: HistoryFilter = { query: "", confidence: "all", status: "all" };
+
+export const isFilterActive = (filter: HistoryFilter): boolean =>
+  filter.query.trim() !== "" ||
+  filter.confidence !== "all" ||
+  filter.status !== "all" ||
+  !!filter.from ||
+  !!filter.to ||
+  !!filter.priority ||
+  !!filter.category ||
+  !!filter.tag ||
+  !!filter.location?.trim();
+
+// Items are replaced, never mutated, so their lowercased text can be cached
+// by identity.
+const searchText = new WeakMap<HistoryItem, string>();
+
+const textOf = (item: HistoryItem): string => {
+  let text = searchText.get(item);
+  if (text === undefined) {
+    text = [item.reminder_content, item.originalInput, item.location ?? "", ...(item.tags ?? [])].join("\n").toLowerCase();
+    searchText.set(item, text);
+  }
+  return text;
+};
+
+const parseDateInput = (value: string): WallClock | null => {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? { year: +m[1], month: +m[2], day: +m[3], hour: 0, minute: 0, second: 0 } : null;
+};
+
+const matchesStatus = (item: HistoryItem, status: StatusFilter): boolean => {
+  if (status === "all") return true;
+  const state = reminderState(item);
+  if (status === "active") return state !== "done" && state !== "invalid";
+  return state === status;
+};
+
+const priorityOf = (item: HistoryItem): ReminderPriority => item.priority ?? "normal";
+
+/**
+ * Applies a filter and sort. Every search term must appear in the reminder,
+ * the text it was parsed from, its location or its tags.
+ */
+export const queryHistory = (
+  items: HistoryItem[],
+  filter: HistoryFilter,
+  sort: HistorySort,
+  timeZone: string
+): HistoryItem[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const fromWall = filter.from ? parseDateInput(filter.from) : null;
+  const toWall = filter.to ? parseDateInput(filter.to) : null;
+  const fromMs = fromWall ? zonedTimeToUtc(fromWall, timeZone).getTime() : -Infinity;
+  const toMs = toWall ? zonedTimeToUtc(addDays(toWall, 1), timeZone).getTime() : Infinity;
+  const hasRange = fromWall !== null || toWall !== null;
+  const location = filter.location?.trim().toLowerCase();
+
+  const result = items.filter((item) => {
+    if (filter.confidence !== "all" && confidenceBand(item.confidence_score) !== filter.confidence) return false;
+    if (!matchesStatus(item, filter.status)) return false;
+    if (filter.priority && priorityOf(item) !== filter.priority) return false;
+    if (filter.category && item.category !== filter.category) return false;
+    if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+    if (location && !item.location?.toLowerCase().includes(location)) return false;
+    if (hasRange) {
+      if (!hasValidTime(item)) return false;
+      const at = Date.parse(item.scheduled_time);
+      if (at < fromMs || at >= toMs) return false;
+    }
+    if (terms.length > 0) {
+      const text = textOf(item);
+      if (!terms.every((term) => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  if (sort === "created") return result;
+
+  // Reminders without a time sort last either way.
+  const direction = sort === "scheduled-asc" ? 1 : -1;
+  const timeOf = (item: HistoryItem) => (hasValidTime(item) ? Date.parse(item.scheduled_time) : NaN);
+  return result
+    .map((item) => ({ item, at: timeOf(item) }))
+    .sort((a, b) => {
+      if (Number.isNaN(a.at)) return Number.isNaN(b.at) ? 0 : 1;
+      if (Number.isNaN(b.at)) return -1;
+      return (a.at - b.at) * direction;
+    })
+    .map(({ item }) => item);
+};
+
+/** Every tag in use, most used first, for filter suggestions. */
+export const collectTags = (items: HistoryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+export interface FieldGroup {
+  /** The priority, category, tag or location; "" for items without one. */
+  key: string;
+  items: HistoryItem[];
+}
+
+// Most urgent first; categories in their declared order.
+const PRIORITY_ORDER = [...REMINDER_PRIORITIES].reverse();
+
+const groupKeys = (item: HistoryItem, groupBy: Exclude<HistoryGroupBy, "none">): string[] => {
+  switch (groupBy) {
+    case "priority":
+      return [priorityOf(item)];
+    case "category":
+      return [item.category ?? ""];
+    case "tag":
+      return item.tags?.length ? item.tags : [""];
+    case "location":
+      return [item.location?.trim() ?? ""];
+  }
+};
+
+/**
+ * Groups reminders by one of their details, keeping their order within each
+ * group. A reminder with several tags appears under each of them; those
+ * without the detail come last under "".
+ */
+export const groupHistory = (items: HistoryItem[], groupBy: Exclude<HistoryGroupBy, "none">): FieldGroup[] => {
+  const groups = new Map<string, HistoryItem[]>();
+  for (const item of items) {
+    for (const key of groupKeys(item, groupBy)) {
+      const group = groups.get(key);
+      if (group) group.push(item);
+      else groups.set(key, [item]);
+    }
+  }
+
+  const rank = (key: string): number => {
+    if (key === "") return Infinity;
+    if (groupBy === "priority") return PRIORITY_ORDER.indexOf(key as ReminderPriority);
+    if (groupBy === "category") return REMINDER_CATEGORIES.indexOf(key as ReminderCategory);
+    // Tags and places: the biggest groups first.
+    return -groups.get(key)!.length;
+  };
+  return [...groups.entries()]
+    .map(([key, groupItems]) => ({ key, items: groupItems }))
+    .sort((a, b) => rank(a.key) - rank(b.key) || a.key.localeCompare(b.key));
+};
+
+/** `YYYY-MM-DD` of an instant in `timeZone`. */
+export const dayKey = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+export interface DayGroup {
+  day: string;
+  items: HistoryItem[];
+}
+
+/**
+ * Groups reminders by local day, in time order. Pass `from` to keep only
+ * reminders at or after it, e.g. the start of today for an agenda.
+ */
+export const groupByDay = (items: HistoryItem[], timeZone: string, from?: Date): DayGroup[] => {
+  const fromMs = from ? from.getTime() : -Infinity;
+  const timed = items
+    .filter((item) => hasValidTime(item) && Date.parse(item.scheduled_time) >= fromMs)
+    .sort((a, b) => Date.parse(a.scheduled_time) - Date.parse(b.scheduled_time));
+
+  const groups: DayGroup[] = [];
+  for (const item of timed) {
+    const day = dayKey(new Date(item.scheduled_time), timeZone);
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) last.items.push(item);
+    else groups.push({ day, items: [item] });
+  }
+  return groups;
+};
+
+export interface CalendarDay {
+  day: string;
+  date: number;
+  inMonth: boolean;
+}
+
+/**
+ * The weeks shown for a month, padded to whole weeks. `weekStart` is 0 for
+ * Sunday, 1 for Monday, 6 for Saturday.
+ */
+export const buildMonthGrid = (year: number, month: number, weekStart: number): CalendarDay[][] => {
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const lead = (first.getUTCDay() - weekStart + 7) % 7;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const weekCount = Math.ceil((lead + daysInMonth) / 7);
+
+  const weeks: CalendarDay[][] = [];
+  for (let w = 0; w < weekCount; w++) {
+    const week: CalendarDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = new Date(Date.UTC(year, month - 1, 1 + w * 7 + d - lead));
+      week.push({
+        day: date.toISOString().slice(0, 10),
+        date: date.getUTCDate(),
+        inMonth: date.getUTCMonth() === month - 1,
+      });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
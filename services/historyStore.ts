@@ -0,0 +1,172 @@
+import { HistoryItem } from "../types";
+
+const DB_NAME = "chronos";
+const HISTORY_STORE = "history";
+const CHANNEL_NAME = "chronos-history";
+
+// Each entry upgrades the database from version `index` to `index + 1`.
+// Append new migrations to the end; never edit one that has shipped.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  (db) => {
+    const store = db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+    store.createIndex("createdAt", "createdAt");
+  },
+  (_db, tx) => {
+    tx.objectStore(HISTORY_STORE).createIndex("deliveryStatus", "delivery.status");
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+export type HistoryChange =
+  | { type: "put"; item: HistoryItem }
+  | { type: "delete"; id: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(change: HistoryChange) => void>();
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema: step aside so it isn't blocked,
+      // and reopen lazily on the next call.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn("History database upgrade is blocked by another open tab");
+    };
+  });
+
+  return dbPromise;
+};
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === "undefined") return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<HistoryChange>) => {
+    listeners.forEach((listener) => listener(event.data));
+  };
+  return channel;
+};
+
+const notify = (change: HistoryChange) => {
+  listeners.forEach((listener) => listener(change));
+  getChannel()?.postMessage(change);
+};
+
+/**
+ * Returns every stored history item, newest first.
+ */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, "readonly");
+  const items = await promisify(
+    tx.objectStore(HISTORY_STORE).index("createdAt").getAll() as IDBRequest<HistoryItem[]>
+  );
+  return items.reverse();
+};
+
+/**
+ * Inserts or replaces a history item and notifies every open tab.
+ */
+export const saveHistoryItem = async (item: HistoryItem): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, "readwrite");
+  tx.objectStore(HISTORY_STORE).put(item);
+  await transactionDone(tx);
+  notify({ type: "put", item });
+};
+
+/**
+ * Rewrites the stored version of an item in one transaction, so whatever was
+ * saved since the caller last read it survives. `update` returns `undefined`
+ * to leave the item as it is; nothing happens if the item is gone.
+ */
+export const updateHistoryItem = async (
+  id: string,
+  update: (item: HistoryItem) => HistoryItem | undefined
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, "readwrite");
+  const store = tx.objectStore(HISTORY_STORE);
+  const stored = await promisify(store.get(id) as IDBRequest<HistoryItem | undefined>);
+  const updated = stored && update(stored);
+  if (updated) store.put(updated);
+  await transactionDone(tx);
+  if (updated) notify({ type: "put", item: updated });
+};
+
+/**
+ * Returns items whose webhook delivery has not succeeded yet, oldest first.
+ */
+export const loadOutbox = async (): Promise<HistoryItem[]> => {
+  const db = await openDb();
+  const index = db.transaction(HISTORY_STORE, "readonly").objectStore(HISTORY_STORE).index("deliveryStatus");
+  const [pending, failed] = await Promise.all([
+    promisify(index.getAll("pending") as IDBRequest<HistoryItem[]>),
+    promisify(index.getAll("failed") as IDBRequest<HistoryItem[]>),
+  ]);
+  return [...pending, ...failed].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, "readwrite");
+  tx.objectStore(HISTORY_STORE).delete(id);
+  await transactionDone(tx);
+  notify({ type: "delete", id });
+};
+
+/**
+ * Subscribes to changes made by this tab or any other tab sharing the store.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToHistory = (listener: (change: HistoryChange) => void): (() => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
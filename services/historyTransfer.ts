@@ -0,0 +1,108 @@
+import { HistoryItem } from "../types";
+import { exportIcs, parseIcs } from "./ical";
+
+// Whole-history backup and restore. JSON keeps every field, including
+// delivery and schedule state; .ics is for other calendar apps and keeps the
+// reminder itself (see ical.ts).
+
+const JSON_FORMAT = "chronos-history";
+const JSON_VERSION = 1;
+
+interface HistoryExport {
+  format: typeof JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: HistoryItem[];
+}
+
+export type HistoryImportErrorCode = "invalid_json" | "no_list" | "empty";
+
+export class HistoryImportError extends Error {
+  readonly code: HistoryImportErrorCode;
+
+  constructor(code: HistoryImportErrorCode, message: string) {
+    super(message);
+    this.name = "HistoryImportError";
+    this.code = code;
+  }
+}
+
+export const exportJson = (items: HistoryItem[]): string => {
+  const payload: HistoryExport = {
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isHistoryItem = (value: unknown): value is HistoryItem => {
+  if (!value || typeof value !== "object") return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === "string" &&
+    typeof item.createdAt === "string" &&
+    typeof item.reminder_content === "string" &&
+    typeof item.scheduled_time === "string" &&
+    typeof item.confidence_score === "number"
+  );
+};
+
+const parseJson = (text: string): HistoryItem[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new HistoryImportError("invalid_json", "The file isn't valid JSON.");
+  }
+
+  // Accept our envelope or a bare array of items.
+  const items = Array.isArray(parsed) ? parsed : (parsed as Partial<HistoryExport> | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new HistoryImportError("no_list", "The JSON file doesn't contain a list of reminders.");
+  }
+
+  const valid = items.filter(isHistoryItem).map((item) => ({ ...item, originalInput: item.originalInput ?? "" }));
+  if (valid.length < items.length) {
+    console.warn(`Skipped ${items.length - valid.length} malformed reminders in import.`);
+  }
+  return valid;
+};
+
+/**
+ * Reads a backup file, picking the format from its name or, failing that,
+ * its contents. Throws HistoryImportError when nothing usable is found.
+ */
+export const parseHistoryFile = (
+  fileName: string,
+  text: string,
+  timeZone: string,
+  generateId: () => string
+): HistoryItem[] => {
+  const isIcs = /\.ics$/i.test(fileName) || text.trimStart().startsWith("BEGIN:VCALENDAR");
+  const items = isIcs ? parseIcs(text, timeZone, generateId) : parseJson(text);
+  if (items.length === 0) {
+    throw new HistoryImportError("empty", "No reminders were found in that file.");
+  }
+  return items;
+};
+
+/** Offers `content` to the user as a file download. */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadIcs = (items: HistoryItem[], fileName = "chronos-reminders.ics") =>
+  downloadFile(fileName, exportIcs(items), "text/calendar");
+
+export const downloadJson = (items: HistoryItem[], fileName = "chronos-history.json") =>
+  downloadFile(fileName, exportJson(items), "application/json");
@@ -0,0 +1,24 @@
+import { SupportedLanguage } from "./language";
+import { Catalogue, MessageKey, en } from "./locales/en";
+import { ru } from "./locales/ru";
+import { uz } from "./locales/uz";
+
+// UI string lookup. Components get a `t` function for the user's language
+// rather than hard-coding English.
+
+export type { MessageKey };
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const CATALOGUES: Record<SupportedLanguage, Catalogue> = { en, ru, uz };
+
+/**
+ * Returns `t` for a language. Missing keys fall back to English, and
+ * `{name}` placeholders are replaced from `params`.
+ */
+export const createTranslator = (language: SupportedLanguage): Translate => {
+  const catalogue = CATALOGUES[language];
+  return (key, params) => {
+    const template = catalogue[key] ?? en[key] ?? key;
+    return params ? template.replace(/\{(\w+)\}/g, (match, name: string) => String(params[name] ?? match)) : template;
+  };
+};
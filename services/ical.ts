@@ -0,0 +1,355 @@
+import { HistoryItem, REMINDER_CATEGORIES, ReminderCategory, TimeCandidate } from "../types";
+import { isDone } from "./historyEdits";
+import { hasValidTime, needsClarification } from "./reminderStatus";
+import { toIsoUtc, zonedTimeToUtc } from "./timeZone";
+
+// RFC 5545 export and import. Reminders become VEVENTs (or VTODOs) with a
+// VALARM at the scheduled time and one per lead time; Chronos-only fields
+// ride along as X- properties so a file exported here imports back without
+// loss.
+
+export type IcsComponent = "VEVENT" | "VTODO";
+
+export interface IcsExportOptions {
+  component?: IcsComponent;
+  /** Minutes the calendar event occupies; reminders are points in time. */
+  durationMinutes?: number;
+}
+
+const PRODID = "-//Chronos//Smart Reminder Parser//EN";
+const UID_SUFFIX = "@chronos";
+const X_CONFIDENCE = "X-CHRONOS-CONFIDENCE";
+const X_ORIGINAL_INPUT = "X-CHRONOS-ORIGINAL-INPUT";
+const X_CREATED = "X-CHRONOS-CREATED";
+const X_SOURCE_TZ = "X-CHRONOS-SOURCE-TZ";
+const X_CATEGORY = "X-CHRONOS-CATEGORY";
+const X_LANGUAGE = "X-CHRONOS-LANGUAGE";
+const X_QUESTION = "X-CHRONOS-QUESTION";
+// One per competing reading: the UTC time, then `;` and the escaped rationale.
+const X_CANDIDATE = "X-CHRONOS-CANDIDATE";
+
+// RFC 5545 PRIORITY: 1 is highest, 9 lowest, 0 undefined.
+const ICS_PRIORITY = { high: 1, low: 9 } as const;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+
+const toIcsUtc = (iso: string) => toIsoUtc(new Date(iso)).replace(/[-:]/g, "");
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets are folded with CRLF + space, without
+// splitting a multi-byte character.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const toIcsDuration = (minutes: number): string =>
+  minutes % 1440 === 0 ? `P${minutes / 1440}D` : minutes % 60 === 0 ? `PT${minutes / 60}H` : `PT${minutes}M`;
+
+// Only alarms before the start count as lead times.
+const parseLeadTrigger = ({ value, params }: IcsProperty): number | null => {
+  if (params.VALUE === "DATE-TIME" || params.RELATED === "END") return null;
+  const m = value.match(/^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!m) return null;
+  const minutes = (+(m[1] ?? 0) * 7 + +(m[2] ?? 0)) * 1440 + +(m[3] ?? 0) * 60 + +(m[4] ?? 0);
+  return minutes > 0 ? minutes : null;
+};
+
+const buildRRule = (item: HistoryItem): string | null => {
+  if (!item.recurrence_rule) return null;
+  const parts = item.recurrence_rule.split(";").filter((part) => !/^(UNTIL|COUNT)=/i.test(part));
+  const hasCount = /(^|;)COUNT=/i.test(item.recurrence_rule);
+  const hasUntil = /(^|;)UNTIL=/i.test(item.recurrence_rule);
+  // COUNT and UNTIL are mutually exclusive in RFC 5545; prefer COUNT.
+  if (item.recurrence_count) parts.push(`COUNT=${item.recurrence_count}`);
+  else if (item.recurrence_end) parts.push(`UNTIL=${toIcsUtc(item.recurrence_end)}`);
+  else if (hasCount || hasUntil) return item.recurrence_rule;
+  return parts.join(";");
+};
+
+const buildComponent = (
+  item: HistoryItem,
+  component: IcsComponent,
+  durationMinutes: number,
+  stamp: string
+): string[] => {
+  const summary = item.reminder_content || item.originalInput;
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${item.id}${UID_SUFFIX}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(summary)}`,
+  ];
+
+  if (component === "VEVENT") {
+    lines.push(`DTSTART:${toIcsUtc(item.scheduled_time)}`, `DURATION:PT${durationMinutes}M`);
+  } else if (hasValidTime(item)) {
+    lines.push(`DTSTART:${toIcsUtc(item.scheduled_time)}`, `DUE:${toIcsUtc(item.scheduled_time)}`);
+    lines.push(`STATUS:${isDone(item) ? "COMPLETED" : "NEEDS-ACTION"}`);
+    if (item.completedAt) lines.push(`COMPLETED:${toIcsUtc(item.completedAt)}`);
+  }
+
+  if (item.originalInput && item.originalInput !== summary) {
+    lines.push(`DESCRIPTION:${escapeText(item.originalInput)}`);
+  }
+
+  const rrule = hasValidTime(item) ? buildRRule(item) : null;
+  if (rrule) lines.push(`RRULE:${rrule}`);
+
+  lines.push(
+    `${X_CONFIDENCE}:${item.confidence_score}`,
+    `${X_ORIGINAL_INPUT}:${escapeText(item.originalInput)}`,
+    `${X_CREATED}:${toIcsUtc(item.createdAt)}`
+  );
+  if (item.source_timezone) lines.push(`${X_SOURCE_TZ}:${item.source_timezone}`);
+  if (item.language) lines.push(`${X_LANGUAGE}:${item.language}`);
+  // Only open questions travel; a settled reminder imports as settled.
+  if (needsClarification(item)) {
+    for (const candidate of item.candidates!) {
+      lines.push(`${X_CANDIDATE}:${toIcsUtc(candidate.scheduled_time)};${escapeText(candidate.rationale)}`);
+    }
+    if (item.clarifying_question) lines.push(`${X_QUESTION}:${escapeText(item.clarifying_question)}`);
+  }
+
+  if (item.priority && item.priority !== "normal") lines.push(`PRIORITY:${ICS_PRIORITY[item.priority]}`);
+  if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`);
+  const categories = [...new Set([...(item.category ? [item.category] : []), ...(item.tags ?? [])])];
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(",")}`);
+  if (item.category) lines.push(`${X_CATEGORY}:${item.category}`);
+
+  if (hasValidTime(item)) {
+    for (const trigger of ["PT0M", ...(item.lead_time_minutes ?? []).map((minutes) => `-${toIcsDuration(minutes)}`)]) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(summary)}`,
+        `TRIGGER;RELATED=START:${trigger}`,
+        "END:VALARM"
+      );
+    }
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * Serialises reminders to an iCalendar file. Reminders without a usable time
+ * can't be events and are left out of VEVENT exports.
+ */
+export const exportIcs = (
+  items: HistoryItem[],
+  { component = "VEVENT", durationMinutes = 15 }: IcsExportOptions = {}
+): string => {
+  const stamp = toIcsUtc(new Date().toISOString());
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+
+  for (const item of items) {
+    if (component === "VEVENT" && !hasValidTime(item)) continue;
+    lines.push(...buildComponent(item, component, durationMinutes, stamp));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfold = (text: string): string[] => text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(Boolean);
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ""] = param.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Fallback wall-clock time for all-day (DATE) values.
+const ALL_DAY_HOUR = 9;
+
+const parseIcsTime = ({ value, params }: IcsProperty, defaultTimeZone: string): string | null => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const wall = {
+    year: +m[1],
+    month: +m[2],
+    day: +m[3],
+    hour: m[4] ? +m[4] : ALL_DAY_HOUR,
+    minute: m[5] ? +m[5] : 0,
+    second: m[6] ? +m[6] : 0,
+  };
+  if (m[7]) {
+    return toIsoUtc(new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)));
+  }
+  try {
+    return toIsoUtc(zonedTimeToUtc(wall, params.TZID || defaultTimeZone));
+  } catch {
+    return toIsoUtc(zonedTimeToUtc(wall, defaultTimeZone));
+  }
+};
+
+/**
+ * Reads VEVENTs and VTODOs from an iCalendar file. Files exported by Chronos
+ * keep their ids, so importing one twice updates rather than duplicates.
+ * Times without a zone are read in `defaultTimeZone`.
+ */
+export const parseIcs = (text: string, defaultTimeZone: string, generateId: () => string): HistoryItem[] => {
+  const items: HistoryItem[] = [];
+  let current: IcsProperty[] | null = null;
+  let triggers: IcsProperty[] = [];
+  let depth = 0;
+
+  for (const line of unfold(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN" && (property.value === "VEVENT" || property.value === "VTODO") && !current) {
+      current = [];
+      triggers = [];
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Nested components such as VALARM only contribute their triggers.
+    if (property.name === "BEGIN") depth++;
+    else if (property.name === "END" && depth > 0) depth--;
+    else if (property.name === "END") {
+      const item = toHistoryItem(current, triggers, defaultTimeZone, generateId);
+      if (item) items.push(item);
+      current = null;
+    } else if (depth === 0) {
+      current.push(property);
+    } else if (property.name === "TRIGGER") {
+      triggers.push(property);
+    }
+  }
+
+  return items;
+};
+
+const toHistoryItem = (
+  properties: IcsProperty[],
+  triggers: IcsProperty[],
+  defaultTimeZone: string,
+  generateId: () => string
+): HistoryItem | null => {
+  const get = (name: string) => properties.find((p) => p.name === name);
+
+  const start = get("DTSTART") ?? get("DUE");
+  const scheduled_time = start ? parseIcsTime(start, defaultTimeZone) : null;
+  const summary = get("SUMMARY");
+  if (!summary && !scheduled_time) return null;
+
+  const uid = get("UID")?.value ?? "";
+  const confidence = Number(get(X_CONFIDENCE)?.value);
+  const originalInput = get(X_ORIGINAL_INPUT) ?? get("DESCRIPTION") ?? summary;
+  const created = get(X_CREATED);
+
+  const item: HistoryItem = {
+    id: uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : uid || generateId(),
+    createdAt: (created && parseIcsTime(created, defaultTimeZone)) || toIsoUtc(new Date()),
+    originalInput: originalInput ? unescapeText(originalInput.value) : "",
+    reminder_content: summary ? unescapeText(summary.value) : "",
+    scheduled_time: scheduled_time ?? "",
+    // Events from other calendars were entered by a person, so they're certain.
+    confidence_score: Number.isFinite(confidence) ? confidence : scheduled_time ? 1 : 0,
+  };
+
+  const sourceZone = get(X_SOURCE_TZ)?.value;
+  if (sourceZone) item.source_timezone = sourceZone;
+  const language = get(X_LANGUAGE)?.value;
+  if (language) item.language = language;
+
+  // An ambiguous reminder keeps its readings, so it still asks which one was meant.
+  const candidates = properties
+    .filter((p) => p.name === X_CANDIDATE)
+    .map(({ value }) => {
+      const m = value.match(/^([^;]+);(.*)$/);
+      const time = m && parseIcsTime({ name: X_CANDIDATE, params: {}, value: m[1] }, defaultTimeZone);
+      return time ? { scheduled_time: time, rationale: unescapeText(m![2]) } : null;
+    })
+    .filter((candidate): candidate is TimeCandidate => candidate !== null);
+  if (candidates.length > 0) item.candidates = candidates;
+  const question = get(X_QUESTION)?.value;
+  if (question) item.clarifying_question = unescapeText(question);
+
+  const priority = Number(get("PRIORITY")?.value);
+  if (priority >= 1 && priority <= 4) item.priority = "high";
+  else if (priority >= 6 && priority <= 9) item.priority = "low";
+
+  const location = get("LOCATION")?.value;
+  if (location) item.location = unescapeText(location);
+
+  // Other calendars' categories become tags; ours marks which one is the category.
+  const category = get(X_CATEGORY)?.value as ReminderCategory | undefined;
+  if (category && REMINDER_CATEGORIES.includes(category)) item.category = category;
+  const tags = properties
+    .filter((p) => p.name === "CATEGORIES")
+    .flatMap((p) => p.value.split(/(?<!\\),/))
+    .map((tag) => unescapeText(tag).trim().toLowerCase())
+    .filter((tag) => tag && tag !== item.category);
+  if (tags.length > 0) item.tags = [...new Set(tags)];
+
+  const leadTimes = [...new Set(triggers.map(parseLeadTrigger).filter((m): m is number => m !== null))];
+  if (leadTimes.length > 0) item.lead_time_minutes = leadTimes.sort((a, b) => b - a);
+
+  const rrule = get("RRULE")?.value;
+  if (rrule) {
+    const parts = rrule.split(";");
+    const count = parts.find((part) => /^COUNT=/i.test(part));
+    const until = parts.find((part) => /^UNTIL=/i.test(part));
+    item.recurrence_rule = parts.filter((part) => part !== count && part !== until).join(";");
+    if (count) item.recurrence_count = Number(count.split("=")[1]);
+    if (until) {
+      const end = parseIcsTime({ name: "UNTIL", params: {}, value: until.split("=")[1] }, defaultTimeZone);
+      if (end) item.recurrence_end = end;
+    }
+  }
+
+  if (get("STATUS")?.value === "COMPLETED") {
+    item.status = "done";
+    const completed = get("COMPLETED");
+    item.completedAt = (completed && parseIcsTime(completed, defaultTimeZone)) || undefined;
+  }
+
+  return item;
+};
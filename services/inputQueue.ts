@@ -0,0 +1,378 @@
+import { QueueConfig, queueConfig } from "./config";
+import { ParseApiError } from "./parseApi";
+import { ParseInput, ParseResult } from "./parserContract";
+import { ParseErrorClass, classifyParseError } from "./parseTelemetry";
+
+// Runs submissions through the parser one at a time. Each attempt gets a
+// timeout and can be cancelled; transient failures are retried with
+// exponential backoff, and anything submitted or interrupted while offline
+// waits in localStorage until the browser is back online, even across
+// reloads.
+//
+// Tabs share the stored queue. Each item belongs to the tab that submitted
+// it, and a tab only writes its own items. Every tab holds a Web Lock named
+// after itself while it is open; another tab takes over the items once that
+// lock is free, i.e. once the owner has closed, and only one tab gets them.
+
+/**
+ * - `queued`: waiting its turn.
+ * - `processing`: the parser is working on it.
+ * - `retrying`: a transient failure; tries again at `retryAt`.
+ * - `offline`: waits for connectivity.
+ * - `failed`: gave up; can be retried or dismissed by hand.
+ */
+export type QueuedInputStatus = "queued" | "processing" | "retrying" | "offline" | "failed";
+
+export interface QueuedInput {
+  id: string;
+  /** The tab (queue instance) that runs this item. */
+  owner: string;
+  input: ParseInput;
+  /** Show the result for review instead of saving it. */
+  review: boolean;
+  /** App-clock time of submission; relative phrases resolve against it, however late the parse. */
+  submittedAt: string;
+  status: QueuedInputStatus;
+  /** Attempts made since the last submit, retry by hand or reconnect. */
+  attempts: number;
+  retryAt?: string;
+  errorClass?: ParseErrorClass;
+  /** Set when this re-parses reminder `id` with the user's answer to its clarifying question. */
+  answering?: { id: string; answer: string };
+}
+
+export type SubmitOptions = Pick<QueuedInput, "review" | "answering"> & { submittedAt: Date };
+
+export interface AttemptOptions {
+  signal: AbortSignal;
+  /**
+   * Whether the queue would try again after this error, either later or once
+   * back online. When it wouldn't, falling back locally beats failing.
+   */
+  willRetry: (error: unknown) => boolean;
+}
+
+export interface InputQueueOptions {
+  parse: (item: QueuedInput, options: AttemptOptions) => Promise<ParseResult>;
+  /** Handles a finished parse; the item leaves the queue once this settles. */
+  onResult: (item: QueuedInput, result: ParseResult) => Promise<void>;
+  /** Called when an item fails for good, or when `onResult` throws. */
+  onFailure?: (item: QueuedInput, error: unknown) => void;
+  onChange: (items: QueuedInput[]) => void;
+  generateId: () => string;
+  config?: QueueConfig;
+  isOnline?: () => boolean;
+  storage?: Pick<Storage, "getItem" | "setItem" | "removeItem">;
+  /** Without locks (e.g. outside a browser) this queue takes every stored item. */
+  locks?: LockManager;
+}
+
+export interface InputQueue {
+  submit(input: ParseInput, options: SubmitOptions): QueuedInput;
+  /**
+   * Like `submit`, for callers that wait on the outcome: settles once
+   * `onResult` has handled the item, and rejects if it fails for good, is
+   * cancelled or the queue stops. Items restored after a reload have nobody
+   * waiting and only go through `onResult`.
+   */
+  enqueue(input: ParseInput, options: SubmitOptions): Promise<void>;
+  /** Aborts the item if it is running and drops it from the queue. */
+  cancel(id: string): void;
+  /** Puts a failed item back in line with a fresh set of attempts. */
+  retry(id: string): void;
+  /** Drops a failed item. */
+  dismiss(id: string): void;
+  /** Starts processing; call once whatever `onResult` needs is ready. */
+  start(): void;
+  /** Re-queues offline items; call when connectivity returns. */
+  resume(): void;
+  stop(): void;
+}
+
+const STORAGE_KEY = "chronos-input-queue";
+const LOCK_PREFIX = "chronos-input-queue:";
+// Audio this large would crowd everything else out of localStorage, so it
+// only waits in memory.
+const MAX_PERSISTED_AUDIO_CHARS = 1_000_000;
+
+// Failures where the same request may well succeed a little later.
+const TRANSIENT_ERRORS = new Set<ParseErrorClass>(["network", "timeout", "rate_limited", "upstream"]);
+
+const loadPersisted = (storage: InputQueueOptions["storage"]): QueuedInput[] => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn("Could not read the input queue:", error);
+    return [];
+  }
+};
+
+// Items stored before owners existed have none; they go to whichever tab
+// claims them first.
+const ownerOf = (item: QueuedInput) => item.owner ?? "";
+
+export const createInputQueue = ({
+  parse,
+  onResult,
+  onFailure,
+  onChange,
+  generateId,
+  config = queueConfig,
+  isOnline = () => navigator.onLine,
+  storage = typeof localStorage === "undefined" ? undefined : localStorage,
+  locks = typeof navigator === "undefined" ? undefined : navigator.locks,
+}: InputQueueOptions): InputQueue => {
+  const owner = generateId();
+  const items = new Map<string, QueuedInput>();
+  // Aborts pending lock requests when the queue stops.
+  const lifetime = new AbortController();
+  const controllers = new Map<string, AbortController>();
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const waiters = new Map<string, { resolve: () => void; reject: (error: unknown) => void }>();
+  let started = false;
+  let running = false;
+
+  // Rewrites this tab's share of the stored queue, leaving other tabs' items.
+  const persist = () => {
+    const pending = [...items.values()].filter(
+      (item) => typeof item.input === "string" || item.input.data.length <= MAX_PERSISTED_AUDIO_CHARS
+    );
+    const others = loadPersisted(storage).filter((item) => ownerOf(item) !== owner && !items.has(item.id));
+    const stored = [...others, ...pending];
+    try {
+      if (stored.length > 0) storage?.setItem(STORAGE_KEY, JSON.stringify(stored));
+      else storage?.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn("Could not save the input queue:", error);
+    }
+  };
+
+  const changed = () => {
+    persist();
+    onChange([...items.values()]);
+  };
+
+  const update = (id: string, patch: Partial<QueuedInput>): QueuedInput | undefined => {
+    const item = items.get(id);
+    if (!item) return undefined;
+    const next = { ...item, ...patch };
+    items.set(id, next);
+    changed();
+    return next;
+  };
+
+  const remove = (id: string) => {
+    const timer = retryTimers.get(id);
+    if (timer) clearTimeout(timer);
+    retryTimers.delete(id);
+    if (items.delete(id)) changed();
+  };
+
+  const settle = (id: string, error?: unknown) => {
+    const waiter = waiters.get(id);
+    waiters.delete(id);
+    if (error === undefined) waiter?.resolve();
+    else waiter?.reject(error);
+  };
+
+  const scheduleRetry = (item: QueuedInput, error: unknown) => {
+    const backoff = config.baseDelayMs * 2 ** (item.attempts - 1);
+    const delay = Math.max(backoff, error instanceof ParseApiError ? error.retryAfterMs ?? 0 : 0);
+    update(item.id, {
+      status: "retrying",
+      retryAt: new Date(Date.now() + delay).toISOString(),
+      errorClass: classifyParseError(error),
+    });
+    retryTimers.set(item.id, setTimeout(() => {
+      retryTimers.delete(item.id);
+      update(item.id, { status: "queued", retryAt: undefined });
+      pump();
+    }, delay));
+  };
+
+  // What happens to an item after a failed attempt.
+  const retryPlan = (item: QueuedInput, error: unknown): "offline" | "backoff" | "none" => {
+    const errorClass = classifyParseError(error);
+    if (errorClass === "network" && !isOnline()) return "offline";
+    if (TRANSIENT_ERRORS.has(errorClass) && item.attempts < config.maxAttempts) return "backoff";
+    return "none";
+  };
+
+  const run = async (queued: QueuedInput) => {
+    const item = update(queued.id, { status: "processing", attempts: queued.attempts + 1, errorClass: undefined })!;
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    const timer = setTimeout(
+      () => controller.abort(new ParseApiError("timeout", `No answer within ${config.timeoutMs / 1000}s`)),
+      config.timeoutMs
+    );
+
+    try {
+      let result: ParseResult;
+      try {
+        result = await parse(item, { signal: controller.signal, willRetry: (error) => retryPlan(item, error) !== "none" });
+      } finally {
+        clearTimeout(timer);
+        controllers.delete(item.id);
+      }
+      // Cancelled or stopped while the answer was on its way.
+      if (!started || !items.has(item.id)) return;
+      try {
+        await onResult(item, result);
+      } catch (error) {
+        // The parse worked but its result was lost, e.g. it couldn't be saved;
+        // keep the input so it can be retried.
+        console.error("Failed to handle parse result:", error);
+        update(item.id, { status: "failed", errorClass: classifyParseError(error) });
+        onFailure?.(item, error);
+        settle(item.id, error);
+        return;
+      }
+      remove(item.id);
+      settle(item.id);
+    } catch (error) {
+      if (!started || !items.has(item.id)) return;
+      const plan = retryPlan(item, error);
+      if (plan === "offline") {
+        // Not the request's fault; it gets a full set of attempts once online.
+        update(item.id, { status: "offline", attempts: 0, errorClass: classifyParseError(error) });
+      } else if (plan === "backoff") {
+        scheduleRetry(item, error);
+      } else {
+        update(item.id, { status: "failed", errorClass: classifyParseError(error) });
+        onFailure?.(item, error);
+        settle(item.id, error);
+      }
+    }
+  };
+
+  const pump = () => {
+    if (!started || running) return;
+    const next = [...items.values()].find((item) => item.status === "queued");
+    if (!next) return;
+    if (!isOnline()) {
+      for (const item of items.values()) {
+        if (item.status === "queued") items.set(item.id, { ...item, status: "offline" });
+      }
+      changed();
+      return;
+    }
+    running = true;
+    run(next).finally(() => {
+      running = false;
+      pump();
+    });
+  };
+
+  // Takes over the stored items of a tab that has gone. Callers hold that
+  // tab's lock, so the read and rewrite can't interleave with another claim.
+  const claim = (from: string) => {
+    if (lifetime.signal.aborted) return;
+    const claimed = loadPersisted(storage).filter((item) => ownerOf(item) === from);
+    if (claimed.length === 0) return;
+    for (const item of claimed) {
+      // Whatever was running when the page closed starts over.
+      items.set(item.id, item.status === "failed"
+        ? { ...item, owner }
+        : { ...item, owner, status: "queued", attempts: 0, retryAt: undefined });
+    }
+    changed();
+    pump();
+  };
+
+  if (locks) {
+    // Held until the queue stops, so other tabs know this one is alive.
+    locks.request(LOCK_PREFIX + owner, () => new Promise<void>((release) => {
+      if (lifetime.signal.aborted) release();
+      else lifetime.signal.addEventListener("abort", () => release());
+    })).catch((error) => console.warn("Could not lock the input queue:", error));
+    // Granted straight away for tabs that have closed, otherwise once they do.
+    const owners = new Set(loadPersisted(storage).map(ownerOf));
+    for (const other of owners) {
+      locks.request(LOCK_PREFIX + other, { signal: lifetime.signal }, () => claim(other)).catch((error) => {
+        if (!lifetime.signal.aborted) console.warn("Could not claim queued inputs:", error);
+      });
+    }
+  } else {
+    new Set(loadPersisted(storage).map(ownerOf)).forEach(claim);
+  }
+
+  const submit = (input: ParseInput, { review, answering, submittedAt }: SubmitOptions): QueuedInput => {
+    const item: QueuedInput = {
+      id: generateId(),
+      owner,
+      input,
+      review,
+      submittedAt: submittedAt.toISOString(),
+      status: "queued",
+      attempts: 0,
+      answering,
+    };
+    items.set(item.id, item);
+    changed();
+    pump();
+    return item;
+  };
+
+  return {
+    submit,
+
+    enqueue(input, options) {
+      return new Promise((resolve, reject) => {
+        const { id } = submit(input, options);
+        waiters.set(id, { resolve, reject });
+      });
+    },
+
+    cancel(id) {
+      const controller = controllers.get(id);
+      const reason = new ParseApiError("aborted", "Cancelled by the user");
+      remove(id);
+      controller?.abort(reason);
+      settle(id, reason);
+    },
+
+    retry(id) {
+      if (items.get(id)?.status !== "failed") return;
+      update(id, { status: "queued", attempts: 0, errorClass: undefined });
+      pump();
+    },
+
+    dismiss(id) {
+      if (items.get(id)?.status === "failed") remove(id);
+    },
+
+    start() {
+      started = true;
+      onChange([...items.values()]);
+      pump();
+    },
+
+    resume() {
+      let any = false;
+      for (const item of items.values()) {
+        if (item.status === "offline") {
+          items.set(item.id, { ...item, status: "queued" });
+          any = true;
+        }
+      }
+      if (any) changed();
+      pump();
+    },
+
+    stop() {
+      started = false;
+      // Lets another tab (or the next instance in this one) take over.
+      lifetime.abort();
+      // Nobody will finish these here; whoever takes the items over runs them.
+      const reason = new ParseApiError("aborted", "The queue was stopped");
+      [...waiters.keys()].forEach((id) => settle(id, reason));
+      retryTimers.forEach(clearTimeout);
+      retryTimers.clear();
+      // The page is going away; in-flight items start over next time.
+      controllers.forEach((controller) => controller.abort(reason));
+    },
+  };
+};
@@ -0,0 +1,34 @@
+// Input language detection for the languages Chronos supports. Cheap and
+// local: enough to pick parsing rules and a UI language, while the model
+// reports its own reading of anything else.
+
+export type SupportedLanguage = "en" | "ru" | "uz";
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ["en", "ru", "uz"];
+
+// Letters used in Uzbek Cyrillic but not in Russian.
+const UZBEK_CYRILLIC = /[ўқғҳЎҚҒҲ]/;
+const CYRILLIC = /[Ѐ-ӿ]/;
+// Common Uzbek Latin words in reminders: time words, weekdays, "remind".
+const UZBEK_LATIN =
+  /(?<![\p{L}'ʻ‘’])(ertaga|bugun|indin(ga)?|soat|daqiqa\S*|keyin|eslat\S*|ertalab|kechqurun|kechasi|dushanba|seshanba|chorshanba|payshanba|juma|shanba|yakshanba|hafta\S*|kun(i|dan)|uchun|bilan|kerak|qo['ʻ‘’]ng['ʻ‘’]iroq)(?![\p{L}])/iu;
+
+export const isSupportedLanguage = (value: string): value is SupportedLanguage =>
+  (SUPPORTED_LANGUAGES as string[]).includes(value);
+
+/**
+ * Guesses the language of a reminder. Cyrillic text is Russian unless it has
+ * Uzbek-only letters; Latin text is Uzbek if it uses common Uzbek words.
+ */
+export const detectLanguage = (text: string): SupportedLanguage => {
+  if (UZBEK_CYRILLIC.test(text)) return "uz";
+  if (CYRILLIC.test(text)) return "ru";
+  if (UZBEK_LATIN.test(text)) return "uz";
+  return "en";
+};
+
+/** The supported language of a BCP 47 locale, falling back to English. */
+export const languageOfLocale = (locale: string): SupportedLanguage => {
+  const language = locale.split("-")[0].toLowerCase();
+  return isSupportedLanguage(language) ? language : "en";
+};
@@ -0,0 +1,150 @@
+import { ReminderData } from "../types";
+import { SupportedLanguage, languageOfLocale } from "./language";
+import { LocalParseContext, parseLocally } from "./localParser";
+
+// A live transcript while the user is still speaking, from the browser's Web
+// Speech API, plus a provisional reading of it by the local parser. Only a
+// preview: the recorded audio still goes to the model when recording stops,
+// and browsers without speech recognition simply don't show one.
+
+export interface LiveTranscript {
+  /** Phrases the recogniser has settled on. */
+  final: string;
+  /** The phrase still being heard; may change with the next event. */
+  interim: string;
+}
+
+export interface LiveTranscriber {
+  /** Stops listening; results already heard are still delivered. */
+  stop(): void;
+}
+
+export interface LiveTranscriptionOptions {
+  locale: string;
+  onUpdate: (transcript: LiveTranscript) => void;
+  /** Called once if recognition can't run here (blocked, offline, unsupported language). */
+  onUnavailable?: (reason: string) => void;
+}
+
+// The parts of `SpeechRecognition` used here; TypeScript's DOM lib only
+// declares the result types.
+interface RecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface Recognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type RecognizerConstructor = new () => Recognizer;
+
+const recognizerConstructor = (): RecognizerConstructor | undefined => {
+  if (typeof window === "undefined") return undefined;
+  const scope = window as unknown as {
+    SpeechRecognition?: RecognizerConstructor;
+    webkitSpeechRecognition?: RecognizerConstructor;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+export const canTranscribeLive = (): boolean => recognizerConstructor() !== undefined;
+
+const DEFAULT_REGIONS: Record<SupportedLanguage, string> = {
+  en: "en-US",
+  ru: "ru-RU",
+  uz: "uz-UZ",
+};
+
+/** The recognition language for a UI locale: the locale itself if it has a region. */
+export const recognitionLanguage = (locale: string): string => {
+  const language = languageOfLocale(locale);
+  return locale.toLowerCase().startsWith(`${language}-`) ? locale : DEFAULT_REGIONS[language];
+};
+
+// Errors after which restarting won't help. "no-speech" and "aborted" are
+// routine and only end the current session.
+const FATAL_ERRORS = new Set(["not-allowed", "service-not-allowed", "network", "language-not-supported", "audio-capture"]);
+
+/**
+ * Starts recognising speech from the default microphone. Returns `null` when
+ * the browser has no speech recognition, so the caller falls back to
+ * transcribing the recording afterwards.
+ */
+export const startLiveTranscription = ({
+  locale,
+  onUpdate,
+  onUnavailable,
+}: LiveTranscriptionOptions): LiveTranscriber | null => {
+  const Recognition = recognizerConstructor();
+  if (!Recognition) return null;
+
+  let settled = "";
+  let stopped = false;
+  let recognizer: Recognizer;
+
+  const begin = () => {
+    recognizer = new Recognition();
+    recognizer.lang = recognitionLanguage(locale);
+    recognizer.continuous = true;
+    recognizer.interimResults = true;
+
+    recognizer.onresult = (event) => {
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const text = event.results[i][0]?.transcript ?? "";
+        if (event.results[i].isFinal) settled = `${settled} ${text}`.trim();
+        else interim += text;
+      }
+      onUpdate({ final: settled, interim: interim.trim() });
+    };
+
+    recognizer.onerror = (event) => {
+      if (!FATAL_ERRORS.has(event.error)) return;
+      stopped = true;
+      onUnavailable?.(event.error);
+    };
+
+    // Browsers end continuous sessions on their own after a pause; carry on
+    // until the recording itself stops.
+    recognizer.onend = () => {
+      if (!stopped) begin();
+    };
+
+    try {
+      recognizer.start();
+    } catch (err) {
+      stopped = true;
+      onUnavailable?.((err as Error).message);
+    }
+  };
+
+  begin();
+
+  return {
+    stop() {
+      stopped = true;
+      recognizer.stop();
+    },
+  };
+};
+
+/** The transcript as one string, for display and the provisional parse. */
+export const transcriptText = ({ final, interim }: LiveTranscript): string => `${final} ${interim}`.trim();
+
+/**
+ * What the local parser makes of the words so far, or `null` while it finds
+ * no time in them.
+ */
+export const provisionalReminder = (text: string, context: LocalParseContext): ReminderData | null => {
+  if (!text) return null;
+  const reminder = parseLocally(text, context);
+  return reminder.scheduled_time ? reminder : null;
+};
@@ -0,0 +1,689 @@
+import { ReminderData } from "../types";
+import { SupportedLanguage, detectLanguage } from "./language";
+import { WallClock, addDays, getZonedParts, toIsoUtc, zonedTimeToUtc } from "./timeZone";
+
+// Deterministic, rule-based parser for the common phrases the model is asked
+// to resolve, in English, Russian and Uzbek (Latin script). It never needs
+// the network.
+
+export interface LocalParseContext {
+  now: Date;
+  timeZone: string;
+  /** BCP 47 locale; decides whether 07/08 is July 8 or 7 August. */
+  locale?: string;
+}
+
+const DEFAULT_HOUR = 9;
+// Places and abbreviations accepted in "3pm Tokyo time" style phrases.
+const ZONE_ALIASES: Record<string, string> = {
+  utc: "UTC",
+  gmt: "UTC",
+  london: "Europe/London",
+  paris: "Europe/Paris",
+  berlin: "Europe/Berlin",
+  moscow: "Europe/Moscow",
+  istanbul: "Europe/Istanbul",
+  dubai: "Asia/Dubai",
+  tashkent: "Asia/Tashkent",
+  delhi: "Asia/Kolkata",
+  mumbai: "Asia/Kolkata",
+  singapore: "Asia/Singapore",
+  "hong kong": "Asia/Hong_Kong",
+  beijing: "Asia/Shanghai",
+  shanghai: "Asia/Shanghai",
+  seoul: "Asia/Seoul",
+  tokyo: "Asia/Tokyo",
+  sydney: "Australia/Sydney",
+  "new york": "America/New_York",
+  chicago: "America/Chicago",
+  denver: "America/Denver",
+  "los angeles": "America/Los_Angeles",
+  "san francisco": "America/Los_Angeles",
+  eastern: "America/New_York",
+  central: "America/Chicago",
+  pacific: "America/Los_Angeles",
+};
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  est: "America/New_York",
+  edt: "America/New_York",
+  cst: "America/Chicago",
+  cdt: "America/Chicago",
+  pst: "America/Los_Angeles",
+  pdt: "America/Los_Angeles",
+  cet: "Europe/Paris",
+  cest: "Europe/Paris",
+  msk: "Europe/Moscow",
+  jst: "Asia/Tokyo",
+};
+
+
+type CalendarDate = Pick<WallClock, "year" | "month" | "day">;
+
+interface DateMatch {
+  date: CalendarDate;
+  /** "next Friday": the coming one or the one after. */
+  ambiguous: boolean;
+  /** The other reading of a numeric date such as 07/08, when both are real dates. */
+  swapped?: CalendarDate;
+  /** Written as a date but no such day exists, e.g. 31/02. */
+  impossible?: boolean;
+}
+
+interface TimeMatch {
+  hour: number;
+  minute: number;
+  ambiguous: boolean;
+}
+
+// Matches against a lowercased copy but blanks matched spans in both copies,
+// so whatever is left over keeps the user's original casing. The copy also
+// folds the apostrophe variants used in Uzbek (oʻ, g‘) into "'".
+class Scanner {
+  private original: string;
+  private lower: string;
+
+  constructor(text: string) {
+    this.original = text;
+    this.lower = text.toLowerCase().replace(/[ʻʼ‘’`]/g, "'");
+  }
+
+  take(pattern: RegExp): RegExpMatchArray | null {
+    const match = this.lower.match(pattern);
+    if (match && match.index !== undefined) {
+      const blank = " ".repeat(match[0].length);
+      const end = match.index + match[0].length;
+      this.lower = this.lower.slice(0, match.index) + blank + this.lower.slice(end);
+      this.original = this.original.slice(0, match.index) + blank + this.original.slice(end);
+    }
+    return match;
+  }
+
+  get remainder() {
+    return this.original;
+  }
+}
+
+// `\b` only knows ASCII letters, so Cyrillic and Uzbek patterns use these
+// Unicode-aware boundaries instead.
+const START = "(?<![\\p{L}\\d'])";
+const END = "(?![\\p{L}\\d])";
+const words = (source: string) => new RegExp(`${START}${source}${END}`, "u");
+
+// A zone named next to the time: "Tokyo time", "in UTC", "9am EST".
+const matchZone = (scanner: Scanner): string | undefined => {
+  const place = scanner.take(new RegExp(`\\b(?:in\\s+)?(${Object.keys(ZONE_ALIASES).join("|")})\\s+time\\b`));
+  if (place) return ZONE_ALIASES[place[1]];
+  const abbreviation = scanner.take(
+    new RegExp(`\\b(?:in\\s+)?(${[...Object.keys(ZONE_ABBREVIATIONS), "utc", "gmt"].join("|")})\\b`)
+  );
+  if (abbreviation) return ZONE_ABBREVIATIONS[abbreviation[1]] ?? "UTC";
+  return undefined;
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+const WEEK_MS = 604_800_000;
+
+const toNumber = (token: string | undefined, numberWords: Record<string, number>, fallback = NaN): number => {
+  if (token === undefined) return fallback;
+  return /^\d+$/.test(token) ? Number(token) : numberWords[token] ?? NaN;
+};
+
+const upcomingWeekday = (today: WallClock & { weekday: number }, target: number): WallClock => {
+  let delta = (target - today.weekday + 7) % 7;
+  if (delta === 0) delta = 7;
+  return addDays(today, delta);
+};
+
+const dayMonthDate = (today: WallClock, month: number, day: number): DateMatch => {
+  const passed = month < today.month || (month === today.month && day < today.day);
+  return { date: { year: today.year + (passed ? 1 : 0), month, day }, ambiguous: false };
+};
+
+// Days in each month of a leap year; whether 29 February exists is known
+// once the year is.
+const MAX_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const looksLikeDayMonth = (day: number, month: number) => month >= 1 && month <= 12 && day >= 1 && day <= 31;
+const isValidDayMonth = (day: number, month: number) => looksLikeDayMonth(day, month) && day <= MAX_DAYS[month - 1];
+const isRealDate = ({ year, month, day }: CalendarDate) =>
+  isValidDayMonth(day, month) && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Whether the locale writes the day first (en-GB 22/11) or the month (en-US 11/22). */
+const isDayFirst = (locale: string | undefined, language: SupportedLanguage): boolean => {
+  if (!locale) return language !== "en";
+  try {
+    const parts = new Intl.DateTimeFormat(locale, { day: "numeric", month: "numeric" }).formatToParts(new Date(Date.UTC(2000, 10, 22)));
+    return parts.findIndex((part) => part.type === "day") < parts.findIndex((part) => part.type === "month");
+  } catch {
+    return language !== "en";
+  }
+};
+
+// Numeric dates shared by every language: ISO, slashed dates in the order of
+// the user's locale, and day-first dd.mm(.yyyy) for Russian and Uzbek.
+const matchNumericDate = (scanner: Scanner, today: WallClock, dayFirst: boolean, dotted: boolean): DateMatch | null => {
+  const iso = scanner.take(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return { date: { year: +iso[1], month: +iso[2], day: +iso[3] }, ambiguous: false };
+
+  const slashed = scanner.take(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/);
+  if (slashed) {
+    const [first, second] = [+slashed[1], +slashed[2]];
+    const year = slashed[3] ? +slashed[3] + (slashed[3].length === 2 ? 2000 : 0) : undefined;
+    const read = (day: number, month: number): DateMatch => {
+      const match = dayMonthDate(today, month, day);
+      if (year) match.date.year = year;
+      return match;
+    };
+    const preferred = dayFirst ? [first, second] : [second, first];
+    if (isValidDayMonth(preferred[0], preferred[1])) {
+      const match = read(preferred[0], preferred[1]);
+      if (first !== second && isValidDayMonth(preferred[1], preferred[0])) {
+        match.swapped = read(preferred[1], preferred[0]).date;
+      }
+      return match;
+    }
+    // 25/12 in a month-first locale can only be day-first.
+    if (isValidDayMonth(preferred[1], preferred[0])) return read(preferred[1], preferred[0]);
+    if (looksLikeDayMonth(preferred[0], preferred[1])) return { ...read(preferred[0], preferred[1]), impossible: true };
+    return null;
+  }
+
+  if (!dotted) return null;
+  const dottedDate = scanner.take(/\b(\d{1,2})\.(\d{1,2})(?:\.(\d{4}))?\b/);
+  if (dottedDate && looksLikeDayMonth(+dottedDate[1], +dottedDate[2])) {
+    const match = dayMonthDate(today, +dottedDate[2], +dottedDate[1]);
+    if (dottedDate[3]) match.date.year = +dottedDate[3];
+    if (!isValidDayMonth(+dottedDate[1], +dottedDate[2])) match.impossible = true;
+    return match;
+  }
+  return null;
+};
+
+interface RuleMessages {
+  assumedHalf: (pm: boolean) => string;
+  otherHalf: (pm: boolean) => string;
+  halfQuestion: string;
+  nextWeekday: (weekday: string) => string;
+  weekLater: string;
+  weekQuestion: string;
+  /** Rationale for reading a numeric date day-first or month-first. */
+  dateOrder: (dayFirst: boolean) => string;
+  dateOrderQuestion: string;
+}
+
+// Everything language-specific the parser needs.
+interface LanguageRules {
+  relative: (scanner: Scanner, now: Date) => Date | null;
+  date: (scanner: Scanner, today: WallClock & { weekday: number }, dayFirstDates: boolean) => DateMatch | null;
+  time: (scanner: Scanner) => TimeMatch | null;
+  /** Hour a part of the day stands for, e.g. 19 for "evening". */
+  dayPart: (scanner: Scanner) => number | null;
+  content: (remainder: string) => string;
+  messages: RuleMessages;
+}
+
+const finishContent = (text: string): string => {
+  const cleaned = text
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.!?])/g, "$1")
+    .replace(/^[\s,.;:-]+|[\s,;:-]+$/g, "")
+    .trim();
+  return cleaned ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1) : "";
+};
+
+// --- English ---
+
+const EN_WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const EN_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const EN_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+};
+const EN_UNITS: Record<string, number> = {
+  minute: MINUTE_MS,
+  min: MINUTE_MS,
+  hour: HOUR_MS,
+  hr: HOUR_MS,
+  day: DAY_MS,
+  week: WEEK_MS,
+};
+const EN_DAY_PARTS: Record<string, number> = {
+  morning: 9,
+  afternoon: 15,
+  evening: 19,
+  tonight: 20,
+  night: 20,
+};
+const EN_MONTH_PATTERN = `(${EN_MONTHS.join("|")})[a-z]*\\.?`;
+
+const english: LanguageRules = {
+  relative(scanner, now) {
+    if (scanner.take(/\bin\s+half\s+an?\s+hour\b/)) return new Date(now.getTime() + 30 * MINUTE_MS);
+
+    const match = scanner.take(
+      new RegExp(`\\bin\\s+(\\d+|${Object.keys(EN_NUMBERS).join("|")})\\s+(minute|min|hour|hr|day|week)s?\\b`)
+    );
+    if (!match) return null;
+    const amount = toNumber(match[1], EN_NUMBERS);
+    return Number.isNaN(amount) ? null : new Date(now.getTime() + amount * EN_UNITS[match[2]]);
+  },
+
+  date(scanner, today, dayFirstDates) {
+    const numeric = matchNumericDate(scanner, today, dayFirstDates, false);
+    if (numeric) return numeric;
+
+    const monthFirst = scanner.take(new RegExp(`\\b(?:on\\s+)?${EN_MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`));
+    const dayFirst = monthFirst
+      ? null
+      : scanner.take(new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${EN_MONTH_PATTERN}`));
+    if (monthFirst || dayFirst) {
+      const month = EN_MONTHS.indexOf((monthFirst ? monthFirst[1] : dayFirst![2]).slice(0, 3)) + 1;
+      return dayMonthDate(today, month, Number(monthFirst ? monthFirst[2] : dayFirst![1]));
+    }
+
+    if (scanner.take(/\bday after tomorrow\b/)) return { date: addDays(today, 2), ambiguous: false };
+    if (scanner.take(/\btomorrow\b/)) return { date: addDays(today, 1), ambiguous: false };
+    if (scanner.take(/\btoday\b/)) return { date: today, ambiguous: false };
+    // Past days are recognised so they come out as past, not as some future time.
+    if (scanner.take(/\bday before yesterday\b/)) return { date: addDays(today, -2), ambiguous: false };
+    if (scanner.take(/\byesterday\b/)) return { date: addDays(today, -1), ambiguous: false };
+
+    const weekday = scanner.take(new RegExp(`\\b(next|this|on)?\\s*(${EN_WEEKDAYS.join("|")})\\b`));
+    if (weekday) {
+      // "next Friday" is read as the coming Friday, which some people mean as
+      // the one after. Flag it so confidence reflects that.
+      return { date: upcomingWeekday(today, EN_WEEKDAYS.indexOf(weekday[2])), ambiguous: weekday[1] === "next" };
+    }
+
+    return null;
+  },
+
+  time(scanner) {
+    if (scanner.take(/\b(?:at\s+)?noon\b/)) return { hour: 12, minute: 0, ambiguous: false };
+    if (scanner.take(/\b(?:at\s+)?midnight\b/)) return { hour: 0, minute: 0, ambiguous: false };
+
+    const meridiem = scanner.take(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?=\W|$)/);
+    if (meridiem) {
+      let hour = Number(meridiem[1]) % 12;
+      if (meridiem[3] === "p") hour += 12;
+      return { hour, minute: Number(meridiem[2] ?? 0), ambiguous: false };
+    }
+
+    const clock = scanner.take(/\b(?:at\s+)?(\d{1,2}):(\d{2})\b/);
+    if (clock) {
+      const hour = Number(clock[1]);
+      // "at 14:30" is unambiguous; "at 7:30" could be either half of the day.
+      return { hour, minute: Number(clock[2]), ambiguous: hour <= 12 && hour !== 0 };
+    }
+
+    const bare = scanner.take(/\bat\s+(\d{1,2})\b/);
+    if (bare) {
+      const hour = Number(bare[1]);
+      return { hour, minute: 0, ambiguous: hour <= 12 && hour !== 0 };
+    }
+
+    return null;
+  },
+
+  dayPart(scanner) {
+    const match = scanner.take(/\b(?:this\s+|in\s+the\s+)?(morning|afternoon|evening|tonight|night)\b/);
+    return match ? EN_DAY_PARTS[match[1]] : null;
+  },
+
+  content: (remainder) =>
+    finishContent(
+      remainder
+        .replace(/^\s*(please\s+)?(remind\s+me\s+(to|that|about)?|reminder\s*(to|:)?|don'?t\s+forget\s+to)\s*/i, "")
+        .replace(/\b(at|on|in|by|this|next)\s*$/i, "")
+    ),
+
+  messages: {
+    assumedHalf: (pm) => `No am/pm given; assumed ${pm ? "pm" : "am"}`,
+    otherHalf: (pm) => `The same time in the ${pm ? "morning" : "evening"}`,
+    halfQuestion: "Did you mean morning or evening?",
+    nextWeekday: (weekday) => `"Next" read as the coming ${weekday}`,
+    weekLater: "The same day a week later",
+    weekQuestion: "Did you mean this coming week or the week after?",
+    dateOrder: (dayFirst) => `Read as ${dayFirst ? "day/month" : "month/day"}`,
+    dateOrderQuestion: "Which is the day and which is the month?",
+  },
+};
+
+// --- Russian ---
+
+const RU_NUMBERS: Record<string, number> = {
+  один: 1, одну: 1, одна: 1, два: 2, две: 2, три: 3, четыре: 4, пять: 5, шесть: 6, семь: 7,
+  восемь: 8, девять: 9, десять: 10, пятнадцать: 15, двадцать: 20, тридцать: 30, сорок: 40,
+};
+const RU_MONTHS = [
+  "января", "февраля", "марта", "апреля", "мая", "июня",
+  "июля", "августа", "сентября", "октября", "ноября", "декабря",
+];
+// Accusative forms as used in "в пятницу", and nominatives.
+const RU_WEEKDAYS: Record<string, number> = {
+  воскресенье: 0, понедельник: 1, вторник: 2, среду: 3, среда: 3,
+  четверг: 4, пятницу: 5, пятница: 5, субботу: 6, суббота: 6,
+};
+const RU_DAY_PARTS: Record<string, number> = { утром: 9, днём: 15, днем: 15, вечером: 19, ночью: 22 };
+
+const ruUnit = (token: string): number => {
+  if (token.startsWith("мин")) return MINUTE_MS;
+  if (token.startsWith("час")) return HOUR_MS;
+  if (token.startsWith("недел")) return WEEK_MS;
+  return DAY_MS;
+};
+
+const russian: LanguageRules = {
+  relative(scanner, now) {
+    if (scanner.take(words("через\\s+полчаса"))) return new Date(now.getTime() + 30 * MINUTE_MS);
+
+    const match = scanner.take(
+      words(`через\\s+(?:(\\d+|${Object.keys(RU_NUMBERS).join("|")})\\s+)?(мин(?:ут[уы]?)?|час(?:а|ов)?|день|дня|дней|недел[юиь])`)
+    );
+    if (!match) return null;
+    // "через час" means one hour.
+    const amount = toNumber(match[1], RU_NUMBERS, 1);
+    return Number.isNaN(amount) ? null : new Date(now.getTime() + amount * ruUnit(match[2]));
+  },
+
+  date(scanner, today, dayFirstDates) {
+    const numeric = matchNumericDate(scanner, today, dayFirstDates, true);
+    if (numeric) return numeric;
+
+    const named = scanner.take(words(`(\\d{1,2})(?:-?го)?\\s+(${RU_MONTHS.join("|")})`));
+    if (named) return dayMonthDate(today, RU_MONTHS.indexOf(named[2]) + 1, Number(named[1]));
+
+    if (scanner.take(words("послезавтра"))) return { date: addDays(today, 2), ambiguous: false };
+    if (scanner.take(words("завтра"))) return { date: addDays(today, 1), ambiguous: false };
+    if (scanner.take(words("сегодня"))) return { date: today, ambiguous: false };
+    if (scanner.take(words("позавчера"))) return { date: addDays(today, -2), ambiguous: false };
+    if (scanner.take(words("вчера"))) return { date: addDays(today, -1), ambiguous: false };
+
+    const weekday = scanner.take(
+      words(`(?:во?\\s+)?(?:(следующ(?:ий|ую|ее)|эт(?:от|у|о))\\s+)?(${Object.keys(RU_WEEKDAYS).join("|")})`)
+    );
+    if (weekday) {
+      return {
+        date: upcomingWeekday(today, RU_WEEKDAYS[weekday[2]]),
+        ambiguous: weekday[1]?.startsWith("следующ") ?? false,
+      };
+    }
+
+    return null;
+  },
+
+  time(scanner) {
+    if (scanner.take(words("(?:в\\s+)?полдень"))) return { hour: 12, minute: 0, ambiguous: false };
+    if (scanner.take(words("(?:в\\s+)?полночь"))) return { hour: 0, minute: 0, ambiguous: false };
+
+    const meridiem = scanner.take(words("(?:[вк]\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?(?:\\s+час(?:а|ов)?)?\\s+(утра|дня|вечера|ночи)"));
+    if (meridiem) {
+      let hour = Number(meridiem[1]) % 12;
+      if (meridiem[3] === "дня" || meridiem[3] === "вечера") hour += 12;
+      return { hour, minute: Number(meridiem[2] ?? 0), ambiguous: false };
+    }
+
+    // Written times use the 24-hour clock, so "в 7:30" is morning.
+    const clock = scanner.take(words("(?:[вк]\\s+)?(\\d{1,2}):(\\d{2})"));
+    if (clock) return { hour: Number(clock[1]), minute: Number(clock[2]), ambiguous: false };
+
+    const bare = scanner.take(words("[вк]\\s+(\\d{1,2})(?:\\s+час(?:а|ов)?)?"));
+    if (bare) {
+      const hour = Number(bare[1]);
+      return { hour, minute: 0, ambiguous: hour <= 12 && hour !== 0 };
+    }
+
+    return null;
+  },
+
+  dayPart(scanner) {
+    const match = scanner.take(words(`(${Object.keys(RU_DAY_PARTS).join("|")})`));
+    return match ? RU_DAY_PARTS[match[1]] : null;
+  },
+
+  content: (remainder) =>
+    finishContent(
+      remainder
+        .replace(/^\s*(?:пожалуйста,?\s+)?(?:напомни(?:те)?(?:\s+мне)?(?:\s+(?:о|об|про|что(?:бы)?))?|не\s+забыть|не\s+забудь(?:те)?)(?![\p{L}])\s*/iu, "")
+        .replace(/(?<![\p{L}])(?:в|во|на|к|через|до)\s*$/iu, "")
+    ),
+
+  messages: {
+    assumedHalf: (pm) => `Не указано утро или вечер; выбрано ${pm ? "вечернее" : "утреннее"} время`,
+    otherHalf: (pm) => `То же время ${pm ? "утром" : "вечером"}`,
+    halfQuestion: "Вы имели в виду утро или вечер?",
+    nextWeekday: (weekday) => `«Следующий» понят как ближайший день: ${weekday}`,
+    weekLater: "Тот же день через неделю",
+    weekQuestion: "На этой неделе или на следующей?",
+    dateOrder: (dayFirst) => `Прочитано как ${dayFirst ? "день/месяц" : "месяц/день"}`,
+    dateOrderQuestion: "Где здесь день, а где месяц?",
+  },
+};
+
+// --- Uzbek (Latin script) ---
+
+// Longest first so "o'n besh" wins over "o'n".
+const UZ_NUMBERS: Record<string, number> = {
+  "o'n besh": 15, bir: 1, ikki: 2, uch: 3, "to'rt": 4, besh: 5, olti: 6, yetti: 7, sakkiz: 8,
+  "to'qqiz": 9, "o'n": 10, yigirma: 20, "o'ttiz": 30, qirq: 40,
+};
+const UZ_UNITS: Record<string, number> = { daqiqa: MINUTE_MS, minut: MINUTE_MS, soat: HOUR_MS, kun: DAY_MS, hafta: WEEK_MS };
+const UZ_MONTHS = [
+  "yanvar", "fevral", "mart", "aprel", "may", "iyun",
+  "iyul", "avgust", "sentabr", "oktabr", "noyabr", "dekabr",
+];
+// Longest first so "yakshanba" isn't read as "shanba".
+const UZ_WEEKDAYS: Record<string, number> = {
+  yakshanba: 0, chorshanba: 3, payshanba: 4, dushanba: 1, seshanba: 2, shanba: 6, juma: 5,
+};
+const UZ_DAY_PARTS: Record<string, number> = {
+  "tushdan keyin": 15, ertalab: 9, kechqurun: 19, kechasi: 22, tunda: 22,
+};
+const UZ_CASE = "(?:da|ga|dan|kuni)?";
+
+const uzbek: LanguageRules = {
+  relative(scanner, now) {
+    if (scanner.take(words("yarim\\s+soatdan\\s+(?:keyin|so'ng)"))) return new Date(now.getTime() + 30 * MINUTE_MS);
+
+    const match = scanner.take(
+      words(`(\\d+|${Object.keys(UZ_NUMBERS).join("|")})\\s+(daqiqa|minut|soat|kun|hafta)(?:dan)?\\s+(?:keyin|so'ng)`)
+    );
+    if (!match) return null;
+    const amount = toNumber(match[1], UZ_NUMBERS);
+    return Number.isNaN(amount) ? null : new Date(now.getTime() + amount * UZ_UNITS[match[2]]);
+  },
+
+  date(scanner, today, dayFirstDates) {
+    const numeric = matchNumericDate(scanner, today, dayFirstDates, true);
+    if (numeric) return numeric;
+
+    const named = scanner.take(words(`(\\d{1,2})(?:-|\\s+)(${UZ_MONTHS.join("|")})${UZ_CASE}`));
+    if (named) return dayMonthDate(today, UZ_MONTHS.indexOf(named[2]) + 1, Number(named[1]));
+
+    if (scanner.take(words("indin(?:ga)?"))) return { date: addDays(today, 2), ambiguous: false };
+    if (scanner.take(words("ertaga"))) return { date: addDays(today, 1), ambiguous: false };
+    if (scanner.take(words("bugun"))) return { date: today, ambiguous: false };
+    if (scanner.take(words("o'tgan\\s+kuni"))) return { date: addDays(today, -2), ambiguous: false };
+    // "bu kecha" is tonight; a bare "kecha" is yesterday.
+    if (scanner.take(words("(?<!(?:bu|shu)\\s+)kecha"))) return { date: addDays(today, -1), ambiguous: false };
+
+    const weekday = scanner.take(
+      words(`(?:(kelasi|keyingi|shu)\\s+(?:hafta\\s+)?)?(${Object.keys(UZ_WEEKDAYS).join("|")})${UZ_CASE}(?:\\s+kuni)?`)
+    );
+    if (weekday) {
+      return {
+        date: upcomingWeekday(today, UZ_WEEKDAYS[weekday[2]]),
+        ambiguous: weekday[1] === "kelasi" || weekday[1] === "keyingi",
+      };
+    }
+
+    return null;
+  },
+
+  time(scanner) {
+    if (scanner.take(words("yarim\\s+tun(?:da)?"))) return { hour: 0, minute: 0, ambiguous: false };
+    if (scanner.take(words("tushda"))) return { hour: 12, minute: 0, ambiguous: false };
+
+    // Written times use the 24-hour clock, so "soat 7:30" is morning.
+    const clock = scanner.take(words(`(?:soat\\s+)?(\\d{1,2})[:.](\\d{2})(?:\\s*${UZ_CASE})`));
+    if (clock) return { hour: Number(clock[1]), minute: Number(clock[2]), ambiguous: false };
+
+    const bare = scanner.take(words(`soat\\s+(\\d{1,2})(?:\\s*(?:da|ga|larda|lar))?`));
+    if (bare) {
+      const hour = Number(bare[1]);
+      return { hour, minute: 0, ambiguous: hour <= 12 && hour !== 0 };
+    }
+
+    return null;
+  },
+
+  dayPart(scanner) {
+    const match = scanner.take(words(`(${Object.keys(UZ_DAY_PARTS).join("|")})`));
+    return match ? UZ_DAY_PARTS[match[1]] : null;
+  },
+
+  content: (remainder) =>
+    finishContent(
+      remainder
+        .replace(/^\s*eslatma\s*:?\s*/iu, "")
+        // "...qilishni eslat" / "...eslatib qo'y": the request comes last.
+        .replace(/(?<=\p{L})ni\s+eslat\S*(?:\s+qo['ʻʼ‘’`]y\S*)?[\s.!]*$/iu, "")
+        .replace(/\s*eslat\S*(?:\s+qo['ʻʼ‘’`]y\S*)?[\s.!]*$/iu, "")
+    ),
+
+  messages: {
+    assumedHalf: (pm) => `Ertalab yoki kechqurun aytilmagan; ${pm ? "kechqurun" : "ertalab"} deb olindi`,
+    otherHalf: (pm) => `Xuddi shu vaqt ${pm ? "ertalab" : "kechqurun"}`,
+    halfQuestion: "Ertalabmi yoki kechqurunmi?",
+    nextWeekday: (weekday) => `"Kelasi" eng yaqin ${weekday} deb olindi`,
+    weekLater: "Bir haftadan keyingi shu kun",
+    weekQuestion: "Shu haftami yoki keyingi haftami?",
+    dateOrder: (dayFirst) => `${dayFirst ? "Kun/oy" : "Oy/kun"} deb o'qildi`,
+    dateOrderQuestion: "Qaysi biri kun, qaysi biri oy?",
+  },
+};
+
+const RULES: Record<SupportedLanguage, LanguageRules> = { en: english, ru: russian, uz: uzbek };
+
+const weekdayName = (date: Date, language: SupportedLanguage, timeZone: string): string =>
+  date.toLocaleDateString(language, { weekday: "long", timeZone });
+
+/**
+ * Resolves a reminder from plain text without calling a model.
+ *
+ * Confidence is deliberately conservative: a missing time of day, an
+ * hour without am/pm or a "next <weekday>" each lower it, and input with no
+ * recognisable time yields an empty `scheduled_time` and a score below 0.5,
+ * matching the contract the model follows. The two ambiguous cases also
+ * return the competing readings as `candidates`, explained in the input's
+ * language.
+ */
+export const parseLocally = (text: string, { now, timeZone: userTimeZone, locale }: LocalParseContext): ReminderData => {
+  const language = detectLanguage(text);
+  const rules = RULES[language];
+  const scanner = new Scanner(text);
+  // Wall-clock phrases resolve in a zone the user named, if any.
+  const sourceZone = matchZone(scanner);
+  const timeZone = sourceZone ?? userTimeZone;
+  const todayParts = getZonedParts(now, timeZone);
+  const today = { ...todayParts, hour: 0, minute: 0, second: 0 };
+
+  const relative = rules.relative(scanner, now);
+  let scheduled: Date | null = relative;
+  let confidence = relative ? 0.9 : 0;
+  const alternatives: Array<{ at: Date; rationale: string }> = [];
+  let primaryRationale = "";
+  let question: string | undefined;
+
+  if (!relative) {
+    const dayFirst = isDayFirst(locale, language);
+    const date = rules.date(scanner, today, dayFirst);
+    const time = rules.time(scanner);
+    const dayPart = rules.dayPart(scanner);
+
+    // 31/02 or "30 февраля" doesn't exist; rolling it into March would be a guess.
+    if (date && (date.impossible || !isRealDate(date.date))) {
+      return { reminder_content: rules.content(scanner.remainder), scheduled_time: "", confidence_score: 0.2, language };
+    }
+    if (date?.swapped && !isRealDate(date.swapped)) delete date.swapped;
+
+    let hour = time?.hour ?? dayPart ?? DEFAULT_HOUR;
+    const minute = time?.minute ?? 0;
+
+    if (time?.ambiguous && hour < 12) {
+      // Without am/pm, lean on the day part, then on waking hours.
+      const pm = dayPart !== null ? dayPart >= 12 : hour < 7;
+      if (pm) hour += 12;
+    }
+
+    if (date || time || dayPart !== null) {
+      const baseDay: WallClock = { ...(date?.date ?? today), hour: 0, minute: 0, second: 0 };
+      // Without an explicit date, a time that already passed today means tomorrow.
+      const resolveAt = (day: WallClock, h: number) => {
+        const at = zonedTimeToUtc({ ...day, hour: h, minute, second: 0 }, timeZone);
+        return !date && at.getTime() <= now.getTime()
+          ? zonedTimeToUtc({ ...addDays(day, 1), hour: h, minute, second: 0 }, timeZone)
+          : at;
+      };
+      scheduled = resolveAt(baseDay, hour);
+
+      const reasons: string[] = [];
+      if (time?.ambiguous && dayPart === null) {
+        const pm = hour >= 12;
+        reasons.push(rules.messages.assumedHalf(pm));
+        alternatives.push({ at: resolveAt(baseDay, pm ? hour - 12 : hour + 12), rationale: rules.messages.otherHalf(pm) });
+        question = rules.messages.halfQuestion;
+      }
+      if (date?.ambiguous) {
+        reasons.push(rules.messages.nextWeekday(weekdayName(scheduled, language, timeZone)));
+        alternatives.push({ at: resolveAt(addDays(baseDay, 7), hour), rationale: rules.messages.weekLater });
+        question ??= rules.messages.weekQuestion;
+      }
+      if (date?.swapped) {
+        reasons.push(rules.messages.dateOrder(dayFirst));
+        alternatives.push({
+          at: resolveAt({ ...date.swapped, hour: 0, minute: 0, second: 0 }, hour),
+          rationale: rules.messages.dateOrder(!dayFirst),
+        });
+        question ??= rules.messages.dateOrderQuestion;
+      }
+      primaryRationale = reasons.join("; ");
+
+      confidence = 0.9;
+      if (!time && dayPart === null) confidence -= 0.3;
+      else if (!time) confidence -= 0.15;
+      if (!date) confidence -= 0.05;
+      if (time?.ambiguous && dayPart === null) confidence -= 0.3;
+      if (date?.ambiguous || date?.swapped) confidence -= 0.15;
+    }
+  }
+
+  const content = rules.content(scanner.remainder);
+
+  if (!scheduled || scheduled.getTime() <= now.getTime()) {
+    return { reminder_content: content, scheduled_time: "", confidence_score: 0.2, language };
+  }
+
+  if (!content) confidence = Math.min(confidence, 0.5);
+
+  const result: ReminderData = {
+    reminder_content: content,
+    scheduled_time: toIsoUtc(scheduled),
+    confidence_score: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100,
+    language,
+  };
+  if (sourceZone) result.source_timezone = sourceZone;
+
+  const future = alternatives.filter(({ at }) => at.getTime() > now.getTime());
+  if (future.length > 0) {
+    result.candidates = [
+      { scheduled_time: result.scheduled_time, rationale: primaryRationale },
+      ...future.map(({ at, rationale }) => ({ scheduled_time: toIsoUtc(at), rationale })),
+    ];
+    result.clarifying_question = question;
+  }
+
+  return result;
+};
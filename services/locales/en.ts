@@ -0,0 +1,281 @@
+// English UI strings. This catalogue defines the keys; the others must
+// provide every one of them. `{name}` placeholders are filled by `t`.
+
+export const en = {
+  "app.enableNotifications": "Enable notifications",
+  "app.settings": "Settings",
+  "app.heroTitleStart": "Capture Time",
+  "app.heroTitleEnd": "Intent",
+  "app.heroSubtitle": "Speak or type naturally. Chronos uses Gemini 2.5 to extract precise schedules and reminders from your chaotic thoughts.",
+  "app.orTypeIt": "Or type it",
+  "app.inputPlaceholder": "e.g., 'Remind me to call John regarding the project next Tuesday at 2pm'",
+  "app.remindMe": "Remind me",
+  "app.importProgress": "Importing {done}/{total}…",
+  "app.importText": "Import a text file (one reminder per line)",
+  "app.restoreBackup": "Restore from .ics or JSON",
+  "app.recentParses": "Recent Parses",
+  "app.exportIcs": "Export .ics",
+  "app.exportJson": "Export JSON",
+  "app.noMatches": "No reminders match these filters.",
+  "app.showMore": "Show more ({count} left)",
+  "app.reminderDeleted": "Reminder deleted",
+  "app.undo": "Undo",
+
+  "error.answerFailed": "Could not apply your answer. Please pick one of the options instead.",
+  "error.unusableReminder": "The AI returned an unusable reminder. Please rephrase and try again.",
+  "error.processFailed": "Failed to process input. Please try again.",
+  "error.emptyImportFile": "That file has no reminders in it.",
+  "error.importLinesFailed": "{failed} of {total} lines could not be imported.",
+  "error.importFailed": "Failed to import that file.",
+  "error.importInvalidJson": "The file isn't valid JSON.",
+  "error.importNoList": "The JSON file doesn't contain a list of reminders.",
+  "error.importEmpty": "No reminders were found in that file.",
+  "error.saveFailed": "Failed to save reminder. Please try again.",
+  "error.microphone": "Could not access microphone. Please check permissions.",
+  "error.microphoneMissing": "No microphone was found.",
+  "error.microphoneBusy": "The microphone is being used by another app.",
+  "error.recordingUnsupported": "This browser can't record audio. You can upload a clip instead.",
+  "error.audioFileType": "That file isn't an audio clip.",
+  "error.audioFileTooLarge": "Audio clips are limited to {size} MB.",
+  "error.audioUnreadable": "Could not read that audio clip.",
+  "error.network": "Can't reach the reminder service. Check your connection and try again.",
+  "error.rateLimited": "Too many requests. Please wait {seconds}s and try again.",
+  "error.tooLarge": "That's too long to process. Try a shorter recording or message.",
+  "error.unsupportedAudio": "This audio format isn't supported.",
+  "error.upstream": "The AI service didn't respond. Please try again.",
+  "error.unauthorized": "Couldn't confirm your Telegram account. Reopen the app from Telegram.",
+  "error.quota": "The AI service has used up its quota for now. Please try again later.",
+  "error.upstreamAuth": "The reminder service couldn't sign in to the AI service. Please try again later.",
+  "error.timeout": "The reminder service took too long to answer. Please try again.",
+  "error.cancelled": "Cancelled.",
+
+  "recorder.processing": "Processing Audio...",
+  "recorder.ready": "Ready to Record",
+  "recorder.start": "Start recording",
+  "recorder.stop": "Stop and send",
+  "recorder.discard": "Discard recording",
+  "recorder.timeLeft": "{time} left",
+  "recorder.autoStop": "Stops by itself when you finish speaking",
+  "recorder.upload": "or upload an audio clip",
+  "recorder.dropHere": "Drop the audio clip here",
+  "recorder.listening": "Listening…",
+  "recorder.provisional": "So far:",
+
+  "card.status.scheduled": "Scheduled",
+  "card.status.fired": "Fired",
+  "card.status.snoozed": "Snoozed",
+  "card.status.missed": "Missed",
+  "card.status.failed": "Failed",
+  "card.status.done": "Done",
+  "card.status.needsChoice": "Needs choice",
+  "card.snoozedUntil": "Until {time}",
+  "card.confidence": "Confidence:",
+  "card.edited": "· edited",
+  "card.editedHint": "Corrected after parsing",
+  "card.notUnderstood": "Could not understand reminder.",
+  "card.time": "Time",
+  "card.noTime": "N/A",
+  "card.timesIn": "Times are in {zone}",
+  "card.repeats": "Repeats",
+  "card.repeatsRaw": "Repeats ({rule})",
+  "card.whichDidYouMean": "Which did you mean?",
+  "card.answer": "Answer",
+  "card.edit": "Edit",
+  "card.markDone": "Mark done",
+  "card.markActive": "Mark active",
+  "card.downloadIcs": "Download .ics",
+  "card.delete": "Delete",
+  "card.delivery.pending": "Sending to Telegram…",
+  "card.delivery.sent": "Sent to Telegram",
+  "card.delivery.failed": "Telegram delivery failed — will retry",
+  "card.delivery.attempts": "{error} ({attempts} attempts)",
+  "card.leadTimes": "Alerts {times} before",
+  "card.location": "Location",
+
+  "recurrence.weekdays": "Every weekday",
+  "recurrence.every.DAILY": "Every day",
+  "recurrence.every.WEEKLY": "Every week",
+  "recurrence.every.MONTHLY": "Every month",
+  "recurrence.every.YEARLY": "Every year",
+  "recurrence.everyN.DAILY": "Every {count} days",
+  "recurrence.everyN.WEEKLY": "Every {count} weeks",
+  "recurrence.everyN.MONTHLY": "Every {count} months",
+  "recurrence.everyN.YEARLY": "Every {count} years",
+  "recurrence.inMonths": "in {months}",
+  "recurrence.onWeekdays": "on {days}",
+  "recurrence.nthWeekday": "the {ordinal} {weekday}",
+  "recurrence.lastWeekday": "the last {weekday}",
+  "recurrence.nthLastWeekday": "the {ordinal} to last {weekday}",
+  "recurrence.onMonthDays": "on {days}",
+  "recurrence.monthDay": "day {day}",
+  "recurrence.lastMonthDay": "the last day",
+  "recurrence.nthLastMonthDay": "the {ordinal} to last day",
+  "recurrence.ordinal1": "first",
+  "recurrence.ordinal2": "second",
+  "recurrence.ordinal3": "third",
+  "recurrence.ordinal4": "fourth",
+  "recurrence.ordinal5": "fifth",
+  "recurrence.ordinalN": "{n}th",
+  "recurrence.once": "1 time",
+  "recurrence.times": "{count} times",
+  "recurrence.until": "until {date}",
+
+  "form.reminder": "Reminder",
+  "form.time": "Time",
+  "form.cancel": "Cancel",
+  "form.save": "Save",
+  "form.priority": "Priority",
+  "form.category": "Category",
+  "form.noCategory": "No category",
+  "form.tags": "Tags, comma-separated",
+  "form.location": "Location",
+  "form.leadTimes": "Alert me before",
+
+  "review.title": "Review before saving",
+  "review.transcript": "What we heard",
+  "review.reminderOf": "Reminder {index} of {total}",
+  "review.remove": "Remove",
+  "review.discard": "Discard",
+  "review.reparse": "Re-parse",
+  "review.reparseFirst": "Re-parse the corrected transcript first",
+  "command.reschedule.title": "Move this reminder?",
+  "command.cancel.title": "Delete this reminder?",
+  "command.snooze.title": "Snooze this reminder?",
+  "command.reschedule.confirm": "Move",
+  "command.cancel.confirm": "Delete",
+  "command.snooze.confirm": "Snooze",
+  "command.dismiss": "Never mind",
+  "command.heard": "You said: “{text}”",
+  "command.pick": "Which reminder?",
+  "command.notFound": "No saved reminder matches “{description}”.",
+  "command.moveTo": "{from} → {to}",
+  "command.snoozeUntil": "Quiet until {time}",
+  "query.title": "Your reminders",
+  "query.close": "Close",
+  "query.range": "{from} – {to}",
+  "query.count": "Found: {count}",
+  "query.none": "Nothing matches.",
+  "query.more": "+{count} more",
+
+  "history.search": "Search reminders",
+  "history.view": "View",
+  "history.view.list": "List",
+  "history.view.agenda": "Agenda",
+  "history.view.calendar": "Month",
+  "history.status": "Status",
+  "history.status.all": "Any status",
+  "history.status.active": "Active",
+  "history.confidence": "Confidence",
+  "history.confidence.all": "Any confidence",
+  "history.confidence.high": "High (>80%)",
+  "history.confidence.medium": "Medium (51–80%)",
+  "history.confidence.low": "Low (≤50%)",
+  "history.from": "From date",
+  "history.to": "To date",
+  "history.rangeTo": "to",
+  "history.sort": "Sort",
+  "history.sort.created": "Newest parsed",
+  "history.sort.scheduledAsc": "Soonest first",
+  "history.sort.scheduledDesc": "Latest first",
+  "history.clear": "Clear · {count} of {total}",
+  "history.confidenceValue": "Confidence {percent}%",
+  "history.priority.all": "Any priority",
+  "history.category.all": "Any category",
+  "history.tag.all": "Any tag",
+  "history.location": "Location",
+  "history.groupBy": "Group by",
+  "history.group.none": "No grouping",
+  "history.group.priority": "By priority",
+  "history.group.category": "By category",
+  "history.group.tag": "By tag",
+  "history.group.location": "By location",
+  "history.group.noCategory": "No category",
+  "history.group.noTag": "Untagged",
+  "history.group.noLocation": "No location",
+
+  "priority.low": "Low priority",
+  "priority.normal": "Normal priority",
+  "priority.high": "High priority",
+
+  "category.work": "Work",
+  "category.personal": "Personal",
+  "category.health": "Health",
+  "category.shopping": "Shopping",
+  "category.finance": "Finance",
+  "category.travel": "Travel",
+  "category.social": "Social",
+
+  "agenda.empty": "Nothing upcoming.",
+  "agenda.today": "Today",
+  "agenda.tomorrow": "Tomorrow",
+  "agenda.showMore": "Show more days ({count} left)",
+
+  "calendar.previous": "Previous month",
+  "calendar.next": "Next month",
+  "calendar.empty": "No reminders.",
+  "calendar.more": "+{count} more",
+
+  "settings.title": "Settings",
+  "settings.done": "Done",
+  "settings.timeZone": "Time zone",
+  "settings.timeZonePlaceholder": "e.g. Asia/Tashkent",
+  "settings.locale": "Language & region",
+  "settings.clock": "Clock",
+  "settings.clock.auto": "Locale default",
+  "settings.clock.12h": "12-hour",
+  "settings.clock.24h": "24-hour",
+  "settings.weekStart": "Week starts on",
+  "settings.weekStart.1": "Monday",
+  "settings.weekStart.0": "Sunday",
+  "settings.weekStart.6": "Saturday",
+  "settings.now": "Now: {time}",
+  "settings.diagnostics": "Parse diagnostics",
+  "diagnostics.title": "Parse diagnostics",
+  "diagnostics.empty": "Nothing recorded yet. Each parse adds an entry here.",
+  "diagnostics.parses": "Parses",
+  "diagnostics.failed": "Failed",
+  "diagnostics.fallbacks": "Local fallbacks",
+  "diagnostics.inputs": "Text / audio",
+  "diagnostics.inputsValue": "{text} / {audio}",
+  "diagnostics.latency": "Latency (mean / p50 / p95)",
+  "diagnostics.tokens": "Tokens (in / out)",
+  "diagnostics.cost": "Estimated cost",
+  "diagnostics.errors": "Errors",
+  "diagnostics.models": "Models",
+  "diagnostics.recent": "Recent parses",
+  "diagnostics.textSize": "{count} chars",
+  "diagnostics.audioSize": "{size} KB",
+  "diagnostics.privacy": "Stored only on this device. Entries hold timings, sizes, token counts and errors, never what you typed or said.",
+  "diagnostics.clear": "Clear",
+  "diagnostics.export": "Export JSON",
+  "queue.title": "In progress",
+  "queue.voice": "Voice message ({size} KB)",
+  "queue.queued": "Waiting…",
+  "queue.processing": "Working on it…",
+  "queue.retrying": "Retrying at {time} (attempt {attempt} of {max})",
+  "queue.offline": "Waiting for a connection",
+  "queue.failed": "Failed",
+  "queue.cancel": "Cancel",
+  "queue.retry": "Retry",
+  "queue.dismiss": "Dismiss",
+
+  "notification.title": "Chronos reminder",
+  "notification.snooze": "Snooze {duration}",
+  "notification.dismiss": "Dismiss",
+  "notification.comingUp": "Coming up at {time}",
+  "notification.leadBody": "{content} (in {left})",
+  "notification.missedTitle": "Missed reminders",
+  "notification.missedOne": "You missed: {content}",
+  "notification.missedMany": "You missed {count} reminders while Chronos was closed.",
+
+  "timeTravel.title": "Time travel (dev)",
+  "timeTravel.at": "Pretend it is ({zone})",
+  "timeTravel.freeze": "Stop the clock",
+  "timeTravel.beforeMidnight": "Just before midnight",
+  "timeTravel.travel": "Travel",
+  "timeTravel.reset": "Back to real time",
+  "timeTravel.active": "Time travel is on",
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalogue = Record<MessageKey, string>;
@@ -0,0 +1,277 @@
+import { Catalogue } from "./en";
+
+export const ru: Catalogue = {
+  "app.enableNotifications": "Включить уведомления",
+  "app.settings": "Настройки",
+  "app.heroTitleStart": "Время",
+  "app.heroTitleEnd": "намерения",
+  "app.heroSubtitle": "Говорите или пишите как обычно. Chronos с помощью Gemini 2.5 извлекает точное время и напоминания из ваших мыслей.",
+  "app.orTypeIt": "Или напишите",
+  "app.inputPlaceholder": "например: «Напомни позвонить Ивану по проекту в следующий вторник в 14:00»",
+  "app.remindMe": "Напомнить",
+  "app.importProgress": "Импорт {done}/{total}…",
+  "app.importText": "Импорт текстового файла (по напоминанию на строку)",
+  "app.restoreBackup": "Восстановить из .ics или JSON",
+  "app.recentParses": "Последние напоминания",
+  "app.exportIcs": "Экспорт .ics",
+  "app.exportJson": "Экспорт JSON",
+  "app.noMatches": "Нет напоминаний, подходящих под фильтры.",
+  "app.showMore": "Показать ещё (осталось {count})",
+  "app.reminderDeleted": "Напоминание удалено",
+  "app.undo": "Отменить",
+
+  "error.answerFailed": "Не удалось применить ответ. Выберите один из вариантов.",
+  "error.unusableReminder": "ИИ вернул непригодное напоминание. Переформулируйте и попробуйте снова.",
+  "error.processFailed": "Не удалось обработать ввод. Попробуйте снова.",
+  "error.emptyImportFile": "В этом файле нет напоминаний.",
+  "error.importLinesFailed": "Не удалось импортировать строк: {failed} из {total}.",
+  "error.importFailed": "Не удалось импортировать этот файл.",
+  "error.importInvalidJson": "Файл не является корректным JSON.",
+  "error.importNoList": "В JSON-файле нет списка напоминаний.",
+  "error.importEmpty": "В файле не найдено напоминаний.",
+  "error.saveFailed": "Не удалось сохранить напоминание. Попробуйте снова.",
+  "error.microphone": "Нет доступа к микрофону. Проверьте разрешения.",
+  "error.microphoneMissing": "Микрофон не найден.",
+  "error.microphoneBusy": "Микрофон занят другим приложением.",
+  "error.recordingUnsupported": "Этот браузер не умеет записывать звук. Вместо этого можно загрузить аудиофайл.",
+  "error.audioFileType": "Этот файл не является аудиозаписью.",
+  "error.audioFileTooLarge": "Размер аудиофайла — не более {size} МБ.",
+  "error.audioUnreadable": "Не удалось прочитать аудиофайл.",
+  "error.network": "Нет связи с сервисом напоминаний. Проверьте подключение и попробуйте снова.",
+  "error.rateLimited": "Слишком много запросов. Подождите {seconds} с и попробуйте снова.",
+  "error.tooLarge": "Слишком длинно для обработки. Попробуйте запись или сообщение короче.",
+  "error.unsupportedAudio": "Этот аудиоформат не поддерживается.",
+  "error.upstream": "Сервис ИИ не ответил. Попробуйте снова.",
+  "error.unauthorized": "Не удалось подтвердить ваш аккаунт Telegram. Откройте приложение из Telegram заново.",
+  "error.quota": "У сервиса ИИ закончилась квота. Попробуйте позже.",
+  "error.upstreamAuth": "Сервис напоминаний не смог авторизоваться в сервисе ИИ. Попробуйте позже.",
+  "error.timeout": "Сервис напоминаний слишком долго не отвечал. Попробуйте ещё раз.",
+  "error.cancelled": "Отменено.",
+
+  "recorder.processing": "Обработка аудио...",
+  "recorder.ready": "Готово к записи",
+  "recorder.start": "Начать запись",
+  "recorder.stop": "Остановить и отправить",
+  "recorder.discard": "Удалить запись",
+  "recorder.timeLeft": "осталось {time}",
+  "recorder.autoStop": "Запись остановится сама, когда вы замолчите",
+  "recorder.upload": "или загрузите аудиофайл",
+  "recorder.dropHere": "Перетащите аудиофайл сюда",
+  "recorder.listening": "Слушаю…",
+  "recorder.provisional": "Пока что:",
+
+  "card.status.scheduled": "Запланировано",
+  "card.status.fired": "Сработало",
+  "card.status.snoozed": "Отложено",
+  "card.status.missed": "Пропущено",
+  "card.status.failed": "Ошибка",
+  "card.status.done": "Выполнено",
+  "card.status.needsChoice": "Нужен выбор",
+  "card.snoozedUntil": "До {time}",
+  "card.confidence": "Уверенность:",
+  "card.edited": "· изменено",
+  "card.editedHint": "Исправлено после распознавания",
+  "card.notUnderstood": "Не удалось понять напоминание.",
+  "card.time": "Время",
+  "card.noTime": "Н/Д",
+  "card.timesIn": "Время указано в поясе {zone}",
+  "card.repeats": "Повторяется",
+  "card.repeatsRaw": "Повторяется ({rule})",
+  "card.whichDidYouMean": "Что вы имели в виду?",
+  "card.answer": "Ответить",
+  "card.edit": "Изменить",
+  "card.markDone": "Выполнено",
+  "card.markActive": "Вернуть в активные",
+  "card.downloadIcs": "Скачать .ics",
+  "card.delete": "Удалить",
+  "card.delivery.pending": "Отправка в Telegram…",
+  "card.delivery.sent": "Отправлено в Telegram",
+  "card.delivery.failed": "Не удалось отправить в Telegram — повторим",
+  "card.delivery.attempts": "{error} (попыток: {attempts})",
+  "card.leadTimes": "Напомнить за {times}",
+  "card.location": "Место",
+
+  "recurrence.weekdays": "По будним дням",
+  "recurrence.every.DAILY": "Каждый день",
+  "recurrence.every.WEEKLY": "Каждую неделю",
+  "recurrence.every.MONTHLY": "Каждый месяц",
+  "recurrence.every.YEARLY": "Каждый год",
+  "recurrence.everyN.DAILY": "Каждый {count}-й день",
+  "recurrence.everyN.WEEKLY": "Каждую {count}-ю неделю",
+  "recurrence.everyN.MONTHLY": "Каждый {count}-й месяц",
+  "recurrence.everyN.YEARLY": "Каждый {count}-й год",
+  "recurrence.inMonths": "в месяцы: {months}",
+  "recurrence.onWeekdays": "по дням: {days}",
+  "recurrence.nthWeekday": "{weekday} №{ordinal}",
+  "recurrence.lastWeekday": "последний {weekday}",
+  "recurrence.nthLastWeekday": "{weekday} №{ordinal} с конца",
+  "recurrence.onMonthDays": "по числам: {days}",
+  "recurrence.monthDay": "{day}-е",
+  "recurrence.lastMonthDay": "последний день",
+  "recurrence.nthLastMonthDay": "{ordinal}-й день с конца",
+  "recurrence.ordinal1": "1",
+  "recurrence.ordinal2": "2",
+  "recurrence.ordinal3": "3",
+  "recurrence.ordinal4": "4",
+  "recurrence.ordinal5": "5",
+  "recurrence.ordinalN": "{n}",
+  "recurrence.once": "один раз",
+  "recurrence.times": "повторений: {count}",
+  "recurrence.until": "до {date}",
+
+  "form.reminder": "Напоминание",
+  "form.time": "Время",
+  "form.cancel": "Отмена",
+  "form.save": "Сохранить",
+  "form.priority": "Важность",
+  "form.category": "Категория",
+  "form.noCategory": "Без категории",
+  "form.tags": "Теги через запятую",
+  "form.location": "Место",
+  "form.leadTimes": "Напомнить заранее",
+
+  "review.title": "Проверьте перед сохранением",
+  "review.transcript": "Что мы услышали",
+  "review.reminderOf": "Напоминание {index} из {total}",
+  "review.remove": "Убрать",
+  "review.discard": "Отменить",
+  "review.reparse": "Распознать заново",
+  "review.reparseFirst": "Сначала распознайте исправленный текст",
+  "command.reschedule.title": "Перенести напоминание?",
+  "command.cancel.title": "Удалить напоминание?",
+  "command.snooze.title": "Отложить напоминание?",
+  "command.reschedule.confirm": "Перенести",
+  "command.cancel.confirm": "Удалить",
+  "command.snooze.confirm": "Отложить",
+  "command.dismiss": "Не нужно",
+  "command.heard": "Вы сказали: «{text}»",
+  "command.pick": "Какое напоминание?",
+  "command.notFound": "Не найдено напоминание «{description}».",
+  "command.moveTo": "{from} → {to}",
+  "command.snoozeUntil": "Без уведомлений до {time}",
+  "query.title": "Ваши напоминания",
+  "query.close": "Закрыть",
+  "query.range": "{from} – {to}",
+  "query.count": "Найдено: {count}",
+  "query.none": "Ничего не найдено.",
+  "query.more": "Ещё: {count}",
+
+  "history.search": "Поиск напоминаний",
+  "history.view": "Вид",
+  "history.view.list": "Список",
+  "history.view.agenda": "Повестка",
+  "history.view.calendar": "Месяц",
+  "history.status": "Статус",
+  "history.status.all": "Любой статус",
+  "history.status.active": "Активные",
+  "history.confidence": "Уверенность",
+  "history.confidence.all": "Любая уверенность",
+  "history.confidence.high": "Высокая (>80%)",
+  "history.confidence.medium": "Средняя (51–80%)",
+  "history.confidence.low": "Низкая (≤50%)",
+  "history.from": "С даты",
+  "history.to": "По дату",
+  "history.rangeTo": "по",
+  "history.sort": "Сортировка",
+  "history.sort.created": "Сначала новые",
+  "history.sort.scheduledAsc": "Сначала ближайшие",
+  "history.sort.scheduledDesc": "Сначала поздние",
+  "history.clear": "Сбросить · {count} из {total}",
+  "history.confidenceValue": "Уверенность {percent}%",
+  "history.priority.all": "Любая важность",
+  "history.category.all": "Любая категория",
+  "history.tag.all": "Любой тег",
+  "history.location": "Место",
+  "history.groupBy": "Группировка",
+  "history.group.none": "Без группировки",
+  "history.group.priority": "По важности",
+  "history.group.category": "По категории",
+  "history.group.tag": "По тегу",
+  "history.group.location": "По месту",
+  "history.group.noCategory": "Без категории",
+  "history.group.noTag": "Без тегов",
+  "history.group.noLocation": "Без места",
+
+  "priority.low": "Низкая важность",
+  "priority.normal": "Обычная важность",
+  "priority.high": "Высокая важность",
+
+  "category.work": "Работа",
+  "category.personal": "Личное",
+  "category.health": "Здоровье",
+  "category.shopping": "Покупки",
+  "category.finance": "Финансы",
+  "category.travel": "Поездки",
+  "category.social": "Встречи",
+
+  "agenda.empty": "Ничего не запланировано.",
+  "agenda.today": "Сегодня",
+  "agenda.tomorrow": "Завтра",
+  "agenda.showMore": "Показать ещё дни (осталось {count})",
+
+  "calendar.previous": "Предыдущий месяц",
+  "calendar.next": "Следующий месяц",
+  "calendar.empty": "Нет напоминаний.",
+  "calendar.more": "ещё {count}",
+
+  "settings.title": "Настройки",
+  "settings.done": "Готово",
+  "settings.timeZone": "Часовой пояс",
+  "settings.timeZonePlaceholder": "например, Asia/Tashkent",
+  "settings.locale": "Язык и регион",
+  "settings.clock": "Формат времени",
+  "settings.clock.auto": "Как в регионе",
+  "settings.clock.12h": "12-часовой",
+  "settings.clock.24h": "24-часовой",
+  "settings.weekStart": "Начало недели",
+  "settings.weekStart.1": "Понедельник",
+  "settings.weekStart.0": "Воскресенье",
+  "settings.weekStart.6": "Суббота",
+  "settings.now": "Сейчас: {time}",
+  "settings.diagnostics": "Диагностика распознавания",
+  "diagnostics.title": "Диагностика распознавания",
+  "diagnostics.empty": "Пока ничего не записано. Каждое распознавание добавляет сюда запись.",
+  "diagnostics.parses": "Распознаваний",
+  "diagnostics.failed": "С ошибкой",
+  "diagnostics.fallbacks": "Локальный разбор",
+  "diagnostics.inputs": "Текст / аудио",
+  "diagnostics.inputsValue": "{text} / {audio}",
+  "diagnostics.latency": "Задержка (средняя / p50 / p95)",
+  "diagnostics.tokens": "Токены (вход / выход)",
+  "diagnostics.cost": "Примерная стоимость",
+  "diagnostics.errors": "Ошибки",
+  "diagnostics.models": "Модели",
+  "diagnostics.recent": "Последние распознавания",
+  "diagnostics.textSize": "Символов: {count}",
+  "diagnostics.audioSize": "{size} КБ",
+  "diagnostics.privacy": "Хранится только на этом устройстве. Записи содержат время, размеры, число токенов и ошибки, но не то, что вы написали или сказали.",
+  "diagnostics.clear": "Очистить",
+  "diagnostics.export": "Экспорт JSON",
+  "queue.title": "В обработке",
+  "queue.voice": "Голосовое сообщение ({size} КБ)",
+  "queue.queued": "В очереди…",
+  "queue.processing": "Обрабатывается…",
+  "queue.retrying": "Повтор в {time} (попытка {attempt} из {max})",
+  "queue.offline": "Ждёт подключения к сети",
+  "queue.failed": "Не удалось",
+  "queue.cancel": "Отменить",
+  "queue.retry": "Повторить",
+  "queue.dismiss": "Убрать",
+
+  "notification.title": "Напоминание Chronos",
+  "notification.snooze": "Отложить на {duration}",
+  "notification.dismiss": "Закрыть",
+  "notification.comingUp": "Скоро, в {time}",
+  "notification.leadBody": "{content} (через {left})",
+  "notification.missedTitle": "Пропущенные напоминания",
+  "notification.missedOne": "Вы пропустили: {content}",
+  "notification.missedMany": "Пропущено напоминаний, пока Chronos был закрыт: {count}.",
+
+  "timeTravel.title": "Путешествие во времени (dev)",
+  "timeTravel.at": "Считать, что сейчас ({zone})",
+  "timeTravel.freeze": "Остановить часы",
+  "timeTravel.beforeMidnight": "Перед полуночью",
+  "timeTravel.travel": "Переместиться",
+  "timeTravel.reset": "Вернуться в настоящее",
+  "timeTravel.active": "Включено путешествие во времени",
+};
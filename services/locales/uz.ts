@@ -0,0 +1,277 @@
+import { Catalogue } from "./en";
+
+export const uz: Catalogue = {
+  "app.enableNotifications": "Bildirishnomalarni yoqish",
+  "app.settings": "Sozlamalar",
+  "app.heroTitleStart": "Vaqt",
+  "app.heroTitleEnd": "niyat",
+  "app.heroSubtitle": "Odatdagidek gapiring yoki yozing. Chronos Gemini 2.5 yordamida fikrlaringizdan aniq vaqt va eslatmalarni ajratib oladi.",
+  "app.orTypeIt": "Yoki yozing",
+  "app.inputPlaceholder": "masalan: “Kelasi seshanba soat 14:00 da loyiha bo‘yicha Jasurga qo‘ng‘iroq qilishni eslat”",
+  "app.remindMe": "Eslatish",
+  "app.importProgress": "Import qilinmoqda {done}/{total}…",
+  "app.importText": "Matnli fayldan import (har qatorda bitta eslatma)",
+  "app.restoreBackup": ".ics yoki JSON dan tiklash",
+  "app.recentParses": "So‘nggi eslatmalar",
+  "app.exportIcs": ".ics eksport",
+  "app.exportJson": "JSON eksport",
+  "app.noMatches": "Filtrlarga mos eslatma yo‘q.",
+  "app.showMore": "Yana ko‘rsatish ({count} ta qoldi)",
+  "app.reminderDeleted": "Eslatma o‘chirildi",
+  "app.undo": "Bekor qilish",
+
+  "error.answerFailed": "Javobingizni qo‘llab bo‘lmadi. Variantlardan birini tanlang.",
+  "error.unusableReminder": "Sun’iy intellekt yaroqsiz eslatma qaytardi. Boshqacha yozib, qayta urinib ko‘ring.",
+  "error.processFailed": "Kiritilgan matnni qayta ishlab bo‘lmadi. Qayta urinib ko‘ring.",
+  "error.emptyImportFile": "Bu faylda eslatmalar yo‘q.",
+  "error.importLinesFailed": "{total} ta qatordan {failed} tasini import qilib bo‘lmadi.",
+  "error.importFailed": "Bu faylni import qilib bo‘lmadi.",
+  "error.importInvalidJson": "Fayl yaroqli JSON emas.",
+  "error.importNoList": "JSON faylda eslatmalar ro‘yxati yo‘q.",
+  "error.importEmpty": "Faylda eslatma topilmadi.",
+  "error.saveFailed": "Eslatmani saqlab bo‘lmadi. Qayta urinib ko‘ring.",
+  "error.microphone": "Mikrofonga ruxsat yo‘q. Ruxsatlarni tekshiring.",
+  "error.microphoneMissing": "Mikrofon topilmadi.",
+  "error.microphoneBusy": "Mikrofon boshqa ilova tomonidan band.",
+  "error.recordingUnsupported": "Bu brauzer ovoz yozolmaydi. Uning o'rniga audio fayl yuklashingiz mumkin.",
+  "error.audioFileType": "Bu fayl audio yozuv emas.",
+  "error.audioFileTooLarge": "Audio fayl hajmi {size} MB dan oshmasligi kerak.",
+  "error.audioUnreadable": "Audio faylni o'qib bo'lmadi.",
+  "error.network": "Eslatmalar xizmatiga ulanib bo'lmadi. Internetni tekshirib, qayta urinib ko'ring.",
+  "error.rateLimited": "So'rovlar juda ko'p. {seconds} soniya kutib, qayta urinib ko'ring.",
+  "error.tooLarge": "Bu juda uzun. Qisqaroq yozuv yoki xabar yuboring.",
+  "error.unsupportedAudio": "Bu audio formati qo'llab-quvvatlanmaydi.",
+  "error.upstream": "Sun'iy intellekt xizmati javob bermadi. Qayta urinib ko'ring.",
+  "error.unauthorized": "Telegram hisobingizni tasdiqlab bo'lmadi. Ilovani Telegramdan qayta oching.",
+  "error.quota": "Sun’iy intellekt xizmatining limiti tugadi. Keyinroq urinib ko‘ring.",
+  "error.upstreamAuth": "Eslatma xizmati sun’iy intellekt xizmatiga ulana olmadi. Keyinroq urinib ko‘ring.",
+  "error.timeout": "Eslatmalar xizmati juda uzoq javob bermadi. Qaytadan urinib ko‘ring.",
+  "error.cancelled": "Bekor qilindi.",
+
+  "recorder.processing": "Audio qayta ishlanmoqda...",
+  "recorder.ready": "Yozishga tayyor",
+  "recorder.start": "Yozishni boshlash",
+  "recorder.stop": "To'xtatish va yuborish",
+  "recorder.discard": "Yozuvni bekor qilish",
+  "recorder.timeLeft": "{time} qoldi",
+  "recorder.autoStop": "Gapirib bo'lganingizda yozuv o'zi to'xtaydi",
+  "recorder.upload": "yoki audio fayl yuklang",
+  "recorder.dropHere": "Audio faylni shu yerga tashlang",
+  "recorder.listening": "Tinglayapman…",
+  "recorder.provisional": "Hozircha:",
+
+  "card.status.scheduled": "Rejalashtirilgan",
+  "card.status.fired": "Ishga tushdi",
+  "card.status.snoozed": "Kechiktirilgan",
+  "card.status.missed": "O‘tkazib yuborilgan",
+  "card.status.failed": "Xato",
+  "card.status.done": "Bajarildi",
+  "card.status.needsChoice": "Tanlash kerak",
+  "card.snoozedUntil": "{time} gacha",
+  "card.confidence": "Ishonch:",
+  "card.edited": "· tahrirlangan",
+  "card.editedHint": "Tahlildan keyin tuzatilgan",
+  "card.notUnderstood": "Eslatmani tushunib bo‘lmadi.",
+  "card.time": "Vaqt",
+  "card.noTime": "Yo‘q",
+  "card.timesIn": "Vaqt {zone} mintaqasida",
+  "card.repeats": "Takrorlanadi",
+  "card.repeatsRaw": "Takrorlanadi ({rule})",
+  "card.whichDidYouMean": "Qaysi birini nazarda tutdingiz?",
+  "card.answer": "Javob berish",
+  "card.edit": "Tahrirlash",
+  "card.markDone": "Bajarildi deb belgilash",
+  "card.markActive": "Faol qilish",
+  "card.downloadIcs": ".ics yuklab olish",
+  "card.delete": "O‘chirish",
+  "card.delivery.pending": "Telegramga yuborilmoqda…",
+  "card.delivery.sent": "Telegramga yuborildi",
+  "card.delivery.failed": "Telegramga yuborilmadi — qayta urinamiz",
+  "card.delivery.attempts": "{error} ({attempts} urinish)",
+  "card.leadTimes": "{times} oldin eslatish",
+  "card.location": "Joy",
+
+  "recurrence.weekdays": "Har ish kuni",
+  "recurrence.every.DAILY": "Har kuni",
+  "recurrence.every.WEEKLY": "Har hafta",
+  "recurrence.every.MONTHLY": "Har oy",
+  "recurrence.every.YEARLY": "Har yili",
+  "recurrence.everyN.DAILY": "Har {count} kunda",
+  "recurrence.everyN.WEEKLY": "Har {count} haftada",
+  "recurrence.everyN.MONTHLY": "Har {count} oyda",
+  "recurrence.everyN.YEARLY": "Har {count} yilda",
+  "recurrence.inMonths": "{months} oylarida",
+  "recurrence.onWeekdays": "{days} kunlari",
+  "recurrence.nthWeekday": "{ordinal}-{weekday}",
+  "recurrence.lastWeekday": "oxirgi {weekday}",
+  "recurrence.nthLastWeekday": "oxiridan {ordinal}-{weekday}",
+  "recurrence.onMonthDays": "{days}",
+  "recurrence.monthDay": "{day}-kuni",
+  "recurrence.lastMonthDay": "oxirgi kuni",
+  "recurrence.nthLastMonthDay": "oxiridan {ordinal}-kuni",
+  "recurrence.ordinal1": "1",
+  "recurrence.ordinal2": "2",
+  "recurrence.ordinal3": "3",
+  "recurrence.ordinal4": "4",
+  "recurrence.ordinal5": "5",
+  "recurrence.ordinalN": "{n}",
+  "recurrence.once": "bir marta",
+  "recurrence.times": "{count} marta",
+  "recurrence.until": "{date} gacha",
+
+  "form.reminder": "Eslatma",
+  "form.time": "Vaqt",
+  "form.cancel": "Bekor qilish",
+  "form.save": "Saqlash",
+  "form.priority": "Muhimlik",
+  "form.category": "Toifa",
+  "form.noCategory": "Toifasiz",
+  "form.tags": "Teglar, vergul bilan",
+  "form.location": "Joy",
+  "form.leadTimes": "Oldindan eslatish",
+
+  "review.title": "Saqlashdan oldin tekshiring",
+  "review.transcript": "Biz eshitgan matn",
+  "review.reminderOf": "Eslatma {index} / {total}",
+  "review.remove": "Olib tashlash",
+  "review.discard": "Bekor qilish",
+  "review.reparse": "Qayta tahlil qilish",
+  "review.reparseFirst": "Avval tuzatilgan matnni qayta tahlil qiling",
+  "command.reschedule.title": "Eslatmani ko‘chirasizmi?",
+  "command.cancel.title": "Eslatmani o‘chirasizmi?",
+  "command.snooze.title": "Eslatmani kechiktirasizmi?",
+  "command.reschedule.confirm": "Ko‘chirish",
+  "command.cancel.confirm": "O‘chirish",
+  "command.snooze.confirm": "Kechiktirish",
+  "command.dismiss": "Kerak emas",
+  "command.heard": "Siz aytdingiz: “{text}”",
+  "command.pick": "Qaysi eslatma?",
+  "command.notFound": "“{description}” ga mos eslatma topilmadi.",
+  "command.moveTo": "{from} → {to}",
+  "command.snoozeUntil": "{time} gacha bildirishnomasiz",
+  "query.title": "Eslatmalaringiz",
+  "query.close": "Yopish",
+  "query.range": "{from} – {to}",
+  "query.count": "Topildi: {count}",
+  "query.none": "Hech narsa topilmadi.",
+  "query.more": "Yana: {count}",
+
+  "history.search": "Eslatmalarni qidirish",
+  "history.view": "Ko‘rinish",
+  "history.view.list": "Ro‘yxat",
+  "history.view.agenda": "Kun tartibi",
+  "history.view.calendar": "Oy",
+  "history.status": "Holat",
+  "history.status.all": "Istalgan holat",
+  "history.status.active": "Faol",
+  "history.confidence": "Ishonch",
+  "history.confidence.all": "Istalgan ishonch",
+  "history.confidence.high": "Yuqori (>80%)",
+  "history.confidence.medium": "O‘rta (51–80%)",
+  "history.confidence.low": "Past (≤50%)",
+  "history.from": "Boshlanish sanasi",
+  "history.to": "Tugash sanasi",
+  "history.rangeTo": "—",
+  "history.sort": "Saralash",
+  "history.sort.created": "Avval yangilari",
+  "history.sort.scheduledAsc": "Avval yaqinlari",
+  "history.sort.scheduledDesc": "Avval kechlari",
+  "history.clear": "Tozalash · {total} dan {count}",
+  "history.confidenceValue": "Ishonch {percent}%",
+  "history.priority.all": "Har qanday muhimlik",
+  "history.category.all": "Har qanday toifa",
+  "history.tag.all": "Har qanday teg",
+  "history.location": "Joy",
+  "history.groupBy": "Guruhlash",
+  "history.group.none": "Guruhlamasdan",
+  "history.group.priority": "Muhimlik bo‘yicha",
+  "history.group.category": "Toifa bo‘yicha",
+  "history.group.tag": "Teg bo‘yicha",
+  "history.group.location": "Joy bo‘yicha",
+  "history.group.noCategory": "Toifasiz",
+  "history.group.noTag": "Tegsiz",
+  "history.group.noLocation": "Joysiz",
+
+  "priority.low": "Past muhimlik",
+  "priority.normal": "Oddiy muhimlik",
+  "priority.high": "Yuqori muhimlik",
+
+  "category.work": "Ish",
+  "category.personal": "Shaxsiy",
+  "category.health": "Salomatlik",
+  "category.shopping": "Xaridlar",
+  "category.finance": "Moliya",
+  "category.travel": "Safar",
+  "category.social": "Uchrashuvlar",
+
+  "agenda.empty": "Rejalashtirilgan narsa yo‘q.",
+  "agenda.today": "Bugun",
+  "agenda.tomorrow": "Ertaga",
+  "agenda.showMore": "Yana kunlarni ko‘rsatish ({count} ta qoldi)",
+
+  "calendar.previous": "Oldingi oy",
+  "calendar.next": "Keyingi oy",
+  "calendar.empty": "Eslatmalar yo‘q.",
+  "calendar.more": "yana {count}",
+
+  "settings.title": "Sozlamalar",
+  "settings.done": "Tayyor",
+  "settings.timeZone": "Vaqt mintaqasi",
+  "settings.timeZonePlaceholder": "masalan, Asia/Tashkent",
+  "settings.locale": "Til va mintaqa",
+  "settings.clock": "Soat formati",
+  "settings.clock.auto": "Mintaqa bo‘yicha",
+  "settings.clock.12h": "12 soatlik",
+  "settings.clock.24h": "24 soatlik",
+  "settings.weekStart": "Hafta boshlanadi",
+  "settings.weekStart.1": "Dushanba",
+  "settings.weekStart.0": "Yakshanba",
+  "settings.weekStart.6": "Shanba",
+  "settings.now": "Hozir: {time}",
+  "settings.diagnostics": "Tahlil diagnostikasi",
+  "diagnostics.title": "Tahlil diagnostikasi",
+  "diagnostics.empty": "Hozircha hech narsa yozilmagan. Har bir tahlil bu yerga yozuv qo‘shadi.",
+  "diagnostics.parses": "Tahlillar",
+  "diagnostics.failed": "Xatolik bilan",
+  "diagnostics.fallbacks": "Mahalliy tahlil",
+  "diagnostics.inputs": "Matn / audio",
+  "diagnostics.inputsValue": "{text} / {audio}",
+  "diagnostics.latency": "Kechikish (o‘rtacha / p50 / p95)",
+  "diagnostics.tokens": "Tokenlar (kirish / chiqish)",
+  "diagnostics.cost": "Taxminiy narx",
+  "diagnostics.errors": "Xatolar",
+  "diagnostics.models": "Modellar",
+  "diagnostics.recent": "So‘nggi tahlillar",
+  "diagnostics.textSize": "Belgilar: {count}",
+  "diagnostics.audioSize": "{size} KB",
+  "diagnostics.privacy": "Faqat shu qurilmada saqlanadi. Yozuvlarda vaqt, hajm, tokenlar soni va xatolar bor, yozgan yoki aytgan gaplaringiz emas.",
+  "diagnostics.clear": "Tozalash",
+  "diagnostics.export": "JSON eksport",
+  "queue.title": "Jarayonda",
+  "queue.voice": "Ovozli xabar ({size} KB)",
+  "queue.queued": "Navbatda…",
+  "queue.processing": "Ishlanmoqda…",
+  "queue.retrying": "{time} da qayta urinish ({max} tadan {attempt}-urinish)",
+  "queue.offline": "Internet aloqasi kutilmoqda",
+  "queue.failed": "Bajarilmadi",
+  "queue.cancel": "Bekor qilish",
+  "queue.retry": "Qayta urinish",
+  "queue.dismiss": "Olib tashlash",
+
+  "notification.title": "Chronos eslatmasi",
+  "notification.snooze": "{duration} keyinga surish",
+  "notification.dismiss": "Yopish",
+  "notification.comingUp": "Tez orada, soat {time} da",
+  "notification.leadBody": "{content} ({left} dan keyin)",
+  "notification.missedTitle": "O‘tkazib yuborilgan eslatmalar",
+  "notification.missedOne": "O‘tkazib yuborildi: {content}",
+  "notification.missedMany": "Chronos yopiq bo‘lganida o‘tkazib yuborilgan eslatmalar: {count}.",
+
+  "timeTravel.title": "Vaqt sayohati (dev)",
+  "timeTravel.at": "Hozir deb hisoblash ({zone})",
+  "timeTravel.freeze": "Soatni to'xtatish",
+  "timeTravel.beforeMidnight": "Yarim tundan oldin",
+  "timeTravel.travel": "O'tish",
+  "timeTravel.reset": "Haqiqiy vaqtga qaytish",
+  "timeTravel.active": "Vaqt sayohati yoqilgan",
+};
@@ -0,0 +1,281 @@
+import { HistoryItem, ScheduleState } from "../types";
+import { SchedulerConfig, schedulerConfig } from "./config";
+import { DisplaySettings, formatInstant } from "./formatting";
+import { Translate } from "./i18n";
+import { expandOccurrences } from "./recurrence";
+import { isDone } from "./historyEdits";
+import { hasValidTime, needsClarification } from "./reminderStatus";
+import { toIsoUtc } from "./timeZone";
+
+// Fires browser notifications for saved reminders. The page keeps the timer
+// and shows notifications through the service worker (public/sw.js) so they
+// appear even while the tab is in the background; snooze/dismiss clicks come
+// back as messages. Reminders that came due while the app was closed are
+// fired on startup if recent, otherwise marked missed. Lead-time alerts go
+// out ahead of each occurrence and are simply dropped if they come too late.
+
+export type NotificationAction = "snooze" | "dismiss";
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+// Long waits are split up so sleep/wake and clock changes get noticed.
+const MAX_TIMER_MS = 5 * 60_000;
+const MINUTE_MS = 60_000;
+
+const shortDuration = (ms: number, locale: string): string => {
+  const minutes = Math.max(1, Math.round(ms / MINUTE_MS));
+  const [value, unit]: [number, string] = minutes < 60 ? [minutes, "minute"]
+    : minutes < 1440 ? [Math.round(minutes / 60), "hour"]
+    : [Math.round(minutes / 1440), "day"];
+  return new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "short" }).format(value);
+};
+
+// Ambiguous reminders wait until the user settles which time they meant.
+export const isSchedulable = (item: HistoryItem): boolean =>
+  hasValidTime(item) && !needsClarification(item) && !isDone(item);
+
+/**
+ * When the item's next notification is due, or null if nothing is pending.
+ */
+export const nextDueAt = (item: HistoryItem): number | null => {
+  if (!isSchedulable(item)) return null;
+  if (!item.schedule) return Date.parse(item.scheduled_time);
+  return item.schedule.nextFireAt ? Date.parse(item.schedule.nextFireAt) : null;
+};
+
+/** The occurrence lead-time alerts count down to; none while snoozed. */
+const upcomingOccurrence = (item: HistoryItem): number | null => {
+  if (!isSchedulable(item) || !item.lead_time_minutes?.length) return null;
+  if (!item.schedule) return Date.parse(item.scheduled_time);
+  if (item.schedule.status === "snoozed" || !item.schedule.nextFireAt) return null;
+  return Date.parse(item.schedule.nextFireAt);
+};
+
+export interface LeadAlert {
+  minutes: number;
+  at: number;
+  occurrence: number;
+}
+
+/** The earliest lead-time alert not yet sent for the upcoming occurrence. */
+export const nextLeadAlert = (item: HistoryItem): LeadAlert | null => {
+  const occurrence = upcomingOccurrence(item);
+  if (occurrence === null) return null;
+  const sent = new Set(item.schedule?.leadAlertsSent ?? []);
+  // Largest lead first is earliest first.
+  const minutes = [...item.lead_time_minutes!].sort((a, b) => b - a).find((m) => !sent.has(m));
+  return minutes === undefined ? null : { minutes, at: occurrence - minutes * MINUTE_MS, occurrence };
+};
+
+const nextOccurrence = (item: HistoryItem, after: Date, timeZone: string): string | undefined => {
+  if (!item.recurrence_rule) return undefined;
+  try {
+    // A rule stated in another zone repeats on that zone's wall clock.
+    const [next] = expandOccurrences(item, { timeZone: item.source_timezone ?? timeZone, after, limit: 1 });
+    return next ? toIsoUtc(next) : undefined;
+  } catch (err) {
+    console.warn("Could not compute next occurrence:", err);
+    return undefined;
+  }
+};
+
+const withSchedule = (item: HistoryItem, schedule: Omit<ScheduleState, "updatedAt">, now: Date): HistoryItem => ({
+  ...item,
+  schedule: { ...schedule, updatedAt: toIsoUtc(now) },
+});
+
+export const markFired = (item: HistoryItem, now: Date, timeZone: string): HistoryItem =>
+  withSchedule(item, { status: "fired", firedAt: toIsoUtc(now), nextFireAt: nextOccurrence(item, now, timeZone) }, now);
+
+export const markMissed = (item: HistoryItem, now: Date, timeZone: string): HistoryItem =>
+  withSchedule(item, { status: "missed", nextFireAt: nextOccurrence(item, now, timeZone) }, now);
+
+/** Records a lead-time alert as handled, whether or not it was shown. */
+export const markLeadAlertSent = (item: HistoryItem, alert: LeadAlert, now: Date): HistoryItem =>
+  withSchedule(item, {
+    ...item.schedule,
+    status: item.schedule?.status ?? "scheduled",
+    nextFireAt: item.schedule?.nextFireAt ?? toIsoUtc(new Date(alert.occurrence)),
+    leadAlertsSent: [...(item.schedule?.leadAlertsSent ?? []), alert.minutes],
+  }, now);
+
+/** Holds the item's next notification until `until`. */
+export const snoozeUntil = (item: HistoryItem, until: Date, now: Date): HistoryItem =>
+  withSchedule(item, { ...item.schedule, status: "snoozed", nextFireAt: toIsoUtc(until) }, now);
+
+export const applyNotificationAction = (
+  item: HistoryItem,
+  action: NotificationAction,
+  now: Date,
+  snoozeMinutes: number
+): HistoryItem => {
+  if (action === "snooze") return snoozeUntil(item, new Date(now.getTime() + snoozeMinutes * MINUTE_MS), now);
+  return withSchedule(item, { ...item.schedule, status: item.schedule?.status ?? "fired", acknowledgedAt: toIsoUtc(now) }, now);
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!("serviceWorker" in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (err) {
+    console.warn("Service worker registration failed:", err);
+    return null;
+  }
+};
+
+export const notificationsSupported = () => typeof Notification !== "undefined";
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  notificationsSupported() ? Notification.requestPermission() : "denied";
+
+const showNotification = async (title: string, options: NotificationOptions & { actions?: unknown[] }) => {
+  if (!notificationsSupported() || Notification.permission !== "granted") return;
+  const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+};
+
+export interface SchedulerOptions {
+  save: (item: HistoryItem) => Promise<void>;
+  /** Zone repeats and times are computed in, and how times are shown. */
+  settings: DisplaySettings;
+  /** Notification text in the user's language. */
+  t: Translate;
+  config?: SchedulerConfig;
+  now?: () => Date;
+}
+
+export interface ReminderScheduler {
+  /** Replaces the set of reminders being watched and re-arms the timer. */
+  sync(items: HistoryItem[]): void;
+  handleAction(id: string, action: NotificationAction): Promise<void>;
+  stop(): void;
+}
+
+export const createReminderScheduler = ({
+  save,
+  settings,
+  t,
+  config = schedulerConfig,
+  now = () => new Date(),
+}: SchedulerOptions): ReminderScheduler => {
+  const { timeZone } = settings;
+  let items = new Map<string, HistoryItem>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Items whose fired/missed state is being saved, so a re-sync in between
+  // doesn't notify twice.
+  const processing = new Set<string>();
+
+  const notifyReminder = (item: HistoryItem) =>
+    showNotification(t("notification.title"), {
+      body: item.reminder_content || item.originalInput,
+      // The tag collapses duplicates if more than one tab fires the same reminder.
+      tag: item.id,
+      requireInteraction: true,
+      data: { id: item.id, snoozeMs: config.snoozeMinutes * MINUTE_MS },
+      actions: [
+        { action: "snooze", title: t("notification.snooze", { duration: shortDuration(config.snoozeMinutes * MINUTE_MS, settings.locale) }) },
+        { action: "dismiss", title: t("notification.dismiss") },
+      ],
+    });
+
+  const notifyLeadAlert = (item: HistoryItem, alert: LeadAlert, current: Date) => {
+    const time = formatInstant(new Date(alert.occurrence), settings, { timeStyle: "short" });
+    const left = shortDuration(alert.occurrence - current.getTime(), settings.locale);
+    const body = t("notification.leadBody", { content: item.reminder_content || item.originalInput, left });
+    return showNotification(t("notification.comingUp", { time }), {
+      body: item.location ? `${body} · ${item.location}` : body,
+      tag: `${item.id}:lead`,
+      data: { id: item.id },
+    });
+  };
+
+  const tick = async () => {
+    const current = now();
+    const graceMs = config.catchUpGraceMinutes * MINUTE_MS;
+    const missed: HistoryItem[] = [];
+    const updates: Promise<void>[] = [];
+
+    for (const item of items.values()) {
+      if (processing.has(item.id)) continue;
+
+      // Once the occurrence itself is due, firing it also clears its alerts.
+      const alert = nextLeadAlert(item);
+      if (alert && alert.at <= current.getTime() && current.getTime() < alert.occurrence) {
+        processing.add(item.id);
+        // A heads-up that arrives long after it was due is noise.
+        if (current.getTime() - alert.at <= graceMs) notifyLeadAlert(item, alert, current).catch((err) => console.warn("Could not show notification:", err));
+        const updated = markLeadAlertSent(item, alert, current);
+        items.set(item.id, updated);
+        updates.push(save(updated).finally(() => processing.delete(item.id)));
+        continue;
+      }
+
+      const due = nextDueAt(item);
+      if (due === null || due > current.getTime()) continue;
+
+      processing.add(item.id);
+      let updated: HistoryItem;
+      if (current.getTime() - due > graceMs) {
+        updated = markMissed(item, current, timeZone);
+        missed.push(item);
+      } else {
+        updated = markFired(item, current, timeZone);
+        notifyReminder(item).catch((err) => console.warn("Could not show notification:", err));
+      }
+      // Track the new state locally right away; the saved copy comes back via sync().
+      items.set(item.id, updated);
+      updates.push(save(updated).finally(() => processing.delete(item.id)));
+    }
+
+    if (missed.length > 0) {
+      showNotification(t("notification.missedTitle"), {
+        body: missed.length === 1
+          ? t("notification.missedOne", { content: missed[0].reminder_content })
+          : t("notification.missedMany", { count: missed.length }),
+        tag: "chronos-missed",
+      }).catch((err) => console.warn("Could not show notification:", err));
+    }
+
+    await Promise.allSettled(updates);
+  };
+
+  const arm = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const dues = [...items.values()]
+      .flatMap((item) => [nextDueAt(item), nextLeadAlert(item)?.at ?? null])
+      .filter((due): due is number => due !== null);
+    if (dues.length === 0) return;
+
+    const delay = Math.max(0, Math.min(Math.min(...dues) - now().getTime(), MAX_TIMER_MS));
+    timer = setTimeout(() => {
+      tick().finally(arm);
+    }, delay);
+  };
+
+  return {
+    sync(next) {
+      items = new Map(next.map((item) => [item.id, item]));
+      arm();
+    },
+
+    async handleAction(id, action) {
+      const item = items.get(id);
+      if (!item) return;
+      const updated = applyNotificationAction(item, action, now(), config.snoozeMinutes);
+      items.set(id, updated);
+      arm();
+      await save(updated);
+    },
+
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
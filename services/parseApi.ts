@@ -0,0 +1,164 @@
+import { ReminderData } from "../types";
+import { ContextReminder, ParseInput, ReminderCommand, TokenUsage } from "./parserContract";
+import { ParseRequest } from "./providers/types";
+import { isValidTimeZone } from "./timeZone";
+import { ValidationIssue } from "./validation";
+
+// The contract between the browser and the parse server (server/). The
+// server owns the model API key; the browser sends what a provider would get
+// and receives the provider's raw answer, which it validates as usual.
+
+export const PARSE_API_PATH = "/api/parse";
+/** Relays a delivery to the webhook once its `chat_id` is proven (server/telegramAuth.ts). */
+export const DELIVER_API_PATH = "/api/deliver";
+/** Carries the Mini App's signed `initData`, identifying the Telegram user. */
+export const TELEGRAM_INIT_DATA_HEADER = "X-Telegram-Init-Data";
+
+export interface ParseApiRequest {
+  input: ParseInput;
+  /** UTC ISO; the client's clock, so time travel and tests carry through. */
+  now: string;
+  timeZone: string;
+  locale?: string;
+  correction?: string;
+  context?: ContextReminder[];
+}
+
+export interface ParseApiResponse {
+  reminders: ReminderData[];
+  rawText: string;
+  command?: ReminderCommand;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Why a request failed. `invalid_response` carries validation issues so the
+ * client can retry with a correction; `network`, `timeout` and `aborted` are
+ * only raised client-side.
+ * `rate_limited` is this server's own limit, `quota_exceeded` the model
+ * account's, and `upstream_auth` means the server's model key was refused.
+ */
+export type ParseApiErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "payload_too_large"
+  | "unsupported_media_type"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "invalid_response"
+  | "upstream_auth"
+  | "upstream_error"
+  | "network"
+  | "timeout"
+  | "aborted";
+
+export interface ParseApiErrorBody {
+  error: {
+    code: ParseApiErrorCode;
+    message: string;
+    retryAfterMs?: number;
+    issues?: ValidationIssue[];
+  };
+}
+
+export class ParseApiError extends Error {
+  readonly code: ParseApiErrorCode;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(code: ParseApiErrorCode, message: string, { status, retryAfterMs }: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "ParseApiError";
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const toParseApiRequest = ({ input, now, timeZone, locale, correction, context }: ParseRequest): ParseApiRequest => ({
+  input,
+  now: now.toISOString(),
+  timeZone,
+  locale,
+  correction,
+  context,
+});
+
+/** Most existing reminders a request may carry as command context. */
+export const MAX_CONTEXT_REMINDERS = 50;
+const MAX_CONTEXT_FIELD_CHARS = 200;
+
+export interface RequestLimits {
+  maxTextChars: number;
+  /** Decoded size limit for audio. */
+  maxAudioBytes: number;
+}
+
+/** Bytes represented by a base64 string, without decoding it. */
+export const base64Size = (data: string): number => {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isContextReminder = (value: unknown): value is ContextReminder => {
+  if (typeof value !== "object" || value === null) return false;
+  const { id, reminder_content, scheduled_time, recurrence_rule } = value as Record<string, unknown>;
+  return [id, reminder_content, scheduled_time].every((field) => isString(field) && field.length <= MAX_CONTEXT_FIELD_CHARS) &&
+    (recurrence_rule === undefined || (isString(recurrence_rule) && recurrence_rule.length <= MAX_CONTEXT_FIELD_CHARS));
+};
+
+/**
+ * Checks an incoming request body and turns it back into a provider request.
+ * Throws `ParseApiError` describing the first problem found.
+ */
+export const fromParseApiRequest = (body: unknown, limits: RequestLimits): ParseRequest => {
+  const invalid = (message: string) => new ParseApiError("invalid_request", message, { status: 400 });
+  if (typeof body !== "object" || body === null) throw invalid("Body must be a JSON object");
+  const { input, now, timeZone, locale, correction, context } = body as Record<string, unknown>;
+
+  let parsedInput: ParseInput;
+  if (isString(input)) {
+    if (!input.trim()) throw invalid("input must not be empty");
+    if (input.length > limits.maxTextChars) {
+      throw new ParseApiError("payload_too_large", `Text is limited to ${limits.maxTextChars} characters`, { status: 413 });
+    }
+    parsedInput = input;
+  } else if (typeof input === "object" && input !== null) {
+    const { data, mimeType } = input as Record<string, unknown>;
+    if (!isString(data) || !data || !isString(mimeType)) throw invalid("Audio input needs data and mimeType");
+    if (!mimeType.startsWith("audio/")) {
+      throw new ParseApiError("unsupported_media_type", `${mimeType} is not an audio type`, { status: 415 });
+    }
+    if (base64Size(data) > limits.maxAudioBytes) {
+      throw new ParseApiError("payload_too_large", `Audio is limited to ${limits.maxAudioBytes} bytes`, { status: 413 });
+    }
+    parsedInput = { data, mimeType };
+  } else {
+    throw invalid("input must be text or audio");
+  }
+
+  if (!isString(now) || Number.isNaN(Date.parse(now))) throw invalid("now must be an ISO timestamp");
+  if (!isString(timeZone) || !isValidTimeZone(timeZone)) throw invalid("timeZone must be an IANA zone");
+  if (locale !== undefined && !isString(locale)) throw invalid("locale must be a string");
+  if (correction !== undefined && (!isString(correction) || correction.length > limits.maxTextChars * 4)) {
+    throw invalid("correction must be a short string");
+  }
+  if (context !== undefined) {
+    if (!Array.isArray(context) || context.length > MAX_CONTEXT_REMINDERS) {
+      throw invalid(`context must be an array of at most ${MAX_CONTEXT_REMINDERS} reminders`);
+    }
+    if (!context.every(isContextReminder)) throw invalid("context entries need a short id, reminder_content and scheduled_time");
+  }
+
+  return {
+    input: parsedInput,
+    now: new Date(now),
+    timeZone,
+    locale: locale as string | undefined,
+    correction: correction as string | undefined,
+    context: context as ContextReminder[] | undefined,
+  };
+};
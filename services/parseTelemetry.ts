@@ -0,0 +1,220 @@
+import { telemetryConfig } from "./config";
+import { ParseApiError, ParseApiErrorCode, base64Size } from "./parseApi";
+import { ParseInput, TokenUsage } from "./parserContract";
+import { ProviderError, ProviderErrorCode, ReminderParser } from "./providers/types";
+import { ReminderValidationError } from "./validation";
+
+// What each parse cost: how long it took, which model answered, the tokens
+// it used and how it failed. Entries stay in localStorage on this device;
+// nothing is sent anywhere unless the user exports them from the
+// diagnostics panel.
+
+/**
+ * Why a parse failed, coarse enough to act on: `network` is the user's
+ * connection, `quota` and `rate_limited` mean waiting helps, `auth` needs a
+ * fix on someone's side, and `invalid_response` means the model answered
+ * with something unusable.
+ */
+export type ParseErrorClass =
+  | "network"
+  | "quota"
+  | "rate_limited"
+  | "auth"
+  | "invalid_response"
+  | "invalid_request"
+  | "too_large"
+  | "unsupported_audio"
+  | "upstream"
+  | "timeout"
+  | "aborted"
+  | "unknown";
+
+const API_ERROR_CLASSES: Record<ParseApiErrorCode, ParseErrorClass> = {
+  invalid_request: "invalid_request",
+  unauthorized: "auth",
+  payload_too_large: "too_large",
+  unsupported_media_type: "unsupported_audio",
+  rate_limited: "rate_limited",
+  quota_exceeded: "quota",
+  invalid_response: "invalid_response",
+  upstream_auth: "auth",
+  upstream_error: "upstream",
+  network: "network",
+  timeout: "timeout",
+  aborted: "aborted",
+};
+
+const PROVIDER_ERROR_CLASSES: Record<ProviderErrorCode, ParseErrorClass> = {
+  auth: "auth",
+  quota: "quota",
+  network: "network",
+  upstream: "upstream",
+};
+
+export const classifyParseError = (error: unknown): ParseErrorClass => {
+  if (error instanceof ReminderValidationError) return "invalid_response";
+  if (error instanceof ParseApiError) return API_ERROR_CLASSES[error.code];
+  if (error instanceof ProviderError) return PROVIDER_ERROR_CLASSES[error.code];
+  return "unknown";
+};
+
+export interface ParseTelemetryEntry {
+  /** Wall-clock time the parse started; real time even while time travelling. */
+  at: string;
+  latencyMs: number;
+  /** The parser used, e.g. "proxy". */
+  provider: string;
+  /** The model that answered last, if any did. */
+  model?: string;
+  inputType: "text" | "audio";
+  /** Characters of text, or decoded bytes of audio. */
+  inputSize: number;
+  mimeType?: string;
+  /** Model calls made, counting the correction retry. Zero when the local parser answered alone. */
+  calls: number;
+  /** Summed over all calls that reported usage. */
+  usage?: TokenUsage;
+  /** Who produced the result; `local` after a model failure is a fallback. */
+  source: "model" | "local";
+  /** Whether the user got a result. */
+  ok: boolean;
+  /** Set when the model failed, even if the local parser covered for it. */
+  errorClass?: ParseErrorClass;
+  errorMessage?: string;
+}
+
+export const describeInput = (input: ParseInput): Pick<ParseTelemetryEntry, "inputType" | "inputSize" | "mimeType"> =>
+  typeof input === "string"
+    ? { inputType: "text", inputSize: input.length }
+    : { inputType: "audio", inputSize: base64Size(input.data), mimeType: input.mimeType };
+
+export interface ParserMeter {
+  calls: number;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+/** Wraps a parser to count its calls and add up the tokens they report. */
+export const meterParser = (inner: ReminderParser): ReminderParser & { meter: ParserMeter } => {
+  const meter: ParserMeter = { calls: 0 };
+  return {
+    name: inner.name,
+    meter,
+    async parse(request) {
+      meter.calls += 1;
+      const result = await inner.parse(request);
+      meter.model = result.model ?? meter.model;
+      if (result.usage) {
+        meter.usage = {
+          inputTokens: (meter.usage?.inputTokens ?? 0) + result.usage.inputTokens,
+          outputTokens: (meter.usage?.outputTokens ?? 0) + result.usage.outputTokens,
+        };
+      }
+      return result;
+    },
+  };
+};
+
+const STORAGE_KEY = "chronos-parse-telemetry";
+const MAX_ERROR_MESSAGE_CHARS = 300;
+
+const listeners = new Set<(entries: ParseTelemetryEntry[]) => void>();
+
+export const loadTelemetry = (): ParseTelemetryEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as ParseTelemetryEntry[]) : [];
+  } catch (error) {
+    console.warn("Could not read parse telemetry:", error);
+    return [];
+  }
+};
+
+const saveTelemetry = (entries: ParseTelemetryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Could not save parse telemetry:", error);
+  }
+  listeners.forEach((listener) => listener(entries));
+};
+
+/** Appends an entry, keeping only the most recent `telemetryConfig.maxEntries`. */
+export const recordTelemetry = (entry: ParseTelemetryEntry) => {
+  const trimmed = entry.errorMessage ? { ...entry, errorMessage: entry.errorMessage.slice(0, MAX_ERROR_MESSAGE_CHARS) } : entry;
+  saveTelemetry([...loadTelemetry(), trimmed].slice(-telemetryConfig.maxEntries));
+};
+
+export const clearTelemetry = () => saveTelemetry([]);
+
+/** Subscribes to entries recorded in this tab or another. */
+export const subscribeToTelemetry = (listener: (entries: ParseTelemetryEntry[]) => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadTelemetry());
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+export interface TelemetrySummary {
+  count: number;
+  failed: number;
+  /** Parses the local parser rescued after the model failed. */
+  fallbacks: number;
+  errors: Partial<Record<ParseErrorClass, number>>;
+  /** Over parses that called the model. */
+  latency?: { mean: number; p50: number; p95: number };
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from `telemetryConfig` prices; absent when none are set. */
+  costUsd?: number;
+  byInputType: Record<ParseTelemetryEntry["inputType"], number>;
+  byModel: Record<string, number>;
+}
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+export const summarizeTelemetry = (entries: ParseTelemetryEntry[]): TelemetrySummary => {
+  const latencies = entries.filter((entry) => entry.calls > 0).map((entry) => entry.latencyMs).sort((a, b) => a - b);
+  const summary: TelemetrySummary = {
+    count: entries.length,
+    failed: entries.filter((entry) => !entry.ok).length,
+    fallbacks: entries.filter((entry) => entry.ok && entry.errorClass).length,
+    errors: {},
+    latency: latencies.length > 0
+      ? {
+          mean: latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length,
+          p50: percentile(latencies, 50),
+          p95: percentile(latencies, 95),
+        }
+      : undefined,
+    inputTokens: 0,
+    outputTokens: 0,
+    byInputType: { text: 0, audio: 0 },
+    byModel: {},
+  };
+
+  for (const entry of entries) {
+    if (entry.errorClass) summary.errors[entry.errorClass] = (summary.errors[entry.errorClass] ?? 0) + 1;
+    summary.inputTokens += entry.usage?.inputTokens ?? 0;
+    summary.outputTokens += entry.usage?.outputTokens ?? 0;
+    summary.byInputType[entry.inputType] += 1;
+    if (entry.model) summary.byModel[entry.model] = (summary.byModel[entry.model] ?? 0) + 1;
+  }
+
+  const { inputCostPerMillion, outputCostPerMillion } = telemetryConfig;
+  if (inputCostPerMillion > 0 || outputCostPerMillion > 0) {
+    summary.costUsd = (summary.inputTokens * inputCostPerMillion + summary.outputTokens * outputCostPerMillion) / 1_000_000;
+  }
+  return summary;
+};
+
+/** The entries and their summary as a JSON document for bug reports. */
+export const exportTelemetry = (entries: ParseTelemetryEntry[], exportedAt: Date): string =>
+  JSON.stringify({ exportedAt: exportedAt.toISOString(), summary: summarizeTelemetry(entries), entries }, null, 2);
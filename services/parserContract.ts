@@ -0,0 +1,391 @@
+import { Type, Schema } from "@google/genai";
+import { REMINDER_CATEGORIES, REMINDER_PRIORITIES, ReminderData } from "../types";
+import { ReminderValidationError } from "./validation";
+
+// The provider-independent parsing contract: what every model is told, and
+// the shape it must answer with.
+
+export type ParseInput = string | { data: string; mimeType: string };
+
+export const PARSE_INTENTS = ["create", "reschedule", "cancel", "snooze", "query"] as const;
+export type ParseIntent = typeof PARSE_INTENTS[number];
+
+/**
+ * A request about reminders that already exist rather than a new one. Which
+ * fields are set depends on the intent.
+ */
+export interface ReminderCommand {
+  intent: Exclude<ParseIntent, "create">;
+  /** Id of the existing reminder meant, from the context list; absent if none fit. */
+  target_id?: string;
+  /** How the user referred to it, e.g. "the dentist reminder". */
+  target_description?: string;
+  /** Reschedule and snooze: ISO 8601 UTC. */
+  new_time?: string;
+  /** Query: the window asked about, ISO 8601 UTC, either end open. */
+  query_start?: string;
+  query_end?: string;
+  /** Query: words the matching reminders should contain. */
+  query_text?: string;
+}
+
+/** An existing reminder as the model sees it when resolving a command. */
+export interface ContextReminder {
+  id: string;
+  reminder_content: string;
+  scheduled_time: string;
+  recurrence_rule?: string;
+}
+
+/** Tokens a model call used, as the provider reported them. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ParseResult {
+  reminders: ReminderData[]; // Never empty unless `command` is set
+  rawText: string; // The text input, or the model's transcript for audio
+  command?: ReminderCommand;
+  /** The model that answered, as the provider named it. */
+  model?: string;
+  usage?: TokenUsage;
+}
+
+// One reminder within a response.
+const REMINDER_ITEM_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reminder_content: {
+      type: Type.STRING,
+      description: "A concise, action-oriented summary of the reminder, in the language of the input",
+    },
+    scheduled_time: {
+      type: Type.STRING,
+      description: "The extracted date and time in ISO 8601 UTC format (YYYY-MM-DDTHH:MM:SSZ)",
+    },
+    confidence_score: {
+      type: Type.NUMBER,
+      description: "A float number between 0.0 and 1.0 (1.0 is highest certainty)",
+    },
+    candidates: {
+      type: Type.ARRAY,
+      description: "For ambiguous times only: 2-3 plausible interpretations, most likely first. Empty array otherwise",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          scheduled_time: {
+            type: Type.STRING,
+            description: "This interpretation in ISO 8601 UTC format (YYYY-MM-DDTHH:MM:SSZ)",
+          },
+          rationale: {
+            type: Type.STRING,
+            description: "A short reason for this reading, e.g. 'Assumed 7 PM because it is an evening plan'",
+          },
+        },
+        required: ["scheduled_time", "rationale"],
+      },
+    },
+    clarifying_question: {
+      type: Type.STRING,
+      description: "A short question that would settle the ambiguity. Empty string if there are no candidates",
+    },
+    recurrence_rule: {
+      type: Type.STRING,
+      description: "RFC 5545 RRULE without the 'RRULE:' prefix (e.g. FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR). Empty string if the reminder does not repeat",
+    },
+    recurrence_end: {
+      type: Type.STRING,
+      description: "ISO 8601 UTC time after which the reminder stops repeating. Empty string if open-ended",
+    },
+    recurrence_count: {
+      type: Type.INTEGER,
+      description: "Total number of occurrences if the user limited it (e.g. 'for 5 days'). 0 if unlimited",
+    },
+    language: {
+      type: Type.STRING,
+      description: "ISO 639-1 code of the language the input is written or spoken in (e.g. 'en', 'ru', 'uz')",
+    },
+    source_timezone: {
+      type: Type.STRING,
+      description: "IANA time zone the user named explicitly (e.g. 'Asia/Tokyo' for '3pm Tokyo time'). Empty string if none was named",
+    },
+    priority: {
+      type: Type.STRING,
+      enum: [...REMINDER_PRIORITIES],
+      description: "How urgent the user made it sound. 'normal' unless they said it is urgent/important or that it can wait",
+    },
+    category: {
+      type: Type.STRING,
+      enum: [...REMINDER_CATEGORIES, "none"],
+      description: "The area of life the reminder belongs to. 'none' if it fits none of them",
+    },
+    tags: {
+      type: Type.ARRAY,
+      description: "Up to 5 short lowercase keywords for the reminder (people, projects, topics), in the language of the input. Empty array if none stand out",
+      items: { type: Type.STRING },
+    },
+    location: {
+      type: Type.STRING,
+      description: "Where it happens, as the user said it (e.g. 'the dentist on Main St'). Empty string if no place was named",
+    },
+    lead_time_minutes: {
+      type: Type.ARRAY,
+      description: "Extra alerts the user asked for before the event, in minutes before scheduled_time (e.g. [30] for '30 minutes before'). Empty array if none",
+      items: { type: Type.INTEGER },
+    },
+  },
+  required: ["reminder_content", "scheduled_time", "confidence_score", "language"],
+};
+
+// JSON schema every provider must return. Expressed with Gemini's schema
+// types; see `toJsonSchema` for providers that expect plain JSON Schema.
+export const REMINDER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    intent: {
+      type: Type.STRING,
+      enum: [...PARSE_INTENTS],
+      description: "'create' for new reminders; otherwise what the user wants done with an existing one, or 'query' for a question about their reminders",
+    },
+    reminders: {
+      type: Type.ARRAY,
+      description: "For 'create': every separate reminder in the input, in the order mentioned, at least one entry. Empty array for other intents",
+      items: REMINDER_ITEM_SCHEMA,
+    },
+    target_id: {
+      type: Type.STRING,
+      description: "For reschedule/cancel/snooze: the id of the EXISTING REMINDERS entry the user means. Empty string if none fits or for other intents",
+    },
+    target_description: {
+      type: Type.STRING,
+      description: "For reschedule/cancel/snooze: how the user referred to the reminder, e.g. 'dentist'. Empty string otherwise",
+    },
+    new_time: {
+      type: Type.STRING,
+      description: "For reschedule/snooze: the new time in ISO 8601 UTC format (YYYY-MM-DDTHH:MM:SSZ). Empty string otherwise",
+    },
+    query_start: {
+      type: Type.STRING,
+      description: "For query: start of the period asked about in ISO 8601 UTC. Empty string if open or not a query",
+    },
+    query_end: {
+      type: Type.STRING,
+      description: "For query: end (exclusive) of the period asked about in ISO 8601 UTC. Empty string if open or not a query",
+    },
+    query_text: {
+      type: Type.STRING,
+      description: "For query: keywords the reminders must mention, e.g. 'dentist' for 'when is my dentist appointment?'. Empty string if none",
+    },
+    transcript: {
+      type: Type.STRING,
+      description: "Verbatim transcription of the audio input in the spoken language. For text input, repeat the input text",
+    },
+  },
+  required: ["intent", "reminders", "transcript"],
+};
+
+export const SYSTEM_INSTRUCTION = `
+You are a highly specialized and precise **Time and Reminder Parsing Agent**. Your sole, critical function is to analyze the provided user text (or audio transcription), and accurately extract two required parameters: the final reminder content, and the exact scheduled date and time.
+
+### ABSOLUTE OUTPUT RULES
+1.  **Date/Time Format:** The 'scheduled_time' value must be in the strict, absolute **ISO 8601 UTC** format (e.g., YYYY-MM-DDTHH:MM:SSZ).
+2.  **Time Resolution:** You MUST resolve all relative time phrases (e.g., "tomorrow," "in 5 minutes," "next Friday") into an absolute timestamp using the provided NOW reference and User Timezone.
+3.  **Error Handling:** If the input text is impossible to schedule (e.g., "Hello") or missing a date/time component, you must set the 'scheduled_time' to an empty string ("") and the 'confidence_score' below 0.5.
+4.  **Recurrence:** If the reminder repeats (e.g., "every weekday at 9am", "first Monday of each month"), set 'scheduled_time' to the FIRST occurrence and describe the pattern in 'recurrence_rule' as an RFC 5545 RRULE using the User Timezone's wall clock. Use 'recurrence_end' or 'recurrence_count' only if the user bounded the series. For one-off reminders leave 'recurrence_rule' empty.
+5.  **Transcript:** For audio input, put the exact words spoken in 'transcript' (no summarising, no translation). For text input, copy the input into 'transcript'.
+6.  **Ambiguity:** If the time has more than one reasonable reading (e.g., "at 7" without am/pm, "next Friday"), list the readings in 'candidates', most likely first, each with a one-sentence 'rationale'. Set 'scheduled_time' to the first candidate, lower 'confidence_score' to reflect the doubt, and ask one short 'clarifying_question' that would settle it. For unambiguous input return an empty 'candidates' array and an empty 'clarifying_question'.
+7.  **Multiple Reminders:** If the input contains several independent reminders (e.g., "call the bank tomorrow at 10 and pick up the kids at 4"), return one entry per reminder in 'reminders', in the order mentioned. Apply shared context to each (here "tomorrow" applies to both). Rules 1-6 apply to every entry. If nothing in the input can be scheduled, return a single entry following rule 3.
+8.  **Explicit Time Zones:** If the user names a zone or place for the time (e.g., "3pm Tokyo time", "9am EST", "noon in London"), resolve the time in that zone instead of the User Timezone, still return 'scheduled_time' in UTC, and put the zone's IANA name in 'source_timezone'. Recurrence then follows that zone's wall clock. Otherwise leave 'source_timezone' empty.
+9.  **Language:** Users write and speak English, Russian and Uzbek (Latin or Cyrillic script), sometimes mixed. Detect the input language and return its ISO 639-1 code in 'language'. Write 'reminder_content', every 'rationale' and the 'clarifying_question' in that same language; never translate them into English. Resolve relative phrases in every language against NOW, e.g. "завтра в 9 утра", "через 20 минут", "в следующую пятницу", "ertaga soat 9 da", "20 daqiqadan keyin", "kelasi juma kechqurun".
+10. **Details:** Fill 'priority', 'category', 'tags' and 'location' only from what the input says or clearly implies; never invent a place. If the user asks to be alerted ahead of the event (e.g., "meeting at 3pm, remind me 30 minutes before", "за час до приёма", "uchrashuvdan 1 soat oldin"), 'scheduled_time' is the EVENT time (15:00 here) and each advance alert goes into 'lead_time_minutes' as minutes before it ([30]). If the user only gives the time to be reminded at, leave 'lead_time_minutes' empty.
+11. **Intent:** Most inputs create reminders ('intent' = "create"). If the user instead wants to change an existing reminder, set 'intent' to "reschedule" (move it: "move the dentist to Thursday", "перенеси звонок на 5"), "cancel" (remove it: "cancel my call with John", "uchrashuvni bekor qil") or "snooze" (push it back a little: "snooze the laundry 15 minutes"), leave 'reminders' empty, pick the matching entry from EXISTING REMINDERS by meaning (any language) and put its id in 'target_id', and put the new absolute time in 'new_time' (a snooze counts from NOW unless the user says otherwise; a reschedule keeps the old time of day when only a new day is given). If the user asks about their reminders ("what do I have tomorrow?", "что у меня на неделе?", "ertaga nima bor?"), set 'intent' to "query", leave 'reminders' empty and fill 'query_start'/'query_end' (and 'query_text' for a specific topic). Only use these intents when the input clearly refers to something already scheduled; "remind me to cancel the gym membership" is a "create".
+`;
+
+const formatContextReminders = (reminders: ContextReminder[]): string =>
+  reminders.length === 0
+    ? "(none)"
+    : reminders
+        .map((r) => `- id=${r.id} | ${r.scheduled_time || "no time"}${r.recurrence_rule ? ` | repeats ${r.recurrence_rule}` : ""} | ${r.reminder_content}`)
+        .join("\n");
+
+export const buildContextPrompt = (
+  now: Date,
+  userTimezone: string,
+  locale?: string,
+  context?: ContextReminder[]
+): string => `
+### CONTEXT FOR TIME RESOLUTION
+* **NOW Reference (Current UTC Time):** ${now.toISOString()}
+* **User Timezone:** ${userTimezone}${locale ? `
+* **User Locale:** ${locale} (use it to read numeric dates such as 03/04)` : ""}
+${context ? `
+### EXISTING REMINDERS
+${formatContextReminders(context)}
+` : ""}
+### TASK
+Process the user input provided and return the JSON object.
+  `;
+
+export const AUDIO_INSTRUCTION = "The following is an audio recording of the reminder. Transcribe and process it.";
+
+/**
+ * Converts a Gemini schema into standard JSON Schema (lowercase type names).
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+// The schema asks for empty values instead of omitted ones; drop them so
+// consumers can rely on `recurrence_rule` being truthy for repeating reminders
+// and `candidates` only being present when there is a real choice.
+export const normalizeOptionalFields = (data: ReminderData): ReminderData => {
+  const {
+    recurrence_rule,
+    recurrence_end,
+    recurrence_count,
+    candidates,
+    clarifying_question,
+    source_timezone,
+    priority,
+    category,
+    tags,
+    location,
+    lead_time_minutes,
+    ...rest
+  } = data;
+  const result: ReminderData = rest;
+
+  if (source_timezone) result.source_timezone = source_timezone;
+  if (!result.language) delete result.language;
+
+  // "normal" and "none" are the schema's defaults, not information.
+  if (priority && priority !== "normal") result.priority = priority;
+  if (category && (category as string) !== "none") result.category = category;
+  if (typeof location === "string") {
+    if (location.trim()) result.location = location.trim();
+  } else if (location !== undefined) {
+    result.location = location;
+  }
+  if (Array.isArray(tags)) {
+    const unique = [...new Set(tags.map((tag) => (typeof tag === "string" ? tag.trim().toLowerCase() : tag)))];
+    const kept = unique.filter((tag) => tag !== "");
+    if (kept.length > 0) result.tags = kept as string[];
+  } else if (tags !== undefined) {
+    result.tags = tags;
+  }
+  if (Array.isArray(lead_time_minutes)) {
+    // A lead time of 0 is the reminder itself.
+    const offsets = [...new Set(lead_time_minutes)].filter((minutes) => minutes !== 0);
+    if (offsets.length > 0) {
+      result.lead_time_minutes = offsets.every((minutes) => typeof minutes === "number")
+        ? offsets.sort((a, b) => b - a)
+        : offsets;
+    }
+  } else if (lead_time_minutes !== undefined) {
+    result.lead_time_minutes = lead_time_minutes;
+  }
+
+  if (recurrence_rule) {
+    result.recurrence_rule = recurrence_rule.replace(/^RRULE:/i, "");
+    if (recurrence_end) result.recurrence_end = recurrence_end;
+    if (recurrence_count) result.recurrence_count = recurrence_count;
+  }
+  // A single candidate is just the answer, not a choice.
+  if (Array.isArray(candidates) && candidates.length > 1) {
+    result.candidates = candidates;
+    if (clarifying_question) result.clarifying_question = clarifying_question;
+  } else if (candidates !== undefined && !Array.isArray(candidates)) {
+    // Leave malformed values for validation to report.
+    result.candidates = candidates;
+  }
+
+  return result;
+};
+
+const COMMAND_FIELDS = ["target_id", "target_description", "new_time", "query_start", "query_end", "query_text"] as const;
+
+// Like `normalizeOptionalFields`: empty strings mean "not given". Other
+// values are kept as they are for `validateCommand` to check.
+const toCommand = (intent: ReminderCommand["intent"], fields: Record<string, unknown>): ReminderCommand => {
+  const command: ReminderCommand = { intent };
+  for (const field of COMMAND_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined && value !== "") (command as unknown as Record<string, unknown>)[field] = value;
+  }
+  return command;
+};
+
+// Audio has no text of its own until the model transcribes it; this stands in
+// for providers that cannot return a transcript.
+export const rawTextFor = (input: ParseInput): string =>
+  typeof input === "string" ? input : "(Audio Transcription handled by AI)";
+
+/**
+ * Parses a model's JSON answer into its reminders (or command) and
+ * transcript. The reminders are only shaped like `ReminderData`; run each
+ * through `validateReminder`, and a command through `validateCommand`,
+ * before trusting it.
+ */
+export const parseModelResponse = (
+  responseText: string | undefined,
+  providerName: string,
+  input: ParseInput
+): ParseResult => {
+  if (!responseText) {
+    throw new Error(`No response from ${providerName}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    throw new ReminderValidationError([
+      { field: "$", code: "invalid_json", message: `${providerName} did not return valid JSON` },
+    ]);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ReminderValidationError([{ field: "$", code: "wrong_type", message: "Response must be a JSON object" }]);
+  }
+
+  const { intent = "create", reminders, transcript, ...commandFields } = parsed as Record<string, unknown>;
+  if (!(PARSE_INTENTS as readonly unknown[]).includes(intent)) {
+    throw new ReminderValidationError([
+      { field: "intent", code: "invalid_format", message: `Must be one of ${PARSE_INTENTS.join(", ")}` },
+    ]);
+  }
+  const command = intent === "create" ? undefined : toCommand(intent as ReminderCommand["intent"], commandFields);
+  if (!Array.isArray(reminders) || (!command && reminders.length === 0)) {
+    throw new ReminderValidationError([
+      { field: "reminders", code: "missing_field", message: "Must be a non-empty array of reminders" },
+    ]);
+  }
+
+  const rawText = typeof input === "string"
+    ? input
+    : typeof transcript === "string" && transcript.trim() ? transcript.trim() : rawTextFor(input);
+
+  return {
+    // A command's reminders are ignored; the schema asks for none.
+    reminders: command
+      ? []
+      : (reminders.map((reminder) =>
+          // Non-objects are passed through for validation to report.
+          typeof reminder === "object" && reminder !== null ? normalizeOptionalFields(reminder as ReminderData) : reminder
+        ) as ReminderData[]),
+    rawText,
+    ...(command ? { command } : {}),
+  };
+};
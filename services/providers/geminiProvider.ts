@@ -0,0 +1,69 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import {
+  AUDIO_INSTRUCTION,
+  REMINDER_SCHEMA,
+  SYSTEM_INSTRUCTION,
+  buildContextPrompt,
+  parseModelResponse,
+} from "../parserContract";
+import { ProviderError, ReminderParser, providerErrorForStatus } from "./types";
+
+export interface GeminiParserOptions {
+  apiKey?: string;
+  model: string;
+  temperature: number;
+}
+
+export const createGeminiParser = ({ apiKey, model, temperature }: GeminiParserOptions): ReminderParser => ({
+  name: "gemini",
+
+  async parse({ input, now, timeZone, locale, correction, context, signal }) {
+    if (!apiKey) {
+      throw new ProviderError("auth", "API Key not found in environment variables");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    const contextPrompt = buildContextPrompt(now, timeZone, locale, context);
+
+    const parts: Part[] = typeof input === "string"
+      ? [{ text: contextPrompt }, { text: `[USER_INPUT]: ${input}` }]
+      : [
+          { text: contextPrompt },
+          { text: AUDIO_INSTRUCTION },
+          { inlineData: { mimeType: input.mimeType, data: input.data } },
+        ];
+    if (correction) parts.push({ text: correction });
+
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          systemInstruction: SYSTEM_INSTRUCTION,
+          responseMimeType: "application/json",
+          responseSchema: REMINDER_SCHEMA,
+          temperature,
+          abortSignal: signal,
+        },
+      });
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      if (error instanceof ApiError) throw providerErrorForStatus(error.status, error.message);
+      // fetch() rejects with a TypeError when the request never got an answer.
+      if (error instanceof TypeError) throw new ProviderError("network", `Could not reach Gemini: ${error.message}`);
+      throw error;
+    }
+
+    const usage = response.usageMetadata;
+    return {
+      ...parseModelResponse(response.text, "Gemini", input),
+      model: response.modelVersion ?? model,
+      // Thinking tokens are billed as output.
+      usage: usage && {
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+      },
+    };
+  },
+});
@@ -0,0 +1,21 @@
+import { ProviderConfig } from "../config";
+import { createGeminiParser } from "./geminiProvider";
+import { createMockParser } from "./mockProvider";
+import { createOpenAiParser } from "./openAiProvider";
+import { createProxyParser } from "./proxyProvider";
+import { ReminderParser } from "./types";
+
+export type { ParseRequest, ProviderErrorCode, ReminderParser } from "./types";
+export { ProviderError } from "./types";
+export { createGeminiParser, createMockParser, createOpenAiParser, createProxyParser };
+
+export const createParser = (config: ProviderConfig): ReminderParser => {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiParser(config);
+    case "openai":
+      return createOpenAiParser(config);
+    case "mock":
+      return createMockParser();
+  }
+};
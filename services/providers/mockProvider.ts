@@ -0,0 +1,34 @@
+import { ReminderData } from "../../types";
+import { parseLocally } from "../localParser";
+import { rawTextFor } from "../parserContract";
+import { ParseRequest, ReminderParser } from "./types";
+
+type MockAnswer = ReminderData | ReminderData[];
+
+export type MockResponder = (request: ParseRequest) => MockAnswer | Promise<MockAnswer>;
+
+// Without a responder, text goes through the local rule-based parser so the
+// app stays usable in development without any model.
+const defaultResponder: MockResponder = ({ input, now, timeZone, locale }) =>
+  typeof input === "string"
+    ? parseLocally(input, { now, timeZone, locale })
+    : { reminder_content: "", scheduled_time: "", confidence_score: 0 };
+
+/**
+ * A provider that never touches the network. Pass fixed reminder(s) or a
+ * function to control what it answers; every request is recorded in `calls`.
+ */
+export const createMockParser = (
+  responder: MockAnswer | MockResponder = defaultResponder
+): ReminderParser & { calls: ParseRequest[] } => {
+  const calls: ParseRequest[] = [];
+  return {
+    name: "mock",
+    calls,
+    async parse(request) {
+      calls.push(request);
+      const answer = typeof responder === "function" ? await responder(request) : responder;
+      return { reminders: Array.isArray(answer) ? answer : [answer], rawText: rawTextFor(request.input) };
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import {
+  AUDIO_INSTRUCTION,
+  REMINDER_SCHEMA,
+  SYSTEM_INSTRUCTION,
+  buildContextPrompt,
+  parseModelResponse,
+  toJsonSchema,
+} from "../parserContract";
+import { ProviderError, ReminderParser, providerErrorForStatus } from "./types";
+
+// Talks to any server implementing the OpenAI chat completions API, such as
+// llama.cpp's `llama-server`, Ollama or vLLM.
+
+export interface OpenAiParserOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// `input_audio` content parts only accept these container formats.
+const AUDIO_FORMATS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+};
+
+export const createOpenAiParser = ({ baseUrl, apiKey, model, temperature }: OpenAiParserOptions): ReminderParser => ({
+  name: "openai",
+
+  async parse({ input, now, timeZone, locale, correction, context, signal }) {
+    const contextPrompt = buildContextPrompt(now, timeZone, locale, context);
+    const suffix = correction ? `\n${correction}` : "";
+
+    let userContent: unknown;
+    if (typeof input === "string") {
+      userContent = `${contextPrompt}\n[USER_INPUT]: ${input}${suffix}`;
+    } else {
+      const format = AUDIO_FORMATS[input.mimeType.split(";")[0]];
+      if (!format) {
+        throw new Error(`Audio type ${input.mimeType} is not supported by the OpenAI-compatible provider`);
+      }
+      userContent = [
+        { type: "text", text: `${contextPrompt}\n${AUDIO_INSTRUCTION}` },
+        { type: "input_audio", input_audio: { data: input.data, format } },
+        ...(correction ? [{ type: "text", text: correction }] : []),
+      ];
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature,
+          messages: [
+            { role: "system", content: SYSTEM_INSTRUCTION },
+            { role: "user", content: userContent },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "reminder", schema: toJsonSchema(REMINDER_SCHEMA) },
+          },
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ProviderError("network", `Could not reach the OpenAI-compatible provider: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      throw providerErrorForStatus(
+        response.status,
+        `OpenAI-compatible provider returned ${response.status}: ${detail.slice(0, 200)}`,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const content = body.choices?.[0]?.message?.content ?? undefined;
+    return {
+      ...parseModelResponse(content, "OpenAI-compatible provider", input),
+      model: body.model ?? model,
+      usage: body.usage && {
+        inputTokens: body.usage.prompt_tokens ?? 0,
+        outputTokens: body.usage.completion_tokens ?? 0,
+      },
+    };
+  },
+});
@@ -0,0 +1,79 @@
+import {
+  ParseApiError,
+  ParseApiErrorBody,
+  ParseApiResponse,
+  TELEGRAM_INIT_DATA_HEADER,
+  toParseApiRequest,
+} from "../parseApi";
+import { ReminderValidationError } from "../validation";
+import { ReminderParser } from "./types";
+
+// Sends parse requests to the Chronos server, which holds the model API key.
+// The browser build uses this instead of calling a model directly.
+
+export interface ProxyParserOptions {
+  url: string;
+  /** Identifies this install to the server's per-user rate limit. */
+  clientId?: string;
+  /** Signed Telegram `initData`; the server prefers it to `clientId` when it can verify it. */
+  telegramInitData?: string;
+  fetchImpl?: typeof fetch;
+}
+
+// The queue aborts with a ParseApiError saying why (timeout or cancel).
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new ParseApiError("aborted", "The request was cancelled");
+
+const readError = async (response: Response): Promise<ParseApiErrorBody["error"] | null> => {
+  try {
+    const body = (await response.json()) as Partial<ParseApiErrorBody>;
+    return body.error && typeof body.error.code === "string" ? body.error : null;
+  } catch {
+    return null;
+  }
+};
+
+export const createProxyParser = ({
+  url,
+  clientId,
+  telegramInitData,
+  fetchImpl = fetch,
+}: ProxyParserOptions): ReminderParser => ({
+  name: "proxy",
+
+  async parse(request) {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(clientId ? { "X-Client-Id": clientId } : {}),
+          ...(telegramInitData ? { [TELEGRAM_INIT_DATA_HEADER]: telegramInitData } : {}),
+        },
+        body: JSON.stringify(toParseApiRequest(request)),
+        signal: request.signal,
+      });
+    } catch (err) {
+      if (request.signal?.aborted) throw abortReason(request.signal);
+      throw new ParseApiError("network", `Could not reach the parse server: ${(err as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const error = await readError(response);
+      // Let the caller retry with a correction, as it would for a direct provider.
+      if (error?.code === "invalid_response" && error.issues) throw new ReminderValidationError(error.issues);
+      throw new ParseApiError(error?.code ?? "upstream_error", error?.message ?? `Parse server responded ${response.status}`, {
+        status: response.status,
+        retryAfterMs: error?.retryAfterMs,
+      });
+    }
+
+    try {
+      return (await response.json()) as ParseApiResponse;
+    } catch (err) {
+      if (request.signal?.aborted) throw abortReason(request.signal);
+      throw err;
+    }
+  },
+});
@@ -0,0 +1,51 @@
+import { ContextReminder, ParseInput, ParseResult } from "../parserContract";
+
+export interface ParseRequest {
+  input: ParseInput;
+  now: Date;
+  timeZone: string;
+  /** BCP 47 locale, for reading numeric dates the user's way. */
+  locale?: string;
+  /** Extra instructions when retrying after a rejected answer. */
+  correction?: string;
+  /** The user's existing reminders, so commands like "cancel the dentist" can name one. */
+  context?: ContextReminder[];
+  /** Cancels the call; providers reject with the signal's reason. */
+  signal?: AbortSignal;
+}
+
+export type ProviderErrorCode = "auth" | "quota" | "network" | "upstream";
+
+/**
+ * A model call that failed before there was an answer to validate: the key
+ * was rejected (`auth`), the account is out of quota (`quota`), the provider
+ * couldn't be reached (`network`), or it failed some other way (`upstream`).
+ */
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(code: ProviderErrorCode, message: string, { status, retryAfterMs }: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "ProviderError";
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Sorts an HTTP failure from a provider into a `ProviderError`. */
+export const providerErrorForStatus = (status: number, message: string, retryAfterMs?: number): ProviderError => {
+  const code: ProviderErrorCode = status === 401 || status === 403 ? "auth" : status === 429 ? "quota" : "upstream";
+  return new ProviderError(code, message, { status, retryAfterMs });
+};
+
+/**
+ * A model backend that turns user input into a reminder following the
+ * shared contract in `parserContract.ts`.
+ */
+export interface ReminderParser {
+  readonly name: string;
+  parse(request: ParseRequest): Promise<ParseResult>;
+}
@@ -0,0 +1,325 @@
+import { ReminderData } from "../types";
+import { Translate } from "./i18n";
+import { WallClock, addDays, getZonedParts, zonedTimeToUtc } from "./timeZone";
+
+// A practical subset of RFC 5545 RRULE: FREQ (DAILY..YEARLY), INTERVAL, COUNT,
+// UNTIL, BYDAY (with ordinals for monthly/yearly), BYMONTHDAY, BYMONTH,
+// BYHOUR and BYMINUTE. Occurrences are generated on the wall clock of the
+// user's time zone, so "9am every day" stays at 9am across DST changes.
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface ByDay {
+  weekday: number; // 0 = Sunday
+  ordinal?: number; // 1 = first, -1 = last
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: ByDay[];
+  byMonthDay: number[];
+  byMonth: number[];
+  byHour: number[];
+  byMinute: number[];
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleError";
+  }
+}
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+// Stops runaway expansion of rules that can never match (e.g. BYMONTHDAY=31;BYMONTH=2).
+const MAX_PERIODS = 5000;
+
+const parseIntList = (value: string, min: number, max: number, name: string): number[] =>
+  value.split(",").map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < min || n > max || (n === 0 && min < 0)) {
+      throw new RRuleError(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+
+const parseUntil = (value: string): Date => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  const date = m
+    ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 23), +(m[5] ?? 59), +(m[6] ?? 59)))
+    : new Date(value);
+  if (Number.isNaN(date.getTime())) throw new RRuleError(`Invalid UNTIL value "${value}"`);
+  return date;
+};
+
+export const parseRRule = (rule: string): RRule => {
+  const result: RRule = { freq: "DAILY", interval: 1, byDay: [], byMonthDay: [], byMonth: [], byHour: [], byMinute: [] };
+  let hasFreq = false;
+
+  for (const part of rule.replace(/^RRULE:/i, "").split(";")) {
+    if (!part.trim()) continue;
+    const [rawKey, value = ""] = part.split("=");
+    const key = rawKey.trim().toUpperCase();
+    switch (key) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(value.toUpperCase() as Frequency)) {
+          throw new RRuleError(`Unsupported FREQ "${value}"`);
+        }
+        result.freq = value.toUpperCase() as Frequency;
+        hasFreq = true;
+        break;
+      case "INTERVAL":
+        result.interval = parseIntList(value, 1, 1000, "INTERVAL")[0];
+        break;
+      case "COUNT":
+        result.count = parseIntList(value, 1, 10000, "COUNT")[0];
+        break;
+      case "UNTIL":
+        result.until = parseUntil(value);
+        break;
+      case "BYDAY":
+        result.byDay = value.split(",").map((token) => {
+          const m = token.toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!m) throw new RRuleError(`Invalid BYDAY value "${token}"`);
+          return { weekday: DAY_CODES.indexOf(m[2]), ordinal: m[1] ? Number(m[1]) : undefined };
+        });
+        break;
+      case "BYMONTHDAY":
+        result.byMonthDay = parseIntList(value, -31, 31, "BYMONTHDAY");
+        break;
+      case "BYMONTH":
+        result.byMonth = parseIntList(value, 1, 12, "BYMONTH");
+        break;
+      case "BYHOUR":
+        result.byHour = parseIntList(value, 0, 23, "BYHOUR");
+        break;
+      case "BYMINUTE":
+        result.byMinute = parseIntList(value, 0, 59, "BYMINUTE");
+        break;
+      case "WKST":
+        break;
+      default:
+        throw new RRuleError(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  if (!hasFreq) throw new RRuleError("RRULE is missing FREQ");
+  return result;
+};
+
+type DateOnly = Pick<WallClock, "year" | "month" | "day">;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const weekdayOf = (d: DateOnly) => new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay();
+const dateKey = (d: DateOnly) => d.year * 10000 + d.month * 100 + d.day;
+
+const resolveMonthDay = (year: number, month: number, day: number): number | null => {
+  const total = daysInMonth(year, month);
+  const resolved = day > 0 ? day : total + day + 1;
+  return resolved >= 1 && resolved <= total ? resolved : null;
+};
+
+const daysInMonthMatching = (rule: RRule, year: number, month: number, fallbackDay: number): DateOnly[] => {
+  const total = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byDay.length > 0) {
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (weekdayOf({ year, month, day }) === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) days.push(...matching);
+      else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+    if (rule.byMonthDay.length > 0) {
+      const allowed = rule.byMonthDay.map((d) => resolveMonthDay(year, month, d));
+      days = days.filter((day) => allowed.includes(day));
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map((d) => resolveMonthDay(year, month, d))
+      .filter((d): d is number => d !== null);
+  } else {
+    days = fallbackDay <= total ? [fallbackDay] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b).map((day) => ({ year, month, day }));
+};
+
+const candidateDays = (rule: RRule, start: DateOnly & { weekday: number }, period: number): DateOnly[] => {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = addDays({ ...start, hour: 0, minute: 0, second: 0 }, step);
+      const weekday = weekdayOf(day);
+      if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.weekday === weekday)) return [];
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.month)) return [];
+      if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some((d) => resolveMonthDay(day.year, day.month, d) === day.day)) {
+        return [];
+      }
+      return [day];
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (the RFC 5545 default WKST).
+      const weekStart = addDays({ ...start, hour: 0, minute: 0, second: 0 }, -((start.weekday + 6) % 7) + step * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [start.weekday];
+      return weekdays
+        .map((weekday) => addDays(weekStart, (weekday + 6) % 7))
+        .filter((day) => rule.byMonth.length === 0 || rule.byMonth.includes(day.month))
+        .sort((a, b) => dateKey(a) - dateKey(b));
+    }
+    case "MONTHLY": {
+      const index = start.month - 1 + step;
+      const year = start.year + Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return [];
+      return daysInMonthMatching(rule, year, month, start.day);
+    }
+    case "YEARLY": {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+      return months.flatMap((month) => daysInMonthMatching(rule, year, month, start.day));
+    }
+  }
+};
+
+export interface ExpandOptions {
+  timeZone: string;
+  /** Only occurrences strictly after this instant are returned. */
+  after?: Date;
+  limit: number;
+}
+
+/**
+ * Computes upcoming fire times of a recurring reminder. `scheduled_time` is
+ * the first occurrence (DTSTART); `recurrence_end` and `recurrence_count`
+ * bound the series in addition to any UNTIL/COUNT inside the rule itself.
+ */
+export const expandOccurrences = (
+  data: Pick<ReminderData, "scheduled_time" | "recurrence_rule" | "recurrence_end" | "recurrence_count">,
+  { timeZone, after, limit }: ExpandOptions
+): Date[] => {
+  const dtstart = new Date(data.scheduled_time);
+  if (!data.recurrence_rule || Number.isNaN(dtstart.getTime())) return [];
+
+  const rule = parseRRule(data.recurrence_rule);
+  const count = data.recurrence_count ?? rule.count;
+  const ends = [rule.until, data.recurrence_end ? new Date(data.recurrence_end) : undefined]
+    .filter((d): d is Date => !!d && !Number.isNaN(d.getTime()));
+  const until = ends.length > 0 ? Math.min(...ends.map((d) => d.getTime())) : Infinity;
+
+  const start = getZonedParts(dtstart, timeZone);
+  const hours = rule.byHour.length > 0 ? [...rule.byHour].sort((a, b) => a - b) : [start.hour];
+  const minutes = rule.byMinute.length > 0 ? [...rule.byMinute].sort((a, b) => a - b) : [start.minute];
+  const afterMs = after?.getTime() ?? -Infinity;
+
+  const results: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of candidateDays(rule, start, period)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const instant = zonedTimeToUtc({ ...day, hour, minute, second: start.second }, timeZone);
+          const ms = instant.getTime();
+          if (ms < dtstart.getTime()) continue;
+          if (ms > until || (count !== undefined && emitted >= count)) return results;
+          emitted++;
+          if (ms > afterMs) {
+            results.push(instant);
+            if (results.length >= limit) return results;
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+};
+
+// Weekday and month names come from Intl in the user's locale; the phrasing
+// around them from the catalogue.
+const dayName = (weekday: number, locale?: string) =>
+  // 2023-01-01 was a Sunday.
+  new Date(Date.UTC(2023, 0, 1 + weekday)).toLocaleDateString(locale, { weekday: "long", timeZone: "UTC" });
+
+const monthName = (month: number, locale?: string) =>
+  new Date(Date.UTC(2023, month - 1, 1)).toLocaleDateString(locale, { month: "long", timeZone: "UTC" });
+
+const ORDINALS = [1, 2, 3, 4, 5] as const;
+
+const ordinal = (n: number, t: Translate): string =>
+  ORDINALS.includes(n as (typeof ORDINALS)[number])
+    ? t(`recurrence.ordinal${n as (typeof ORDINALS)[number]}`)
+    : t("recurrence.ordinalN", { n });
+
+/**
+ * Renders a rule in the user's language, e.g. "Every weekday" or
+ * "Every month on the first Monday, 6 times".
+ */
+export const describeRRule = (
+  data: Pick<ReminderData, "recurrence_rule" | "recurrence_end" | "recurrence_count">,
+  { locale, timeZone }: { locale?: string; timeZone?: string },
+  t: Translate
+): string => {
+  if (!data.recurrence_rule) return "";
+  const rule = parseRRule(data.recurrence_rule);
+  const list = (items: string[]) => new Intl.ListFormat(locale, { type: "conjunction" }).format(items);
+
+  const weekdaySet = rule.byDay.filter((d) => d.ordinal === undefined).map((d) => d.weekday).sort();
+  const isWeekdays = weekdaySet.length === 5 && weekdaySet.every((d, i) => d === i + 1);
+
+  const parts: string[] = [];
+  if (isWeekdays && (rule.freq === "DAILY" || rule.freq === "WEEKLY") && rule.interval === 1) {
+    parts.push(t("recurrence.weekdays"));
+  } else {
+    parts.push(rule.interval === 1
+      ? t(`recurrence.every.${rule.freq}`)
+      : t(`recurrence.everyN.${rule.freq}`, { count: rule.interval }));
+    if (rule.byMonth.length > 0) {
+      parts.push(t("recurrence.inMonths", { months: list(rule.byMonth.map((m) => monthName(m, locale))) }));
+    }
+    if (rule.byDay.length > 0) {
+      parts.push(t("recurrence.onWeekdays", {
+        days: list(rule.byDay.map(({ weekday, ordinal: n }) => {
+          const name = dayName(weekday, locale);
+          if (n === undefined) return name;
+          if (n === -1) return t("recurrence.lastWeekday", { weekday: name });
+          return n < 0
+            ? t("recurrence.nthLastWeekday", { weekday: name, ordinal: ordinal(-n, t) })
+            : t("recurrence.nthWeekday", { weekday: name, ordinal: ordinal(n, t) });
+        })),
+      }));
+    }
+    if (rule.byMonthDay.length > 0) {
+      parts.push(t("recurrence.onMonthDays", {
+        days: list(rule.byMonthDay.map((d) => {
+          if (d === -1) return t("recurrence.lastMonthDay");
+          return d < 0
+            ? t("recurrence.nthLastMonthDay", { ordinal: ordinal(-d, t) })
+            : t("recurrence.monthDay", { day: d });
+        })),
+      }));
+    }
+  }
+
+  let text = parts.join(" ");
+  const count = data.recurrence_count ?? rule.count;
+  const end = data.recurrence_end ? new Date(data.recurrence_end) : rule.until;
+  if (count !== undefined) text += `, ${count === 1 ? t("recurrence.once") : t("recurrence.times", { count })}`;
+  if (end && !Number.isNaN(end.getTime())) {
+    text += `, ${t("recurrence.until", { date: end.toLocaleDateString(locale, { dateStyle: "medium", timeZone }) })}`;
+  }
+
+  return text;
+};
@@ -0,0 +1,163 @@
+import { HistoryItem } from "../types";
+import { ContextReminder, ReminderCommand } from "./parserContract";
+import { MAX_CONTEXT_REMINDERS } from "./parseApi";
+import { applyEdit, isDone } from "./historyEdits";
+import { expandOccurrences } from "./recurrence";
+import { hasValidTime } from "./reminderStatus";
+import { toIsoUtc } from "./timeZone";
+
+// Requests about reminders that already exist: "move the dentist to
+// Thursday", "cancel my call with John", "what do I have tomorrow?". The
+// model classifies them and names a target from the context we send; this
+// module builds that context, settles which saved reminder is meant, and
+// works out the change or the answer for the UI to confirm or show.
+
+/** A command that changes a reminder, as opposed to asking about them. */
+export type ModifyCommand = ReminderCommand & { intent: Exclude<ReminderCommand["intent"], "query"> };
+
+export const isModifyCommand = (command: ReminderCommand): command is ModifyCommand => command.intent !== "query";
+
+const CONTEXT_CONTENT_CHARS = 120;
+
+/**
+ * The reminders a command can refer to, as sent to the model: open ones
+ * only, upcoming first, then the most recently created.
+ */
+export const buildCommandContext = (
+  history: HistoryItem[],
+  now: Date,
+  limit = MAX_CONTEXT_REMINDERS
+): ContextReminder[] => {
+  const nowMs = now.getTime();
+  const upcoming = (item: HistoryItem) => hasValidTime(item) && (Date.parse(item.scheduled_time) >= nowMs || !!item.recurrence_rule);
+  return history
+    .filter((item) => !isDone(item) && (item.reminder_content || item.originalInput))
+    .sort((a, b) => {
+      const ua = upcoming(a);
+      const ub = upcoming(b);
+      if (ua !== ub) return ua ? -1 : 1;
+      if (ua) return Date.parse(a.scheduled_time) - Date.parse(b.scheduled_time);
+      return b.createdAt.localeCompare(a.createdAt);
+    })
+    .slice(0, limit)
+    .map((item) => ({
+      id: item.id,
+      reminder_content: (item.reminder_content || item.originalInput).slice(0, CONTEXT_CONTENT_CHARS),
+      scheduled_time: item.scheduled_time,
+      ...(item.recurrence_rule ? { recurrence_rule: item.recurrence_rule } : {}),
+    }));
+};
+
+// Verbs and questions that usually mean an existing reminder. False
+// positives only cost the local-parser shortcut; the model has the final say.
+const COMMAND_PATTERNS = [
+  /\b(cancel|delete|remove|move|reschedule|postpone|push back|snooze|delay)\b/i,
+  /\b(what do i have|what's on|what is on|do i have|when is my|when's my|show my)\b/i,
+  /(отмени|удали|перенеси|отложи|сдвинь|что у меня|когда у меня|какие у меня|покажи)/i,
+  /(bekor qil|o.?chir|ko.?chir|kechiktir|surib qo|nima bor|qachon|ko.?rsat)/i,
+];
+
+export const looksLikeCommand = (text: string): boolean => COMMAND_PATTERNS.some((pattern) => pattern.test(text));
+
+const words = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length >= 3);
+
+const searchableWords = (item: HistoryItem): Set<string> =>
+  new Set(words([item.reminder_content, item.originalInput, item.location ?? "", ...(item.tags ?? [])].join(" ")));
+
+// Share of the description's words found in the reminder. Prefixes count,
+// so "dentist" matches "dentist's" and "врач" matches "врачу".
+const matchScore = (description: string[], item: HistoryItem): number => {
+  if (description.length === 0) return 0;
+  const candidates = [...searchableWords(item)];
+  const hits = description.filter((word) =>
+    candidates.some((candidate) => candidate.startsWith(word) || word.startsWith(candidate))
+  );
+  return hits.length / description.length;
+};
+
+const MAX_ALTERNATIVES = 3;
+
+export interface TargetResolution {
+  /** The reminder the command most likely means; absent if nothing fits. */
+  target?: HistoryItem;
+  /** Other plausible reminders, best first, for the user to switch to. */
+  alternatives: HistoryItem[];
+}
+
+/**
+ * Settles which saved reminder a command means. The model's `target_id` wins
+ * if it names an open reminder; otherwise the best match for
+ * `target_description` does.
+ */
+export const resolveCommandTarget = (command: ReminderCommand, history: HistoryItem[]): TargetResolution => {
+  const open = history.filter((item) => !isDone(item));
+  const description = words(command.target_description ?? "");
+  const ranked = open
+    .map((item) => ({ item, score: matchScore(description, item) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+
+  const named = command.target_id ? open.find((item) => item.id === command.target_id) : undefined;
+  const target = named ?? ranked[0];
+  return { target, alternatives: ranked.filter((item) => item !== target).slice(0, MAX_ALTERNATIVES) };
+};
+
+/** Moves a reminder; a time the user asked for is certain, like a manual edit. */
+export const rescheduleItem = (item: HistoryItem, time: string, now: Date): HistoryItem =>
+  applyEdit(item, { scheduled_time: time, confidence_score: 1, candidates: undefined, clarifying_question: undefined }, now);
+
+export interface QueryMatch {
+  item: HistoryItem;
+  /** The occurrence that falls in the window, which for repeats isn't scheduled_time. */
+  at: string;
+}
+
+export interface QuerySummary {
+  matches: QueryMatch[];
+  from?: string;
+  to?: string;
+  text?: string;
+}
+
+const firstOccurrenceIn = (item: HistoryItem, fromMs: number, toMs: number, timeZone: string): number | null => {
+  const first = Date.parse(item.scheduled_time);
+  if (!item.recurrence_rule) return first >= fromMs && first < toMs ? first : null;
+  try {
+    const [next] = expandOccurrences(item, {
+      timeZone: item.source_timezone ?? timeZone,
+      after: new Date(Math.max(fromMs, first) - 1),
+      limit: 1,
+    });
+    return next && next.getTime() < toMs ? next.getTime() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Answers a query from the saved history: open reminders with an occurrence
+ * in the window that mention every query word, soonest first. Without a
+ * window, everything from now on counts.
+ */
+export const summarizeQuery = (
+  command: ReminderCommand,
+  history: HistoryItem[],
+  now: Date,
+  timeZone: string
+): QuerySummary => {
+  const fromMs = command.query_start ? Date.parse(command.query_start) : command.query_end ? -Infinity : now.getTime();
+  const toMs = command.query_end ? Date.parse(command.query_end) : Infinity;
+  const terms = words(command.query_text ?? "");
+
+  const matches = history
+    .filter((item) => !isDone(item) && hasValidTime(item))
+    .filter((item) => terms.length === 0 || matchScore(terms, item) === 1)
+    .map((item) => ({ item, at: firstOccurrenceIn(item, fromMs, toMs, timeZone) }))
+    .filter((match): match is { item: HistoryItem; at: number } => match.at !== null)
+    .sort((a, b) => a.at - b.at)
+    .map(({ item, at }) => ({ item, at: toIsoUtc(new Date(at)) }));
+
+  return { matches, from: command.query_start, to: command.query_end, text: command.query_text };
+};
@@ -0,0 +1,34 @@
+import { HistoryItem, ReminderData, ScheduleStatus } from "../types";
+
+// Shared answers to "what state is this reminder in?" so the card, the
+// scheduler and delivery agree.
+
+export const hasValidTime = (data: ReminderData): boolean =>
+  data.scheduled_time !== "" && !Number.isNaN(Date.parse(data.scheduled_time));
+
+/**
+ * True while the model offered several readings and the user hasn't picked one.
+ */
+export const needsClarification = (item: ReminderData & Pick<HistoryItem, "clarification">): boolean =>
+  !item.clarification && (item.candidates?.length ?? 0) > 1;
+
+export type ConfidenceBand = "high" | "medium" | "low";
+
+export const confidenceBand = (score: number): ConfidenceBand => {
+  const percent = Math.round(score * 100);
+  if (percent > 80) return "high";
+  if (percent > 50) return "medium";
+  return "low";
+};
+
+export type ReminderState = "done" | "needs-choice" | "invalid" | ScheduleStatus;
+
+/**
+ * The single state shown on a reminder's badge, in priority order.
+ */
+export const reminderState = (item: HistoryItem): ReminderState => {
+  if (item.status === "done") return "done";
+  if (needsClarification(item)) return "needs-choice";
+  if (!hasValidTime(item)) return "invalid";
+  return item.schedule?.status ?? "scheduled";
+};
@@ -0,0 +1,80 @@
+import { isValidTimeZone } from "./timeZone";
+
+// User display and parsing preferences. Defaults come from the browser;
+// anything the user picks is kept in localStorage so it's available
+// synchronously on startup.
+
+export type ClockFormat = "auto" | "12h" | "24h";
+/** 0 = Sunday, 1 = Monday, 6 = Saturday. */
+export type WeekStart = 0 | 1 | 6;
+
+export interface UserSettings {
+  timeZone: string;
+  locale: string;
+  clock: ClockFormat;
+  weekStart: WeekStart;
+}
+
+const STORAGE_KEY = "chronos-settings";
+
+const browserDefaults = (): UserSettings => {
+  const { timeZone, locale } = Intl.DateTimeFormat().resolvedOptions();
+  return { timeZone, locale, clock: "auto", weekStart: 1 };
+};
+
+const isValidLocale = (locale: string): boolean => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Merges stored values over the browser defaults, dropping any that are no
+ * longer valid (e.g. a zone this browser doesn't know).
+ */
+export const sanitizeSettings = (raw: Partial<UserSettings> | null | undefined): UserSettings => {
+  const defaults = browserDefaults();
+  if (!raw || typeof raw !== "object") return defaults;
+  return {
+    timeZone: typeof raw.timeZone === "string" && isValidTimeZone(raw.timeZone) ? raw.timeZone : defaults.timeZone,
+    locale: typeof raw.locale === "string" && isValidLocale(raw.locale) ? raw.locale : defaults.locale,
+    clock: raw.clock === "12h" || raw.clock === "24h" ? raw.clock : "auto",
+    weekStart: raw.weekStart === 0 || raw.weekStart === 6 ? raw.weekStart : defaults.weekStart,
+  };
+};
+
+export const loadSettings = (): UserSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return sanitizeSettings(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.warn("Could not read settings:", error);
+    return browserDefaults();
+  }
+};
+
+export const saveSettings = (settings: UserSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save settings:", error);
+  }
+};
+
+/** Subscribes to settings changed in other tabs. */
+export const subscribeToSettings = (listener: (settings: UserSettings) => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadSettings());
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
+
+/** IANA zones this browser supports, for the settings picker. */
+export const availableTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? [];
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
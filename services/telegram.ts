@@ -0,0 +1,290 @@
+// Typed access to the Telegram Mini App API (telegram-web-app.js, loaded in
+// index.html). The script defines `Telegram.WebApp` in any browser, so
+// "inside Telegram" means it was launched with `initData`. Everything here is
+// a no-op outside Telegram.
+
+export interface TelegramWebAppUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramInitDataUnsafe {
+  user?: TelegramWebAppUser;
+  auth_date?: number;
+  query_id?: string;
+  hash?: string;
+}
+
+/** Colours as `#rrggbb`; any may be missing on older clients. */
+export interface TelegramThemeParams {
+  bg_color?: string;
+  text_color?: string;
+  hint_color?: string;
+  link_color?: string;
+  button_color?: string;
+  button_text_color?: string;
+  secondary_bg_color?: string;
+  section_bg_color?: string;
+  accent_text_color?: string;
+}
+
+export interface TelegramMainButton {
+  isVisible: boolean;
+  setParams(params: { text?: string; is_active?: boolean; is_visible?: boolean }): void;
+  showProgress(leaveActive?: boolean): void;
+  hideProgress(): void;
+  onClick(callback: () => void): void;
+  offClick(callback: () => void): void;
+}
+
+export interface TelegramBackButton {
+  isVisible: boolean;
+  show(): void;
+  hide(): void;
+  onClick(callback: () => void): void;
+  offClick(callback: () => void): void;
+}
+
+export type HapticNotification = "success" | "warning" | "error";
+
+export interface TelegramHapticFeedback {
+  impactOccurred(style: "light" | "medium" | "heavy" | "rigid" | "soft"): void;
+  notificationOccurred(type: HapticNotification): void;
+  selectionChanged(): void;
+}
+
+/** Callback style as in the API: `error` is null on success. */
+export interface TelegramCloudStorage {
+  setItem(key: string, value: string, callback?: (error: string | null, stored?: boolean) => void): void;
+  getItems(keys: string[], callback: (error: string | null, values?: Record<string, string>) => void): void;
+  removeItems(keys: string[], callback?: (error: string | null, removed?: boolean) => void): void;
+  getKeys(callback: (error: string | null, keys?: string[]) => void): void;
+}
+
+export type TelegramEvent = "themeChanged" | "viewportChanged" | "mainButtonClicked" | "backButtonClicked";
+
+export interface TelegramWebApp {
+  initData: string;
+  initDataUnsafe: TelegramInitDataUnsafe;
+  version: string;
+  platform: string;
+  colorScheme: "light" | "dark";
+  themeParams: TelegramThemeParams;
+  isExpanded: boolean;
+  MainButton: TelegramMainButton;
+  BackButton: TelegramBackButton;
+  HapticFeedback: TelegramHapticFeedback;
+  CloudStorage: TelegramCloudStorage;
+  ready(): void;
+  expand(): void;
+  isVersionAtLeast(version: string): boolean;
+  setHeaderColor(color: string): void;
+  setBackgroundColor(color: string): void;
+  onEvent(event: TelegramEvent, handler: () => void): void;
+  offEvent(event: TelegramEvent, handler: () => void): void;
+}
+
+/** The Mini App, or `undefined` when the page wasn't opened from Telegram. */
+export const getTelegramWebApp = (): TelegramWebApp | undefined => {
+  if (typeof window === "undefined") return undefined;
+  const webApp = window.Telegram?.WebApp;
+  return webApp?.initData ? webApp : undefined;
+};
+
+// --- Theme ---------------------------------------------------------------
+
+// The app's own colours, matching the CSS variable defaults in index.html.
+const APP_BACKGROUND = "#0f172a";
+
+const hexToRgb = (hex: string | undefined): string | undefined => {
+  const match = hex?.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const value = parseInt(match[1], 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+/**
+ * CSS variables (space-separated RGB, as the Tailwind config in index.html
+ * expects) for a Telegram theme. Accents always follow Telegram; the app is
+ * dark-only, so background colours are only taken from dark themes.
+ */
+export const telegramThemeVariables = (
+  theme: TelegramThemeParams,
+  colorScheme: "light" | "dark"
+): Record<string, string> => {
+  const variables: Record<string, string | undefined> = {
+    "--color-primary-300": hexToRgb(theme.link_color),
+    "--color-primary-400": hexToRgb(theme.link_color),
+    "--color-primary-500": hexToRgb(theme.button_color),
+    "--color-primary-600": hexToRgb(theme.button_color),
+  };
+  if (colorScheme === "dark") {
+    variables["--color-background"] = hexToRgb(theme.bg_color);
+    variables["--color-surface"] = hexToRgb(theme.secondary_bg_color ?? theme.section_bg_color);
+  }
+  return Object.fromEntries(
+    Object.entries(variables).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+};
+
+const applyTheme = (webApp: TelegramWebApp, root: HTMLElement) => {
+  const variables = telegramThemeVariables(webApp.themeParams, webApp.colorScheme);
+  for (const [name, value] of Object.entries(variables)) root.style.setProperty(name, value);
+  // Keep Telegram's own header and overscroll area in step with the page.
+  if (webApp.isVersionAtLeast("6.1")) {
+    const background = webApp.colorScheme === "dark" ? webApp.themeParams.bg_color ?? APP_BACKGROUND : APP_BACKGROUND;
+    webApp.setHeaderColor(background);
+    webApp.setBackgroundColor(background);
+  }
+};
+
+/**
+ * Tells Telegram the app has loaded, opens it full height and follows the
+ * user's theme. Returns a function that stops following theme changes.
+ */
+export const initTelegramWebApp = (
+  webApp: TelegramWebApp,
+  root: HTMLElement = document.documentElement
+): (() => void) => {
+  webApp.ready();
+  if (!webApp.isExpanded) webApp.expand();
+  applyTheme(webApp, root);
+  const onThemeChanged = () => applyTheme(webApp, root);
+  webApp.onEvent("themeChanged", onThemeChanged);
+  return () => webApp.offEvent("themeChanged", onThemeChanged);
+};
+
+// --- Haptics -------------------------------------------------------------
+
+/** Success/error buzz after a parse; nothing outside Telegram or on old clients. */
+export const notifyHaptic = (type: HapticNotification, webApp = getTelegramWebApp()) => {
+  if (webApp?.isVersionAtLeast("6.1")) webApp.HapticFeedback.notificationOccurred(type);
+};
+
+// --- Main and back buttons -----------------------------------------------
+
+export interface MainButtonClaim {
+  text: string;
+  onClick: () => void;
+  /** Shown greyed out and ignoring taps. Default true. */
+  enabled?: boolean;
+  /** Shows a spinner in the button. */
+  progress?: boolean;
+}
+
+export interface BackButtonClaim {
+  onClick: () => void;
+}
+
+export interface ButtonHandle<T> {
+  update(claim: T): void;
+  release(): void;
+}
+
+/**
+ * Several screens may want one of Telegram's buttons at once (the text box
+ * and an open review, say). The latest claim wins; releasing it hands the
+ * button back to the one before.
+ */
+export interface ButtonStack<T> {
+  claim(claim: T): ButtonHandle<T>;
+}
+
+const createButtonStack = <T extends { onClick: () => void }>(
+  render: (top: T | undefined) => void,
+  subscribe: (onClick: () => void) => void
+): ButtonStack<T> => {
+  const entries: Array<{ claim: T }> = [];
+  const top = () => entries[entries.length - 1]?.claim;
+  subscribe(() => top()?.onClick());
+
+  return {
+    claim(claim) {
+      const entry = { claim };
+      entries.push(entry);
+      render(top());
+      return {
+        update(next) {
+          entry.claim = next;
+          render(top());
+        },
+        release() {
+          const index = entries.indexOf(entry);
+          if (index !== -1) entries.splice(index, 1);
+          render(top());
+        },
+      };
+    },
+  };
+};
+
+const mainButtonStacks = new WeakMap<TelegramWebApp, ButtonStack<MainButtonClaim>>();
+const backButtonStacks = new WeakMap<TelegramWebApp, ButtonStack<BackButtonClaim>>();
+
+export const mainButtonStack = (webApp: TelegramWebApp): ButtonStack<MainButtonClaim> => {
+  let stack = mainButtonStacks.get(webApp);
+  if (!stack) {
+    const button = webApp.MainButton;
+    stack = createButtonStack<MainButtonClaim>(
+      (top) => {
+        if (!top) {
+          button.setParams({ is_visible: false });
+          return;
+        }
+        button.setParams({ text: top.text, is_active: top.enabled !== false, is_visible: true });
+        if (top.progress) button.showProgress(false);
+        else button.hideProgress();
+      },
+      (onClick) => button.onClick(onClick)
+    );
+    mainButtonStacks.set(webApp, stack);
+  }
+  return stack;
+};
+
+export const backButtonStack = (webApp: TelegramWebApp): ButtonStack<BackButtonClaim> => {
+  let stack = backButtonStacks.get(webApp);
+  if (!stack) {
+    const button = webApp.BackButton;
+    stack = createButtonStack<BackButtonClaim>(
+      (top) => (top ? button.show() : button.hide()),
+      (onClick) => button.onClick(onClick)
+    );
+    backButtonStacks.set(webApp, stack);
+  }
+  return stack;
+};
+
+// --- Cloud storage -------------------------------------------------------
+
+/** Promise wrapper over `CloudStorage` (Bot API 6.9+). */
+export interface CloudStore {
+  keys(): Promise<string[]>;
+  get(keys: string[]): Promise<Record<string, string>>;
+  set(key: string, value: string): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+const settle = <T>(resolve: (value: T) => void, reject: (err: Error) => void, fallback: T) =>
+  (error: string | null, value?: T) => (error ? reject(new Error(`CloudStorage: ${error}`)) : resolve(value ?? fallback));
+
+export const getCloudStore = (webApp = getTelegramWebApp()): CloudStore | undefined => {
+  if (!webApp?.isVersionAtLeast("6.9")) return undefined;
+  const storage = webApp.CloudStorage;
+  return {
+    keys: () => new Promise((resolve, reject) => storage.getKeys(settle(resolve, reject, []))),
+    get: (keys) =>
+      keys.length === 0
+        ? Promise.resolve({})
+        : new Promise((resolve, reject) => storage.getItems(keys, settle(resolve, reject, {}))),
+    set: (key, value) =>
+      new Promise((resolve, reject) => storage.setItem(key, value, settle(() => resolve(), reject, true))),
+    remove: (keys) =>
+      keys.length === 0
+        ? Promise.resolve()
+        : new Promise((resolve, reject) => storage.removeItems(keys, settle(() => resolve(), reject, true))),
+  };
+};
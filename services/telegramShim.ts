@@ -0,0 +1,221 @@
+import {
+  TelegramEvent,
+  TelegramThemeParams,
+  TelegramWebApp,
+  TelegramWebAppUser,
+} from "./telegram";
+
+// A stand-in for `Telegram.WebApp` so the Mini App features can be used and
+// tested in an ordinary browser. Buttons are drawn on the page, haptics and
+// colour calls are logged, and CloudStorage lives in localStorage. Its
+// `initData` isn't signed, so a server with TELEGRAM_BOT_TOKEN rejects it.
+
+export interface TelegramShimOptions {
+  user?: TelegramWebAppUser;
+  colorScheme?: "light" | "dark";
+  themeParams?: TelegramThemeParams;
+  /** Backs CloudStorage; omit for an in-memory store. */
+  storage?: Storage;
+  /** Draw the main and back buttons into this document. */
+  document?: Document;
+}
+
+export interface TelegramWebAppShim extends TelegramWebApp {
+  /** Simulates Telegram sending an event, e.g. after a theme switch. */
+  emit(event: TelegramEvent): void;
+  setTheme(colorScheme: "light" | "dark", themeParams: TelegramThemeParams): void;
+}
+
+const DEFAULT_USER: TelegramWebAppUser = { id: 100000001, first_name: "Test", username: "chronos_test", language_code: "en" };
+
+// Telegram Desktop's dark theme.
+const DEFAULT_THEME: TelegramThemeParams = {
+  bg_color: "#17212b",
+  text_color: "#f5f5f5",
+  hint_color: "#708499",
+  link_color: "#6ab3f3",
+  button_color: "#5288c1",
+  button_text_color: "#ffffff",
+  secondary_bg_color: "#232e3c",
+  section_bg_color: "#17212b",
+};
+
+const STORAGE_PREFIX = "chronos-tg-cloud:";
+
+const memoryStorage = (): Pick<Storage, "getItem" | "setItem" | "removeItem" | "key" | "length"> => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => void values.set(key, value),
+    removeItem: (key) => void values.delete(key),
+    key: (index) => [...values.keys()][index] ?? null,
+    get length() {
+      return values.size;
+    },
+  };
+};
+
+const compareVersions = (a: string, b: string): number => {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const BUTTON_STYLE =
+  "position:fixed;z-index:9999;border:0;font:600 15px system-ui,sans-serif;cursor:pointer;";
+
+export const createTelegramShim = ({
+  user = DEFAULT_USER,
+  colorScheme = "dark",
+  themeParams = DEFAULT_THEME,
+  storage,
+  document: doc,
+}: TelegramShimOptions = {}): TelegramWebAppShim => {
+  const cloud = storage ?? memoryStorage();
+  const handlers = new Map<TelegramEvent, Set<() => void>>();
+  const authDate = Math.floor(Date.now() / 1000);
+  const initData = new URLSearchParams({ user: JSON.stringify(user), auth_date: String(authDate), hash: "shim" }).toString();
+  const later = (callback: () => void) => setTimeout(callback, 0);
+
+  const emit = (event: TelegramEvent) => handlers.get(event)?.forEach((handler) => handler());
+
+  const drawButton = (id: string, style: string, onClick: () => void): HTMLButtonElement | null => {
+    if (!doc) return null;
+    const element = doc.createElement("button");
+    element.id = id;
+    element.style.cssText = `${BUTTON_STYLE}${style}display:none;`;
+    element.addEventListener("click", onClick);
+    doc.body.appendChild(element);
+    return element;
+  };
+
+  const mainElement = drawButton("tg-shim-main-button", "left:0;right:0;bottom:0;height:48px;", () => {
+    if (mainButton.isActive) emit("mainButtonClicked");
+  });
+  const backElement = drawButton("tg-shim-back-button", "left:8px;top:8px;padding:6px 12px;border-radius:8px;", () =>
+    emit("backButtonClicked")
+  );
+  if (backElement) backElement.textContent = "‹ Back";
+
+  const mainButton = {
+    text: "",
+    isVisible: false,
+    isActive: true,
+    isProgressVisible: false,
+    render() {
+      if (!mainElement) return;
+      mainElement.textContent = mainButton.isProgressVisible ? "…" : mainButton.text;
+      mainElement.style.display = mainButton.isVisible ? "block" : "none";
+      mainElement.style.opacity = mainButton.isActive ? "1" : "0.5";
+      mainElement.style.background = webApp.themeParams.button_color ?? "#5288c1";
+      mainElement.style.color = webApp.themeParams.button_text_color ?? "#ffffff";
+    },
+    setParams(params: { text?: string; is_active?: boolean; is_visible?: boolean }) {
+      if (params.text !== undefined) mainButton.text = params.text;
+      if (params.is_active !== undefined) mainButton.isActive = params.is_active;
+      if (params.is_visible !== undefined) mainButton.isVisible = params.is_visible;
+      mainButton.render();
+    },
+    showProgress() {
+      mainButton.isProgressVisible = true;
+      mainButton.render();
+    },
+    hideProgress() {
+      mainButton.isProgressVisible = false;
+      mainButton.render();
+    },
+    onClick: (callback: () => void) => webApp.onEvent("mainButtonClicked", callback),
+    offClick: (callback: () => void) => webApp.offEvent("mainButtonClicked", callback),
+  };
+
+  const backButton = {
+    isVisible: false,
+    show() {
+      backButton.isVisible = true;
+      if (backElement) backElement.style.display = "block";
+    },
+    hide() {
+      backButton.isVisible = false;
+      if (backElement) backElement.style.display = "none";
+    },
+    onClick: (callback: () => void) => webApp.onEvent("backButtonClicked", callback),
+    offClick: (callback: () => void) => webApp.offEvent("backButtonClicked", callback),
+  };
+
+  const cloudKeys = () => {
+    const keys: string[] = [];
+    for (let i = 0; i < cloud.length; i++) {
+      const key = cloud.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) keys.push(key.slice(STORAGE_PREFIX.length));
+    }
+    return keys;
+  };
+
+  const webApp: TelegramWebAppShim = {
+    initData,
+    initDataUnsafe: { user, auth_date: authDate, hash: "shim" },
+    version: "8.0",
+    platform: "shim",
+    colorScheme,
+    themeParams,
+    isExpanded: false,
+    MainButton: mainButton,
+    BackButton: backButton,
+    HapticFeedback: {
+      impactOccurred: (style) => console.debug("[telegram shim] impact", style),
+      notificationOccurred: (type) => console.debug("[telegram shim] notification", type),
+      selectionChanged: () => console.debug("[telegram shim] selection changed"),
+    },
+    CloudStorage: {
+      setItem: (key, value, callback) =>
+        later(() => {
+          cloud.setItem(STORAGE_PREFIX + key, value);
+          callback?.(null, true);
+        }),
+      getItems: (keys, callback) =>
+        later(() =>
+          callback(null, Object.fromEntries(keys.map((key) => [key, cloud.getItem(STORAGE_PREFIX + key) ?? ""])))
+        ),
+      removeItems: (keys, callback) =>
+        later(() => {
+          keys.forEach((key) => cloud.removeItem(STORAGE_PREFIX + key));
+          callback?.(null, true);
+        }),
+      getKeys: (callback) => later(() => callback(null, cloudKeys())),
+    },
+    ready: () => console.debug("[telegram shim] ready"),
+    expand() {
+      webApp.isExpanded = true;
+    },
+    isVersionAtLeast: (version) => compareVersions(webApp.version, version) >= 0,
+    setHeaderColor: (color) => console.debug("[telegram shim] header colour", color),
+    setBackgroundColor: (color) => console.debug("[telegram shim] background colour", color),
+    onEvent(event, handler) {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+    },
+    offEvent: (event, handler) => void handlers.get(event)?.delete(handler),
+    emit,
+    setTheme(scheme, params) {
+      webApp.colorScheme = scheme;
+      webApp.themeParams = params;
+      mainButton.render();
+      emit("themeChanged");
+    },
+  };
+
+  return webApp;
+};
+
+/** Puts a shim on `window.Telegram.WebApp` unless the page really is in Telegram. */
+export const installTelegramShim = (options: TelegramShimOptions = {}): TelegramWebAppShim | undefined => {
+  if (window.Telegram?.WebApp?.initData) return undefined;
+  const shim = createTelegramShim({ storage: window.localStorage, document, ...options });
+  window.Telegram = { ...window.Telegram, WebApp: shim };
+  console.info("[telegram shim] installed; Telegram.WebApp is simulated");
+  return shim;
+};
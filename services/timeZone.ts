@@ -0,0 +1,119 @@
+// Wall-clock <-> instant conversion for IANA time zones using only Intl,
+// so the app doesn't need a date library.
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface ZonedParts extends WallClock {
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+const offsetAt = (epochMs: number, timeZone: string): number => {
+  const p = getZonedParts(new Date(epochMs), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times that fall in
+ * a DST gap are shifted forward by the gap; ambiguous times resolve to the
+ * earlier instant.
+ */
+export const zonedTimeToUtc = (wall: WallClock, timeZone: string): Date => {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const firstOffset = offsetAt(guess, timeZone);
+  let result = guess - firstOffset;
+  const secondOffset = offsetAt(result, timeZone);
+  if (secondOffset !== firstOffset) {
+    const candidate = guess - secondOffset;
+    // Only take the second offset if it actually round-trips; otherwise the
+    // wall time doesn't exist (spring forward) and the first guess is right.
+    if (offsetAt(candidate, timeZone) === secondOffset) result = candidate;
+  }
+  return new Date(result);
+};
+
+/**
+ * Adds calendar days to a wall-clock date, normalising month/year overflow.
+ */
+export const addDays = (wall: WallClock, days: number): WallClock => {
+  const d = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+/**
+ * Formats an instant as YYYY-MM-DDTHH:MM:SSZ, the shape the parser contract uses.
+ */
+export const toIsoUtc = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+/**
+ * Formats an instant for <input type="datetime-local">, which holds a
+ * wall-clock time without a zone; `timeZone` says which wall clock.
+ */
+export const toZonedInputValue = (iso: string, timeZone: string): string => {
+  const date = new Date(iso);
+  if (!iso || Number.isNaN(date.getTime())) return "";
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+export const fromZonedInputValue = (value: string, timeZone: string): string => {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!m) return "";
+  return toIsoUtc(zonedTimeToUtc({ year: +m[1], month: +m[2], day: +m[3], hour: +m[4], minute: +m[5], second: 0 }, timeZone));
+};
@@ -0,0 +1,377 @@
+import { REMINDER_CATEGORIES, REMINDER_PRIORITIES, ReminderData } from "../types";
+import type { ReminderCommand } from "./parserContract";
+import { parseRRule } from "./recurrence";
+import { isValidTimeZone } from "./timeZone";
+
+// Runtime checks for model output. Everything the UI renders from a parse
+// goes through `validateReminder` first, whichever provider produced it.
+
+export type ValidationCode =
+  | "invalid_json"
+  | "wrong_type"
+  | "missing_field"
+  | "unknown_field"
+  | "invalid_format"
+  | "not_utc"
+  | "out_of_range"
+  | "in_past"
+  | "beyond_horizon"
+  | "invalid_recurrence";
+
+export interface ValidationIssue {
+  field: string;
+  code: ValidationCode;
+  message: string;
+}
+
+export interface ValidationResult {
+  /** Present only when there are no issues. */
+  data?: ReminderData;
+  issues: ValidationIssue[];
+}
+
+export class ReminderValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid reminder: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join("; ")}`);
+    this.name = "ReminderValidationError";
+    this.issues = issues;
+  }
+}
+
+export interface ValidationOptions {
+  now: Date;
+  /** Furthest into the future a first occurrence may be. */
+  horizonDays: number;
+  /** Allowed clock skew for "in the past" checks. */
+  pastToleranceMs?: number;
+}
+
+const KNOWN_FIELDS = new Set<string>([
+  "reminder_content",
+  "scheduled_time",
+  "confidence_score",
+  "recurrence_rule",
+  "recurrence_end",
+  "recurrence_count",
+  "candidates",
+  "clarifying_question",
+  "source_timezone",
+  "language",
+  "priority",
+  "category",
+  "tags",
+  "location",
+  "lead_time_minutes",
+]);
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 40;
+const MAX_LOCATION_LENGTH = 200;
+const MAX_LEAD_TIMES = 5;
+// Four weeks; anything earlier is a separate reminder, not a heads-up.
+const MAX_LEAD_MINUTES = 40_320;
+
+const ISO_UTC = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?Z$/;
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?([+-]\d{2}:?\d{2})?$/;
+const DAY_MS = 86_400_000;
+
+/**
+ * Checks that `value` is an ISO 8601 UTC timestamp that names a real instant
+ * (so "2025-02-30T10:00:00Z" is rejected rather than rolled over).
+ */
+const checkUtcTimestamp = (field: string, value: string): ValidationIssue | null => {
+  if (!ISO_UTC.test(value)) {
+    return ISO_WITH_OFFSET.test(value)
+      ? { field, code: "not_utc", message: `"${value}" must be in UTC with a trailing "Z"` }
+      : { field, code: "invalid_format", message: `"${value}" is not an ISO 8601 timestamp (YYYY-MM-DDTHH:MM:SSZ)` };
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 19) !== value.slice(0, 19)) {
+    return { field, code: "invalid_format", message: `"${value}" is not a real calendar date` };
+  }
+  return null;
+};
+
+const checkFutureTimestamp = (
+  field: string,
+  value: string,
+  { now, horizonDays, pastToleranceMs = 60_000 }: ValidationOptions
+): ValidationIssue | null => {
+  const formatIssue = checkUtcTimestamp(field, value);
+  if (formatIssue) return formatIssue;
+
+  const ms = Date.parse(value);
+  if (ms < now.getTime() - pastToleranceMs) {
+    return { field, code: "in_past", message: `${value} is before NOW (${now.toISOString()})` };
+  }
+  if (ms > now.getTime() + horizonDays * DAY_MS) {
+    return { field, code: "beyond_horizon", message: `${value} is more than ${horizonDays} days ahead` };
+  }
+  return null;
+};
+
+export const validateReminder = (raw: unknown, options: ValidationOptions): ValidationResult => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { issues: [{ field: "$", code: "wrong_type", message: "Response must be a JSON object" }] };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(record)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      issues.push({ field: key, code: "unknown_field", message: "Field is not part of the reminder schema" });
+    }
+  }
+
+  const { reminder_content, scheduled_time, confidence_score } = record;
+
+  if (reminder_content === undefined) {
+    issues.push({ field: "reminder_content", code: "missing_field", message: "Field is required" });
+  } else if (typeof reminder_content !== "string") {
+    issues.push({ field: "reminder_content", code: "wrong_type", message: "Must be a string" });
+  }
+
+  if (confidence_score === undefined) {
+    issues.push({ field: "confidence_score", code: "missing_field", message: "Field is required" });
+  } else if (typeof confidence_score !== "number" || !Number.isFinite(confidence_score)) {
+    issues.push({ field: "confidence_score", code: "wrong_type", message: "Must be a number" });
+  } else if (confidence_score < 0 || confidence_score > 1) {
+    issues.push({ field: "confidence_score", code: "out_of_range", message: `${confidence_score} is outside [0, 1]` });
+  }
+
+  if (scheduled_time === undefined) {
+    issues.push({ field: "scheduled_time", code: "missing_field", message: "Field is required" });
+  } else if (typeof scheduled_time !== "string") {
+    issues.push({ field: "scheduled_time", code: "wrong_type", message: "Must be a string" });
+  } else if (scheduled_time === "") {
+    // An empty time is the contract's way of saying "could not schedule".
+    if (typeof confidence_score === "number" && confidence_score >= 0.5) {
+      issues.push({
+        field: "confidence_score",
+        code: "out_of_range",
+        message: "Must be below 0.5 when scheduled_time is empty",
+      });
+    }
+  } else {
+    const timeIssue = checkFutureTimestamp("scheduled_time", scheduled_time, options);
+    if (timeIssue) issues.push(timeIssue);
+  }
+
+  const { recurrence_rule, recurrence_end, recurrence_count } = record;
+
+  if (recurrence_rule !== undefined) {
+    if (typeof recurrence_rule !== "string") {
+      issues.push({ field: "recurrence_rule", code: "wrong_type", message: "Must be a string" });
+    } else {
+      try {
+        parseRRule(recurrence_rule);
+      } catch (err) {
+        issues.push({ field: "recurrence_rule", code: "invalid_recurrence", message: (err as Error).message });
+      }
+    }
+  }
+
+  if (recurrence_end !== undefined) {
+    const endIssue = typeof recurrence_end === "string"
+      ? checkUtcTimestamp("recurrence_end", recurrence_end)
+      : { field: "recurrence_end", code: "wrong_type" as const, message: "Must be a string" };
+    if (endIssue) issues.push(endIssue);
+  }
+
+  if (recurrence_count !== undefined && (!Number.isInteger(recurrence_count) || (recurrence_count as number) < 1)) {
+    issues.push({ field: "recurrence_count", code: "out_of_range", message: "Must be a positive integer" });
+  }
+
+  const { candidates, clarifying_question } = record;
+
+  if (candidates !== undefined) {
+    if (!Array.isArray(candidates)) {
+      issues.push({ field: "candidates", code: "wrong_type", message: "Must be an array" });
+    } else {
+      candidates.forEach((candidate, index) => {
+        const field = `candidates[${index}]`;
+        if (typeof candidate !== "object" || candidate === null) {
+          issues.push({ field, code: "wrong_type", message: "Must be an object" });
+          return;
+        }
+        const { scheduled_time: time, rationale } = candidate as Record<string, unknown>;
+        const timeIssue = typeof time === "string"
+          ? checkFutureTimestamp(`${field}.scheduled_time`, time, options)
+          : { field: `${field}.scheduled_time`, code: "wrong_type" as const, message: "Must be a string" };
+        if (timeIssue) issues.push(timeIssue);
+        if (typeof rationale !== "string") {
+          issues.push({ field: `${field}.rationale`, code: "wrong_type", message: "Must be a string" });
+        }
+      });
+    }
+  }
+
+  if (clarifying_question !== undefined && typeof clarifying_question !== "string") {
+    issues.push({ field: "clarifying_question", code: "wrong_type", message: "Must be a string" });
+  }
+
+  const { source_timezone, language } = record;
+  if (language !== undefined && (typeof language !== "string" || !/^[a-z]{2,3}$/i.test(language))) {
+    issues.push({ field: "language", code: "invalid_format", message: "Must be an ISO 639-1 code such as 'uz'" });
+  }
+
+  if (source_timezone !== undefined) {
+    if (typeof source_timezone !== "string") {
+      issues.push({ field: "source_timezone", code: "wrong_type", message: "Must be a string" });
+    } else if (!isValidTimeZone(source_timezone)) {
+      issues.push({ field: "source_timezone", code: "invalid_format", message: "Must be an IANA time zone name such as Asia/Tokyo" });
+    }
+  }
+
+  const { priority, category, tags, location, lead_time_minutes } = record;
+
+  if (priority !== undefined && !(REMINDER_PRIORITIES as readonly unknown[]).includes(priority)) {
+    issues.push({ field: "priority", code: "invalid_format", message: `Must be one of ${REMINDER_PRIORITIES.join(", ")}` });
+  }
+
+  if (category !== undefined && !(REMINDER_CATEGORIES as readonly unknown[]).includes(category)) {
+    issues.push({ field: "category", code: "invalid_format", message: `Must be one of ${REMINDER_CATEGORIES.join(", ")}` });
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags)) {
+      issues.push({ field: "tags", code: "wrong_type", message: "Must be an array of strings" });
+    } else if (tags.length > MAX_TAGS) {
+      issues.push({ field: "tags", code: "out_of_range", message: `At most ${MAX_TAGS} tags are allowed` });
+    } else {
+      tags.forEach((tag, index) => {
+        if (typeof tag !== "string") {
+          issues.push({ field: `tags[${index}]`, code: "wrong_type", message: "Must be a string" });
+        } else if (tag.length > MAX_TAG_LENGTH) {
+          issues.push({ field: `tags[${index}]`, code: "out_of_range", message: `Must be at most ${MAX_TAG_LENGTH} characters` });
+        }
+      });
+    }
+  }
+
+  if (location !== undefined) {
+    if (typeof location !== "string") {
+      issues.push({ field: "location", code: "wrong_type", message: "Must be a string" });
+    } else if (location.length > MAX_LOCATION_LENGTH) {
+      issues.push({ field: "location", code: "out_of_range", message: `Must be at most ${MAX_LOCATION_LENGTH} characters` });
+    }
+  }
+
+  if (lead_time_minutes !== undefined) {
+    if (!Array.isArray(lead_time_minutes)) {
+      issues.push({ field: "lead_time_minutes", code: "wrong_type", message: "Must be an array of integers" });
+    } else if (lead_time_minutes.length > MAX_LEAD_TIMES) {
+      issues.push({ field: "lead_time_minutes", code: "out_of_range", message: `At most ${MAX_LEAD_TIMES} lead times are allowed` });
+    } else {
+      lead_time_minutes.forEach((minutes, index) => {
+        if (!Number.isInteger(minutes) || (minutes as number) < 1 || (minutes as number) > MAX_LEAD_MINUTES) {
+          issues.push({
+            field: `lead_time_minutes[${index}]`,
+            code: "out_of_range",
+            message: `Must be a whole number of minutes between 1 and ${MAX_LEAD_MINUTES}`,
+          });
+        }
+      });
+    }
+  }
+
+  return issues.length > 0 ? { issues } : { data: record as unknown as ReminderData, issues };
+};
+
+// Upper bound on reminders accepted from one input.
+export const MAX_REMINDERS_PER_INPUT = 20;
+
+export interface BatchValidationResult {
+  /** Present only when every reminder is valid. */
+  data?: ReminderData[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Validates every reminder from one response. Issue fields are prefixed with
+ * the reminder's position, e.g. `reminders[1].scheduled_time`.
+ */
+export const validateReminders = (raws: unknown[], options: ValidationOptions): BatchValidationResult => {
+  if (raws.length === 0) {
+    return { issues: [{ field: "reminders", code: "missing_field", message: "At least one reminder is required" }] };
+  }
+  if (raws.length > MAX_REMINDERS_PER_INPUT) {
+    return {
+      issues: [{ field: "reminders", code: "out_of_range", message: `At most ${MAX_REMINDERS_PER_INPUT} reminders are allowed` }],
+    };
+  }
+
+  const data: ReminderData[] = [];
+  const issues: ValidationIssue[] = [];
+  raws.forEach((raw, index) => {
+    const result = validateReminder(raw, options);
+    if (result.data) data.push(result.data);
+    issues.push(...result.issues.map((issue) => ({ ...issue, field: `reminders[${index}].${issue.field}` })));
+  });
+
+  return issues.length > 0 ? { issues } : { data, issues };
+};
+
+/**
+ * Checks a command parsed from a modify or query request. Times are held to
+ * the same rules as reminder times; the target only has to be identifiable,
+ * since which reminder it is gets settled against the history later.
+ */
+export const validateCommand = (command: ReminderCommand, options: ValidationOptions): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const record = command as unknown as Record<string, unknown>;
+
+  for (const field of ["target_id", "target_description", "query_text"]) {
+    if (record[field] !== undefined && typeof record[field] !== "string") {
+      issues.push({ field, code: "wrong_type", message: "Must be a string" });
+    }
+  }
+
+  if (command.intent === "query") {
+    for (const field of ["query_start", "query_end"]) {
+      const value = record[field];
+      if (value === undefined) continue;
+      const issue = typeof value === "string"
+        ? checkUtcTimestamp(field, value)
+        : { field, code: "wrong_type" as const, message: "Must be a string" };
+      if (issue) issues.push(issue);
+    }
+    if (issues.length === 0 && command.query_start && command.query_end && command.query_start >= command.query_end) {
+      issues.push({ field: "query_end", code: "out_of_range", message: "Must be after query_start" });
+    }
+    return issues;
+  }
+
+  if (!command.target_id && !command.target_description) {
+    issues.push({ field: "target_id", code: "missing_field", message: "Name the reminder to change with target_id or target_description" });
+  }
+
+  if (command.intent === "reschedule" || command.intent === "snooze") {
+    const { new_time } = record;
+    if (new_time === undefined) {
+      issues.push({ field: "new_time", code: "missing_field", message: `Required for ${command.intent}` });
+    } else if (typeof new_time !== "string") {
+      issues.push({ field: "new_time", code: "wrong_type", message: "Must be a string" });
+    } else {
+      const timeIssue = checkFutureTimestamp("new_time", new_time, options);
+      if (timeIssue) issues.push(timeIssue);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Instructions sent back to the model when its previous answer failed
+ * validation, listing each problem so it can fix them in one go.
+ */
+export const buildCorrectionPrompt = (issues: ValidationIssue[]): string => `
+### CORRECTION REQUIRED
+Your previous answer was rejected for these reasons:
+${issues.map((issue) => `- ${issue.field}: ${issue.message}`).join("\n")}
+
+Return a corrected JSON object that follows the schema and the ABSOLUTE OUTPUT RULES exactly. Do not add fields that are not in the schema.
+`;
@@ -1,19 +1,79 @@
+export interface TimeCandidate {
+  scheduled_time: string; // ISO 8601 UTC
+  rationale: string;
+}
+
+export const REMINDER_PRIORITIES = ['low', 'normal', 'high'] as const;
+export type ReminderPriority = typeof REMINDER_PRIORITIES[number];
+
+export const REMINDER_CATEGORIES = ['work', 'personal', 'health', 'shopping', 'finance', 'travel', 'social'] as const;
+export type ReminderCategory = typeof REMINDER_CATEGORIES[number];
+
 export interface ReminderData {
   reminder_content: string;
   scheduled_time: string;
   confidence_score: number;
+  // RFC 5545 RRULE without the "RRULE:" prefix, e.g. "FREQ=WEEKLY;BYDAY=MO".
+  // scheduled_time is the first occurrence.
+  recurrence_rule?: string;
+  recurrence_end?: string; // ISO 8601 UTC, last possible occurrence
+  recurrence_count?: number;
+  // Competing readings of an ambiguous time, most likely first. scheduled_time
+  // is the first candidate until the user picks one.
+  candidates?: TimeCandidate[];
+  clarifying_question?: string;
+  // IANA zone the user named explicitly ("3pm Tokyo time"); scheduled_time is
+  // still UTC, and repeats follow this zone's wall clock.
+  source_timezone?: string;
+  language?: string; // ISO 639-1 code of the input, e.g. "uz"
+  priority?: ReminderPriority; // Absent means 'normal'
+  category?: ReminderCategory;
+  tags?: string[]; // Lowercase free-form labels in the input's language
+  location?: string; // Where it happens, as the user said it
+  // Extra alerts this many minutes before each occurrence, largest first.
+  lead_time_minutes?: number[];
 }
 
-export enum ParseStatus {
-  IDLE = 'IDLE',
-  RECORDING = 'RECORDING',
-  PROCESSING = 'PROCESSING',
-  SUCCESS = 'SUCCESS',
-  ERROR = 'ERROR',
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface DeliveryState {
+  status: DeliveryStatus;
+  attempts: number;
+  updatedAt: string;
+  lastError?: string;
+  previouslySent?: boolean; // The receiver has an earlier version, so the next send is an update
 }
 
+export type ScheduleStatus = 'scheduled' | 'fired' | 'snoozed' | 'missed';
+
+export interface ScheduleState {
+  status: ScheduleStatus;
+  nextFireAt?: string; // When the next notification is due; set for snoozes and repeats
+  firedAt?: string;
+  acknowledgedAt?: string; // Dismissed from the notification
+  leadAlertsSent?: number[]; // lead_time_minutes already alerted for the upcoming occurrence
+  updatedAt: string;
+}
+
+export interface Clarification {
+  chosenTime: string;
+  answer?: string; // Free-text reply to clarifying_question, if that's how it was resolved
+  resolvedAt: string;
+}
+
+export type ReminderStatus = 'active' | 'done';
+
 export interface HistoryItem extends ReminderData {
   id: string;
   createdAt: string;
   originalInput: string; // Transcription or text
+  delivery?: DeliveryState; // Webhook (Telegram) delivery, absent for items saved before it existed
+  schedule?: ScheduleState; // In-browser notifications, absent until the scheduler first sees the item
+  clarification?: Clarification; // How an ambiguous parse was settled
+  status?: ReminderStatus; // Absent means 'active'
+  completedAt?: string;
+  // The parser's answer before the user first changed it, to measure corrections
+  originalParse?: ReminderData;
+  editCount?: number;
+  editedAt?: string;
 }
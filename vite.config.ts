@@ -8,11 +8,35 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.API_PROXY_TARGET || 'http://localhost:8788',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Browser settings only: model keys stay on the parse server (server/).
+        'process.env.PARSE_API_URL': JSON.stringify(env.PARSE_API_URL),
+        'process.env.LOCAL_PARSER_MODE': JSON.stringify(env.LOCAL_PARSER_MODE),
+        'process.env.LOCAL_PARSER_THRESHOLD': JSON.stringify(env.LOCAL_PARSER_THRESHOLD),
+        'process.env.MAX_HORIZON_DAYS': JSON.stringify(env.MAX_HORIZON_DAYS),
+        'process.env.DELIVERY_WEBHOOK_URL': JSON.stringify(env.DELIVERY_WEBHOOK_URL),
+        'process.env.DELIVERY_MAX_ATTEMPTS': JSON.stringify(env.DELIVERY_MAX_ATTEMPTS),
+        'process.env.DELIVERY_BASE_DELAY_MS': JSON.stringify(env.DELIVERY_BASE_DELAY_MS),
+        'process.env.DELIVERY_TIMEOUT_MS': JSON.stringify(env.DELIVERY_TIMEOUT_MS),
+        'process.env.SNOOZE_MINUTES': JSON.stringify(env.SNOOZE_MINUTES),
+        'process.env.CATCH_UP_GRACE_MINUTES': JSON.stringify(env.CATCH_UP_GRACE_MINUTES),
+        'process.env.RECORDER_MAX_SECONDS': JSON.stringify(env.RECORDER_MAX_SECONDS),
+        'process.env.RECORDER_SILENCE_MS': JSON.stringify(env.RECORDER_SILENCE_MS),
+        'process.env.RECORDER_SPEECH_THRESHOLD': JSON.stringify(env.RECORDER_SPEECH_THRESHOLD),
+        'process.env.MAX_AUDIO_BYTES': JSON.stringify(env.MAX_AUDIO_BYTES),
+        'process.env.PARSE_TIMEOUT_MS': JSON.stringify(env.PARSE_TIMEOUT_MS),
+        'process.env.PARSE_MAX_ATTEMPTS': JSON.stringify(env.PARSE_MAX_ATTEMPTS),
+        'process.env.PARSE_RETRY_BASE_MS': JSON.stringify(env.PARSE_RETRY_BASE_MS),
+        'process.env.TELEMETRY_MAX_ENTRIES': JSON.stringify(env.TELEMETRY_MAX_ENTRIES),
+        'process.env.PARSE_COST_INPUT_PER_MTOK': JSON.stringify(env.PARSE_COST_INPUT_PER_MTOK),
+        'process.env.PARSE_COST_OUTPUT_PER_MTOK': JSON.stringify(env.PARSE_COST_OUTPUT_PER_MTOK),
+        'process.env.TELEGRAM_SHIM': JSON.stringify(env.TELEGRAM_SHIM),
+        'process.env.TIME_TRAVEL': JSON.stringify(env.TIME_TRAVEL ?? String(mode === 'development'))
       },
       resolve: {
         alias: {